@@ -10,7 +10,7 @@ const typedObsidianRulesOff = {
 
 export default [
 	{
-		ignores: ["main.js", "eslint.config.mjs", "esbuild.config.mjs", "version-bump.mjs"],
+		ignores: ["main.js", "eslint.config.mjs", "esbuild.config.mjs", "version-bump.mjs", "vitest.config.mjs", "test/setup.mjs"],
 	},
 	...obsidianmd.configs.recommended,
 	{
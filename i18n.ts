@@ -25,7 +25,7 @@ const en = {
 	"notice.syncInProgress": "Dinox: Sync already in progress.",
 	"notice.tokenMissing": "Dinox: Please set your Dinox token in settings.",
 	"notice.syncStarting": "Dinox: Starting sync...",
-	"notice.syncComplete": "Dinox: Sync complete!\nProcessed: {processed}, Deleted: {deleted}",
+	"notice.syncComplete": "Dinox: Sync complete!\nProcessed: {processed}, Unchanged: {unchanged}, Deleted: {deleted}",
 	"notice.syncFailed": "Dinox: Sync failed!\n{error}",
 	"notice.syncReset": "Dinox: Sync reset. Next sync will fetch all notes.",
 	"notice.syncCommandFailed": "Dinox: Sync failed - {error}",
@@ -93,7 +93,7 @@ const en = {
 	"settings.template.name": "Content template (sent to API)",
 	"settings.template.desc": "Template forwarded to the Dinox API when requesting notes.",
 	"settings.autoSync.name": "Enable auto sync",
-	"settings.autoSync.desc": "Automatically sync every 30 minutes while Obsidian is open.",
+	"settings.autoSync.desc": "Sync on a schedule while Obsidian is open. After failed syncs the wait grows, and scheduled syncs pause while you are offline.",
 	"settings.section.typeFolders": "Type-based folders",
 	"settings.typeFolders.enable.name": "Split by type",
 	"settings.typeFolders.enable.desc": "Store synced notes into different subfolders based on the Dinox note type field.",
@@ -153,6 +153,232 @@ const en = {
 	"settings.advanced.preset.oneWeek": "1 week ago",
 	"settings.advanced.preset.oneMonth": "1 month ago",
 	"settings.advanced.preset.start": "Beginning of time",
+	"command.showConflicts": "Show Dinox sync conflicts",
+	"notice.syncConflicts": "Dinox: {count} note(s) changed both locally and in Dinox. The Dinox version was saved as a conflict copy; run \"Show Dinox sync conflicts\" to resolve.",
+	"notice.conflictResolveFailed": "Dinox: Failed to resolve conflict - {error}",
+	"conflicts.title": "Dinox sync conflicts",
+	"conflicts.empty": "No conflicts. Local edits and Dinox are in step.",
+	"conflicts.desc": "These notes were edited in Obsidian and changed in Dinox. Your local file was left untouched; the Dinox version is in the conflict copy.",
+	"conflicts.entryDesc": "Dinox version: {copy} · detected {time}",
+	"conflicts.open": "Compare",
+	"conflicts.keepLocal": "Keep local",
+	"conflicts.useRemote": "Use Dinox version",
+	"conflicts.dismiss": "Dismiss without changes",
+	"notice.syncMerged": "Dinox: Merged local and Dinox edits in {count} note(s).",
+	"conflicts.markersDesc": "Overlapping edits were merged with conflict markers · detected {time}. Edit the note, remove the markers, then mark it resolved.",
+	"conflicts.openNote": "Open",
+	"conflicts.markResolved": "Mark resolved",
+	"settings.conflictStrategy.name": "When both sides changed",
+	"settings.conflictStrategy.desc": "How to handle a note edited in Obsidian that also changed in Dinox since the last sync.",
+	"settings.conflictStrategy.optionMerge": "Three-way merge (conflict markers on overlap)",
+	"settings.conflictStrategy.optionCopy": "Keep local, save Dinox version as a conflict copy",
+	"command.previewSync": "Preview Dinox sync (dry run)",
+	"notice.previewStarting": "Dinox: Building sync preview...",
+	"notice.previewFailed": "Dinox: Sync preview failed - {error}",
+	"common.cancel": "Cancel",
+	"preview.title": "Dinox sync preview",
+	"preview.empty": "Nothing to do. Your vault is up to date.",
+	"preview.summary": "{create} to create, {modify} to update, {rename} to move, {delete} to delete, {conflict} conflict(s).",
+	"preview.selectedHint": "Applying only selected items does not advance the sync cursor; the rest is fetched again next time.",
+	"preview.section.create": "Create",
+	"preview.section.modify": "Update",
+	"preview.section.rename": "Move / rename",
+	"preview.section.delete": "Delete",
+	"preview.section.conflict": "Conflict copy",
+	"preview.applyAll": "Apply all",
+	"preview.applySelected": "Apply selected",
+	"preview.remoteChanged": "Dinox has changed since this preview, so the sync may do more than it showed. Sync anyway?",
+	"command.undoLastSync": "Undo last Dinox sync",
+	"undo.confirm": "Undo the sync from {time}? {count} file operations will be reverted and the sync position restored.",
+	"notice.undoNothing": "Dinox: No sync to undo.",
+	"notice.undoTooLarge": "Dinox: The last sync was too large to record and cannot be undone.",
+	"notice.undoStarting": "Dinox: Undoing last sync...",
+	"notice.undoComplete": "Dinox: Undo complete. {count} file operations reverted.",
+	"notice.undoPartial": "Dinox: Undo finished with errors. {reverted} reverted, {failed} failed (see console).",
+	"notice.undoFailed": "Dinox: Undo failed: {error}",
+	"notice.syncResuming": "Dinox: Resuming the interrupted sync...",
+	"notice.syncNotesQueued": "Dinox: {count} notes failed and will be retried on a later sync. See the plugin settings for details.",
+	"settings.section.failedNotes": "Failed notes",
+	"settings.failedNotes.name": "Retry queue",
+	"settings.failedNotes.empty": "No notes are waiting for a retry.",
+	"settings.failedNotes.desc": "{count} notes failed to sync. They are retried automatically with increasing delays; the rest of the sync is not held back.",
+	"settings.failedNotes.retry": "Retry now",
+	"settings.failedNotes.entry": "{error} — attempts: {attempts}, next retry: {time}",
+	"settings.deletionPolicy.name": "When a note is deleted in Dinox",
+	"settings.deletionPolicy.desc": "Trashing breaks links to the note. Archiving or marking keeps the file so backlinks stay intact.",
+	"settings.deletionPolicy.optionTrash": "Move to trash",
+	"settings.deletionPolicy.optionArchive": "Move to archive folder",
+	"settings.deletionPolicy.optionMark": "Keep and mark as deleted (dinox_deleted)",
+	"settings.deletionPolicy.optionIgnore": "Do nothing",
+	"settings.deletionArchiveFolder.name": "Archive folder",
+	"settings.deletionArchiveFolder.desc": "Folder inside the sync directory that deleted notes are moved to.",
+	"notice.deletionsHeldBack": "Dinox: {count} deletions were not applied. They are kept aside and the next sync asks about them again.",
+	"deletionGuard.title": "Confirm deletions",
+	"deletionGuard.desc": "This sync would remove {count} of {total} synced notes from their folders. If this is unexpected (for example a wrong sync scope), skip the deletions and check your settings.",
+	"deletionGuard.confirm": "Remove {count} notes",
+	"deletionGuard.skip": "Skip deletions",
+	"settings.deletionGuard.enable.name": "Confirm mass deletions",
+	"settings.deletionGuard.enable.desc": "Ask before a sync removes more notes than the limits below.",
+	"settings.deletionGuard.maxCount.name": "Maximum deletions per sync",
+	"settings.deletionGuard.maxCount.desc": "Number of notes. 0 turns this limit off.",
+	"settings.deletionGuard.maxPercent.name": "Maximum deletions per sync (%)",
+	"settings.deletionGuard.maxPercent.desc": "Share of the notes in the sync folder. 0 turns this limit off.",
+	"command.reconcile": "Reconcile with Dinox",
+	"notice.reconcileStarting": "Dinox: Comparing the vault with your Dinox library...",
+	"notice.reconcileFailed": "Dinox: Reconcile failed: {error}",
+	"notice.reconcileMappingsFixed": "Dinox: Fixed {count} mapping entries.",
+	"reconcile.title": "Reconcile with Dinox",
+	"reconcile.summary": "{remote} notes in Dinox, {local} synced notes in the vault.",
+	"reconcile.clean": "Everything matches. Nothing to fix.",
+	"reconcile.orphaned.name": "Local notes missing in Dinox ({count})",
+	"reconcile.orphaned.desc": "Their noteId is not in your Dinox library (within the sync scope). The fix applies the deletion policy to them, asking first when they are a mass deletion.",
+	"reconcile.orphaned.choose": "{count} local notes are no longer in Dinox, and the deletion policy leaves such notes alone. Archive them, move them to the trash, or keep them as they are.",
+	"reconcile.orphaned.fix": "Remove local files",
+	"reconcile.missing.name": "Dinox notes missing locally ({count})",
+	"reconcile.missing.desc": "These notes exist in Dinox but have no file in the vault, e.g. after a manual delete.",
+	"reconcile.missing.fix": "Download",
+	"reconcile.stale.name": "Stale mapping entries ({count})",
+	"reconcile.stale.desc": "Saved note locations that point at a missing file or at a different note.",
+	"reconcile.stale.fix": "Repair mapping",
+	"reconcile.fixed": "Done",
+	"reconcile.more": "…and {count} more",
+	"command.unpinNoteLocation": "Let Dinox sync manage this note's location again",
+	"notice.noteLocationUnpinned": "Dinox: The next sync will move this note to its computed folder again.",
+	"settings.pinMovedNotes.name": "Keep notes where I move them",
+	"settings.pinMovedNotes.desc": "After you move a synced note out of the folder the sync gives it, later syncs update it in place instead of moving it back. Renaming it within that folder does not count. Use the \"Let Dinox sync manage this note's location again\" command to undo this for a note.",
+	"command.relayoutNotes": "Re-apply layout to all synced notes",
+	"relayout.confirm": "Move every synced note to the path the current filename and folder settings give it? Notes you moved yourself, ignored notes and archived or deleted notes stay where they are. Folders left empty are removed. You can revert this with \"Undo last Dinox sync\".",
+	"notice.relayoutStarting": "Dinox: Re-applying layout...",
+	"notice.relayoutProgress": "Dinox: Re-applying layout ({done}/{total})...",
+	"notice.relayoutComplete": "Dinox: Layout applied. Moved {moved}, unchanged {unchanged}, skipped {skipped}, failed {failed}. Removed {removedFolders} empty folders.",
+	"notice.relayoutFailed": "Dinox: Re-applying layout failed: {error}",
+	"statusBar.nextSync": "Next auto sync in {minutes} min",
+	"statusBar.nextSyncBackoff": "Next auto sync in {minutes} min (waiting longer after {failures} failed syncs)",
+	"statusBar.autoSyncOffline": "Auto sync paused while offline",
+	"settings.autoSyncInterval.name": "Auto sync interval (minutes)",
+	"settings.autoSyncInterval.desc": "Minutes between scheduled syncs, from {min} to {max}.",
+	"settings.autoSyncOnStartup.name": "Sync on startup",
+	"settings.autoSyncOnStartup.desc": "Run a sync once Obsidian has finished loading.",
+	"settings.autoSyncOnFocus.name": "Sync when Obsidian regains focus",
+	"settings.autoSyncOnFocus.desc": "Sync when you switch back to Obsidian, at most once every 5 minutes.",
+	"profile.mainName": "Main",
+	"profile.unnamed": "Profile {index}",
+	"profile.choose": "Choose a profile to sync",
+	"command.syncProfile": "Sync one Dinox profile",
+	"statusBar.profileResult": "{name}: {processed} updated, {deleted} deleted ({time})",
+	"statusBar.profileFailed": "{name}: failed – {error} ({time})",
+	"statusBar.profilesFailed": "Dinox ({count} failed)",
+	"settings.section.profiles": "Additional profiles",
+	"settings.profiles.desc": "Sync more Dinox accounts into their own folders. Each profile has its own token, folder, template and sync scope; all other settings are shared. \"Synchronize Dinox notes now\" syncs every profile in turn. Keep the folders of different profiles apart (not nested in each other).",
+	"settings.profiles.add": "Add profile",
+	"settings.profiles.name": "Profile name",
+	"settings.profiles.template.desc": "Used for every note type, in place of the type templates. Leave empty to use the main template and the type templates.",
+	"settings.profiles.syncNow": "Sync now",
+	"settings.profiles.remove": "Remove",
+	"settings.profiles.removeConfirm": "Remove the profile \"{name}\"? Its synced files stay in the vault.",
+	"settings.section.routingRules": "Routing rules",
+	"settings.routingRules.desc": "Send matching notes to their own folder, template and filename. Rules are checked from top to bottom and the first enabled match wins; empty fields keep the regular settings. A rule's folder lives inside the sync folder and replaces the type and zettel box folders.",
+	"settings.routingRules.add": "Add rule",
+	"settings.routingRules.rule": "Rule {index}",
+	"settings.routingRules.moveUp": "Move up",
+	"settings.routingRules.moveDown": "Move down",
+	"settings.routingRules.remove": "Remove rule",
+	"settings.routingRules.match.name": "Match",
+	"settings.routingRules.match.desc": "Tags, types and zettel box paths also match their sub-tags and sub-boxes. Title and content take a case-insensitive regular expression.",
+	"settings.routingRules.field.tag": "Tag",
+	"settings.routingRules.field.type": "Type",
+	"settings.routingRules.field.zettelBox": "Zettel box",
+	"settings.routingRules.field.title": "Title (regex)",
+	"settings.routingRules.field.content": "Content (regex)",
+	"settings.routingRules.pattern.placeholder": "e.g. meeting",
+	"settings.routingRules.folder.name": "Folder",
+	"settings.routingRules.folder.desc": "Relative to the sync folder. Leave empty to keep the regular folder.",
+	"settings.routingRules.folder.placeholder": "e.g. Work/Meetings",
+	"settings.routingRules.filename.name": "Filename pattern",
+	"settings.routingRules.filename.desc": "Same placeholders as the filename template. Leave empty to use the regular filename format.",
+	"settings.typeTemplates.note.name": "Template for notes",
+	"settings.typeTemplates.material.name": "Template for materials (web clips)",
+	"settings.typeTemplates.audio.name": "Template for audio notes",
+	"settings.typeTemplates.desc": "Leave empty to use the content template above.",
+	"report.title": "Dinox sync report",
+	"report.duration": "Duration: {seconds} s",
+	"report.summary": "Created {created} · Updated {updated} · Moved {moved} · Unchanged {unchanged} · Deleted {deleted} · Skipped {skipped} · Conflicts {conflicts} · Failed {failed}",
+	"report.error": "Error: {error}",
+	"report.section.created": "Created",
+	"report.section.updated": "Updated",
+	"report.section.moved": "Moved",
+	"report.section.deleted": "Deleted",
+	"report.section.conflicts": "Conflicts",
+	"report.section.skipped": "Skipped",
+	"report.section.failed": "Failed",
+	"settings.section.syncReport": "Sync report",
+	"settings.syncReport.enable.name": "Write a sync report",
+	"settings.syncReport.enable.desc": "After every sync, record the created, updated, moved, deleted, skipped and failed notes as links in a note in the sync folder, with the run time and any errors. Runs that changed nothing are left out.",
+	"settings.syncReport.path.name": "Report note",
+	"settings.syncReport.path.desc": "Path of the report note, relative to the sync folder.",
+	"settings.syncReport.mode.name": "Report history",
+	"settings.syncReport.mode.desc": "Append every run to the note (the latest 50 runs are kept), or keep only the latest run.",
+	"settings.syncReport.mode.optionAppend": "Append every run",
+	"settings.syncReport.mode.optionOverwrite": "Latest run only",
+	"command.openSyncHistory": "Open Dinox sync history",
+	"history.title": "Dinox sync history",
+	"history.syncNow": "Sync now",
+	"history.progress": "Syncing... {processed} processed, {deleted} deleted, {failed} failed",
+	"history.empty": "No sync runs yet.",
+	"history.counts": "{seconds} s · Processed {processed} · Unchanged {unchanged} · Deleted {deleted} · Failed {failed}",
+	"history.omitted": "...and {count} more notes.",
+	"history.trigger.manual": "Manual",
+	"history.trigger.scheduled": "Scheduled",
+	"history.trigger.startup": "Startup",
+	"history.trigger.focus": "Window focus",
+	"history.trigger.online": "Back online",
+	"command.refreshCurrentNote": "Refresh this note from Dinox",
+	"menu.refreshFromDinox": "Refresh from Dinox",
+	"notice.refreshNoteFailed": "Dinox: Failed to fetch the note - {error}",
+	"notice.refreshNoteNotFound": "Dinox: This note was not found in Dinox.",
+	"notice.scopeBackfill": "Dinox: Pulling notes of newly selected card boxes… ({count})",
+	"scopeCleanup.title": "Notes outside the sync scope",
+	"scopeCleanup.desc": "{count} local notes are no longer in the selected card boxes. Archive them, move them to the trash, or keep them as they are.",
+	"scopeCleanup.archive": "Archive",
+	"scopeCleanup.trash": "Move to trash",
+	"scopeCleanup.keep": "Keep",
+	"command.findDuplicates": "Find notes with duplicate Dinox IDs",
+	"notice.duplicatesFailed": "Dinox: Failed to resolve duplicate notes - {error}",
+	"duplicates.title": "Duplicate Dinox notes",
+	"duplicates.none": "No local files share a noteId.",
+	"duplicates.desc": "{count} noteIds are used by more than one file. Sync only updates one of them, so pick the file to keep in each group.",
+	"duplicates.fileInfo": "{size} KB · modified {modified}",
+	"duplicates.keep": "Keep this",
+	"duplicates.keepTooltip": "Keep this file and move the others to the trash",
+	"duplicates.merge": "Merge into this",
+	"duplicates.mergeTooltip": "Append the bodies of the others to this file, then move them to the trash",
+	"duplicates.detach": "Detach others",
+	"duplicates.detachTooltip": "Keep this file and remove the noteId from the others, so they stay as plain notes",
+	"duplicates.resolved": "Kept {path}",
+	"settings.vaultLookup.name": "Find synced notes anywhere in the vault",
+	"settings.vaultLookup.desc": "Also look for notes moved outside the sync folder, by the noteId in their frontmatter, so a sync updates them instead of creating a duplicate. Uses Obsidian's metadata cache, so files are not read from disk.",
+	"settings.vaultLookup.includeFolders.name": "Search only in",
+	"settings.vaultLookup.includeFolders.desc": "One vault folder per line. Leave empty to search the whole vault.",
+	"settings.vaultLookup.excludeFolders.name": "Skip folders",
+	"settings.vaultLookup.excludeFolders.desc": "One vault folder per line, e.g. templates or archives that hold copies of synced notes.",
+	"settings.vaultLookup.placeholder": "Projects\nAreas/Work",
+	"settings.autoPush.name": "Push edits to Dinox automatically",
+	"settings.autoPush.desc": "When a note with a noteId has not been edited for a while, push it to Dinox. Changes written by a pull are never pushed back.",
+	"settings.autoPushDelay.name": "Push delay (seconds)",
+	"settings.autoPushDelay.desc": "How long a note must stay unchanged before it is pushed ({min}–{max}).",
+	"notice.autoPushFailed": "Dinox: Failed to push \"{title}\" - {error}",
+	"command.pushLocalChanges": "Push all local changes to Dinox",
+	"notice.pushChangesNone": "Dinox: No synced notes were changed locally.",
+	"notice.pushChangesFailed": "Dinox: Failed to look for local changes - {error}",
+	"pushChanges.title": "Push local changes",
+	"pushChanges.desc": "{count} synced notes were edited since they were last pulled or pushed. They will overwrite their Dinox versions.",
+	"pushChanges.confirm": "Push {count} notes",
+	"pushChanges.progress": "{done} of {total} done, {failed} failed.",
+	"pushChanges.pushed": "Pushed",
+	"pushChanges.failed": "Failed: {error}",
+	"pushChanges.finished": "Done",
+	"pushChanges.close": "Close",
+	"notice.refreshNoteSearching": "Dinox: Looking up the note in Dinox...",
 } as const;
 
 export type TranslationKey = keyof typeof en;
@@ -177,7 +403,7 @@ const zhCN = createTranslation({
 	"notice.syncInProgress": "Dinox：同步已在进行中。",
 	"notice.tokenMissing": "Dinox：请先在设置中配置令牌。",
 	"notice.syncStarting": "Dinox：正在开始同步…",
-	"notice.syncComplete": "Dinox：同步完成！\n已处理：{processed}，已删除：{deleted}",
+	"notice.syncComplete": "Dinox：同步完成！\n已处理：{processed}，未变化：{unchanged}，已删除：{deleted}",
 	"notice.syncFailed": "Dinox：同步失败！\n{error}",
 	"notice.syncReset": "Dinox：同步状态已重置。下次将全量获取。",
 	"notice.syncCommandFailed": "Dinox：同步失败 - {error}",
@@ -245,7 +471,7 @@ const zhCN = createTranslation({
 	"settings.template.name": "内容模板（发送至 API）",
 	"settings.template.desc": "同步请求时会将此模板传给 Dinox API。",
 	"settings.autoSync.name": "启用自动同步",
-	"settings.autoSync.desc": "Obsidian 开启期间每 30 分钟同步一次。",
+	"settings.autoSync.desc": "Obsidian 开启期间按计划自动同步。同步失败后会逐步延长等待时间，离线时暂停自动同步。",
 	"settings.section.typeFolders": "按类型分目录",
 	"settings.typeFolders.enable.name": "按 type 分目录",
 	"settings.typeFolders.enable.desc": "根据 Dinox 笔记的 type 字段将同步文件保存到不同的子目录。",
@@ -305,6 +531,232 @@ const zhCN = createTranslation({
 	"settings.advanced.preset.oneWeek": "一周前",
 	"settings.advanced.preset.oneMonth": "一月前",
 	"settings.advanced.preset.start": "起始时间",
+	"command.showConflicts": "查看 Dinox 同步冲突",
+	"notice.syncConflicts": "Dinox：{count} 篇笔记在本地和 Dinox 中都有修改。Dinox 版本已另存为冲突副本，请运行「查看 Dinox 同步冲突」处理。",
+	"notice.conflictResolveFailed": "Dinox：处理冲突失败 - {error}",
+	"conflicts.title": "Dinox 同步冲突",
+	"conflicts.empty": "没有冲突，本地修改与 Dinox 保持一致。",
+	"conflicts.desc": "这些笔记在 Obsidian 中被编辑，同时在 Dinox 中也有变化。本地文件保持不变，Dinox 版本保存在冲突副本中。",
+	"conflicts.entryDesc": "Dinox 版本：{copy} · 发现于 {time}",
+	"conflicts.open": "对比",
+	"conflicts.keepLocal": "保留本地",
+	"conflicts.useRemote": "使用 Dinox 版本",
+	"conflicts.dismiss": "忽略（不做修改）",
+	"notice.syncMerged": "Dinox：已合并 {count} 篇笔记的本地与 Dinox 修改。",
+	"conflicts.markersDesc": "重叠的修改已用冲突标记合并 · 发现于 {time}。请编辑笔记、删除标记后标记为已解决。",
+	"conflicts.openNote": "打开",
+	"conflicts.markResolved": "标记为已解决",
+	"settings.conflictStrategy.name": "两端都有修改时",
+	"settings.conflictStrategy.desc": "当一篇笔记自上次同步后在 Obsidian 中被编辑、同时在 Dinox 中也有变化时的处理方式。",
+	"settings.conflictStrategy.optionMerge": "三方合并（重叠处加冲突标记）",
+	"settings.conflictStrategy.optionCopy": "保留本地，将 Dinox 版本另存为冲突副本",
+	"command.previewSync": "预览 Dinox 同步（不写入）",
+	"notice.previewStarting": "Dinox：正在生成同步预览…",
+	"notice.previewFailed": "Dinox：同步预览失败 - {error}",
+	"common.cancel": "取消",
+	"preview.title": "Dinox 同步预览",
+	"preview.empty": "没有需要执行的操作，仓库已是最新。",
+	"preview.summary": "新建 {create}，更新 {modify}，移动 {rename}，删除 {delete}，冲突 {conflict}。",
+	"preview.selectedHint": "只应用选中项不会推进同步进度，其余内容会在下次同步时再次拉取。",
+	"preview.section.create": "新建",
+	"preview.section.modify": "更新",
+	"preview.section.rename": "移动 / 重命名",
+	"preview.section.delete": "删除",
+	"preview.section.conflict": "冲突副本",
+	"preview.applyAll": "全部应用",
+	"preview.applySelected": "应用选中项",
+	"preview.remoteChanged": "预览之后 Dinox 中的笔记有了变动，同步结果可能与预览不同。仍要同步吗？",
+	"command.undoLastSync": "撤销上次 Dinox 同步",
+	"undo.confirm": "撤销 {time} 的同步？将回退 {count} 项文件操作并恢复同步位置。",
+	"notice.undoNothing": "Dinox：没有可撤销的同步。",
+	"notice.undoTooLarge": "Dinox：上次同步过大未能完整记录，无法撤销。",
+	"notice.undoStarting": "Dinox：正在撤销上次同步...",
+	"notice.undoComplete": "Dinox：撤销完成，已回退 {count} 项文件操作。",
+	"notice.undoPartial": "Dinox：撤销完成但有错误。已回退 {reverted} 项，失败 {failed} 项（详见控制台）。",
+	"notice.undoFailed": "Dinox：撤销失败：{error}",
+	"notice.syncResuming": "Dinox：正在继续上次中断的同步...",
+	"notice.syncNotesQueued": "Dinox：{count} 条笔记同步失败，将在之后的同步中重试。详情见插件设置。",
+	"settings.section.failedNotes": "同步失败的笔记",
+	"settings.failedNotes.name": "重试队列",
+	"settings.failedNotes.empty": "没有等待重试的笔记。",
+	"settings.failedNotes.desc": "{count} 条笔记同步失败。它们会以逐渐增加的间隔自动重试，不会阻塞其余笔记的同步。",
+	"settings.failedNotes.retry": "立即重试",
+	"settings.failedNotes.entry": "{error} — 已尝试：{attempts} 次，下次重试：{time}",
+	"settings.deletionPolicy.name": "Dinox 中删除笔记时",
+	"settings.deletionPolicy.desc": "移到回收站会使指向该笔记的链接失效；归档或标记会保留文件，反向链接不受影响。",
+	"settings.deletionPolicy.optionTrash": "移到回收站",
+	"settings.deletionPolicy.optionArchive": "移到归档文件夹",
+	"settings.deletionPolicy.optionMark": "保留并标记为已删除（dinox_deleted）",
+	"settings.deletionPolicy.optionIgnore": "不做处理",
+	"settings.deletionArchiveFolder.name": "归档文件夹",
+	"settings.deletionArchiveFolder.desc": "同步目录下用于存放已删除笔记的文件夹。",
+	"notice.deletionsHeldBack": "Dinox：{count} 项删除未执行。这些删除已单独保留，下次同步会再次询问。",
+	"deletionGuard.title": "确认删除",
+	"deletionGuard.desc": "本次同步将从原文件夹移除 {count} 篇笔记（共 {total} 篇已同步笔记）。如果这不符合预期（例如同步范围设置有误），请跳过删除并检查设置。",
+	"deletionGuard.confirm": "移除 {count} 篇笔记",
+	"deletionGuard.skip": "跳过删除",
+	"settings.deletionGuard.enable.name": "批量删除前确认",
+	"settings.deletionGuard.enable.desc": "当一次同步要移除的笔记超过下面的限制时，先询问。",
+	"settings.deletionGuard.maxCount.name": "每次同步最多删除数",
+	"settings.deletionGuard.maxCount.desc": "笔记数量。设为 0 表示不限制。",
+	"settings.deletionGuard.maxPercent.name": "每次同步最多删除比例（%）",
+	"settings.deletionGuard.maxPercent.desc": "占同步文件夹中笔记的比例。设为 0 表示不限制。",
+	"command.reconcile": "与 Dinox 全量核对",
+	"notice.reconcileStarting": "Dinox：正在将库与 Dinox 笔记进行核对...",
+	"notice.reconcileFailed": "Dinox：核对失败：{error}",
+	"notice.reconcileMappingsFixed": "Dinox：已修正 {count} 条映射记录。",
+	"reconcile.title": "与 Dinox 核对",
+	"reconcile.summary": "Dinox 中有 {remote} 篇笔记，库中有 {local} 篇已同步笔记。",
+	"reconcile.clean": "全部一致，无需修复。",
+	"reconcile.orphaned.name": "Dinox 中已不存在的本地笔记（{count}）",
+	"reconcile.orphaned.desc": "它们的 noteId 不在 Dinox 笔记中（同步范围内）。修复时按删除策略处理；数量过多时会先确认。",
+	"reconcile.orphaned.choose": "有 {count} 篇本地笔记已不在 Dinox 中，而删除策略设置为不处理。可以归档、移到回收站，或保持不变。",
+	"reconcile.orphaned.fix": "移除本地文件",
+	"reconcile.missing.name": "本地缺失的 Dinox 笔记（{count}）",
+	"reconcile.missing.desc": "这些笔记在 Dinox 中存在，但库中没有对应文件（例如曾被手动删除）。",
+	"reconcile.missing.fix": "下载",
+	"reconcile.stale.name": "过期的映射记录（{count}）",
+	"reconcile.stale.desc": "记录的笔记位置指向不存在的文件或其他笔记。",
+	"reconcile.stale.fix": "修复映射",
+	"reconcile.fixed": "已完成",
+	"reconcile.more": "…以及另外 {count} 项",
+	"command.unpinNoteLocation": "恢复由 Dinox 同步管理此笔记的位置",
+	"notice.noteLocationUnpinned": "Dinox：下次同步会把这篇笔记移回按规则计算的文件夹。",
+	"settings.pinMovedNotes.name": "保留我移动过的笔记位置",
+	"settings.pinMovedNotes.desc": "把已同步的笔记移出同步为它计算的文件夹后，之后的同步会在原处更新，而不是把它移回去。在该文件夹内重命名不算移动。可使用命令「恢复由 Dinox 同步管理此笔记的位置」取消。",
+	"command.relayoutNotes": "对所有已同步笔记重新应用目录结构",
+	"relayout.confirm": "按当前的文件名和文件夹设置移动所有已同步的笔记？你自己移动过的笔记、忽略同步的笔记以及已归档或已删除的笔记保持不动。移动后留下的空文件夹会被删除。可以用「撤销上次 Dinox 同步」恢复。",
+	"notice.relayoutStarting": "Dinox：正在重新应用目录结构...",
+	"notice.relayoutProgress": "Dinox：正在重新应用目录结构（{done}/{total}）...",
+	"notice.relayoutComplete": "Dinox：目录结构已应用。移动 {moved}，未变 {unchanged}，跳过 {skipped}，失败 {failed}。删除了 {removedFolders} 个空文件夹。",
+	"notice.relayoutFailed": "Dinox：重新应用目录结构失败：{error}",
+	"statusBar.nextSync": "{minutes} 分钟后自动同步",
+	"statusBar.nextSyncBackoff": "{minutes} 分钟后自动同步（已连续失败 {failures} 次，延长了等待时间）",
+	"statusBar.autoSyncOffline": "离线中，自动同步已暂停",
+	"settings.autoSyncInterval.name": "自动同步间隔（分钟）",
+	"settings.autoSyncInterval.desc": "两次自动同步之间的分钟数，范围 {min} 到 {max}。",
+	"settings.autoSyncOnStartup.name": "启动时同步",
+	"settings.autoSyncOnStartup.desc": "Obsidian 加载完成后同步一次。",
+	"settings.autoSyncOnFocus.name": "Obsidian 重新获得焦点时同步",
+	"settings.autoSyncOnFocus.desc": "切换回 Obsidian 时同步，最多每 5 分钟一次。",
+	"profile.mainName": "主账号",
+	"profile.unnamed": "账号 {index}",
+	"profile.choose": "选择要同步的账号",
+	"command.syncProfile": "同步单个 Dinox 账号",
+	"statusBar.profileResult": "{name}：更新 {processed}，删除 {deleted}（{time}）",
+	"statusBar.profileFailed": "{name}：失败 – {error}（{time}）",
+	"statusBar.profilesFailed": "Dinox（{count} 个失败）",
+	"settings.section.profiles": "其他账号",
+	"settings.profiles.desc": "把更多 Dinox 账号同步到各自的文件夹。每个账号有独立的 Token、文件夹、模板和同步范围，其他设置共用。「立即同步 Dinox 笔记」会依次同步所有账号。不同账号的文件夹请不要互相嵌套。",
+	"settings.profiles.add": "添加账号",
+	"settings.profiles.name": "账号名称",
+	"settings.profiles.template.desc": "用于所有类型的笔记，代替按类型设置的模板。留空则使用主模板和按类型设置的模板。",
+	"settings.profiles.syncNow": "立即同步",
+	"settings.profiles.remove": "删除",
+	"settings.profiles.removeConfirm": "删除账号「{name}」？已同步的文件会保留在库中。",
+	"settings.section.routingRules": "路由规则",
+	"settings.routingRules.desc": "把符合条件的笔记放进单独的文件夹，并使用单独的模板和文件名。规则从上到下依次检查，第一条匹配的已启用规则生效；留空的项沿用常规设置。规则中的文件夹位于同步目录内，会替代按类型和按卡片盒分组的文件夹。",
+	"settings.routingRules.add": "添加规则",
+	"settings.routingRules.rule": "规则 {index}",
+	"settings.routingRules.moveUp": "上移",
+	"settings.routingRules.moveDown": "下移",
+	"settings.routingRules.remove": "删除规则",
+	"settings.routingRules.match.name": "匹配条件",
+	"settings.routingRules.match.desc": "标签、类型和卡片盒路径也会匹配其下的子标签和子卡片盒；标题和正文使用不区分大小写的正则表达式。",
+	"settings.routingRules.field.tag": "标签",
+	"settings.routingRules.field.type": "类型",
+	"settings.routingRules.field.zettelBox": "卡片盒",
+	"settings.routingRules.field.title": "标题（正则）",
+	"settings.routingRules.field.content": "正文（正则）",
+	"settings.routingRules.pattern.placeholder": "例如 meeting",
+	"settings.routingRules.folder.name": "文件夹",
+	"settings.routingRules.folder.desc": "相对于同步目录。留空则沿用常规文件夹。",
+	"settings.routingRules.folder.placeholder": "例如 Work/Meetings",
+	"settings.routingRules.filename.name": "文件名模板",
+	"settings.routingRules.filename.desc": "占位符与文件名模板相同。留空则使用常规的文件名格式。",
+	"settings.typeTemplates.note.name": "笔记模板",
+	"settings.typeTemplates.material.name": "素材模板（网页剪藏）",
+	"settings.typeTemplates.audio.name": "录音笔记模板",
+	"settings.typeTemplates.desc": "留空则使用上方的内容模板。",
+	"report.title": "Dinox 同步报告",
+	"report.duration": "耗时：{seconds} 秒",
+	"report.summary": "新建 {created} · 更新 {updated} · 移动 {moved} · 未变化 {unchanged} · 删除 {deleted} · 跳过 {skipped} · 冲突 {conflicts} · 失败 {failed}",
+	"report.error": "错误：{error}",
+	"report.section.created": "新建",
+	"report.section.updated": "更新",
+	"report.section.moved": "移动",
+	"report.section.deleted": "删除",
+	"report.section.conflicts": "冲突",
+	"report.section.skipped": "跳过",
+	"report.section.failed": "失败",
+	"settings.section.syncReport": "同步报告",
+	"settings.syncReport.enable.name": "写入同步报告",
+	"settings.syncReport.enable.desc": "每次同步后，把新建、更新、移动、删除、跳过和失败的笔记以链接形式记录到同步目录中的一篇笔记里，并附上耗时和错误信息。没有变化的同步不会记录。",
+	"settings.syncReport.path.name": "报告笔记",
+	"settings.syncReport.path.desc": "报告笔记的路径，相对于同步目录。",
+	"settings.syncReport.mode.name": "报告记录方式",
+	"settings.syncReport.mode.desc": "将每次同步追加到笔记中（保留最近 50 次），或只保留最近一次。",
+	"settings.syncReport.mode.optionAppend": "追加每次同步",
+	"settings.syncReport.mode.optionOverwrite": "只保留最近一次",
+	"command.openSyncHistory": "打开 Dinox 同步历史",
+	"history.title": "Dinox 同步历史",
+	"history.syncNow": "立即同步",
+	"history.progress": "正在同步…已处理 {processed}，已删除 {deleted}，失败 {failed}",
+	"history.empty": "还没有同步记录。",
+	"history.counts": "{seconds} 秒 · 已处理 {processed} · 未变化 {unchanged} · 已删除 {deleted} · 失败 {failed}",
+	"history.omitted": "……还有 {count} 篇笔记未列出。",
+	"history.trigger.manual": "手动",
+	"history.trigger.scheduled": "定时",
+	"history.trigger.startup": "启动时",
+	"history.trigger.focus": "窗口获得焦点",
+	"history.trigger.online": "恢复联网",
+	"command.refreshCurrentNote": "从 Dinox 刷新当前笔记",
+	"menu.refreshFromDinox": "从 Dinox 刷新",
+	"notice.refreshNoteFailed": "Dinox：获取笔记失败 - {error}",
+	"notice.refreshNoteNotFound": "Dinox：在 Dinox 中找不到这篇笔记。",
+	"notice.scopeBackfill": "Dinox：正在拉取新选中卡片盒的笔记…（{count}）",
+	"scopeCleanup.title": "同步范围之外的笔记",
+	"scopeCleanup.desc": "有 {count} 篇本地笔记已不在选中的卡片盒中。可以归档、移到回收站，或保持不变。",
+	"scopeCleanup.archive": "归档",
+	"scopeCleanup.trash": "移到回收站",
+	"scopeCleanup.keep": "保留",
+	"command.findDuplicates": "查找 noteId 重复的笔记",
+	"notice.duplicatesFailed": "Dinox：处理重复笔记失败 - {error}",
+	"duplicates.title": "重复的 Dinox 笔记",
+	"duplicates.none": "没有共用同一个 noteId 的本地文件。",
+	"duplicates.desc": "有 {count} 个 noteId 被多个文件使用。同步只会更新其中一个文件，请在每组中选出要保留的文件。",
+	"duplicates.fileInfo": "{size} KB · 修改于 {modified}",
+	"duplicates.keep": "保留此文件",
+	"duplicates.keepTooltip": "保留此文件，将其他文件移到回收站",
+	"duplicates.merge": "合并到此文件",
+	"duplicates.mergeTooltip": "将其他文件的正文追加到此文件，再把它们移到回收站",
+	"duplicates.detach": "解除其他文件",
+	"duplicates.detachTooltip": "保留此文件，并删除其他文件的 noteId，使它们成为普通笔记",
+	"duplicates.resolved": "已保留 {path}",
+	"settings.vaultLookup.name": "在整个仓库中查找已同步的笔记",
+	"settings.vaultLookup.desc": "同时按 frontmatter 中的 noteId 查找被移出同步目录的笔记，同步时更新它们而不是创建重复的笔记。使用 Obsidian 的元数据缓存，不会从磁盘读取文件。",
+	"settings.vaultLookup.includeFolders.name": "仅在以下文件夹中查找",
+	"settings.vaultLookup.includeFolders.desc": "每行一个仓库中的文件夹。留空则查找整个仓库。",
+	"settings.vaultLookup.excludeFolders.name": "跳过的文件夹",
+	"settings.vaultLookup.excludeFolders.desc": "每行一个仓库中的文件夹，例如存放已同步笔记副本的模板或归档文件夹。",
+	"settings.vaultLookup.placeholder": "Projects\nAreas/Work",
+	"settings.autoPush.name": "自动推送修改到 Dinox",
+	"settings.autoPush.desc": "带有 noteId 的笔记停止编辑一段时间后，自动推送到 Dinox。拉取时写入的内容不会被推送回去。",
+	"settings.autoPushDelay.name": "推送延迟（秒）",
+	"settings.autoPushDelay.desc": "笔记需保持未修改多久后才推送（{min}–{max}）。",
+	"notice.autoPushFailed": "Dinox：推送「{title}」失败 - {error}",
+	"command.pushLocalChanges": "推送所有本地修改到 Dinox",
+	"notice.pushChangesNone": "Dinox：没有在本地修改过的已同步笔记。",
+	"notice.pushChangesFailed": "Dinox：查找本地修改失败 - {error}",
+	"pushChanges.title": "推送本地修改",
+	"pushChanges.desc": "有 {count} 篇已同步的笔记在上次拉取或推送后被修改过，推送后会覆盖 Dinox 中的版本。",
+	"pushChanges.confirm": "推送 {count} 篇笔记",
+	"pushChanges.progress": "已推送 {done} / {total}，失败 {failed} 篇。",
+	"pushChanges.pushed": "已推送",
+	"pushChanges.failed": "失败：{error}",
+	"pushChanges.finished": "完成",
+	"pushChanges.close": "关闭",
+	"notice.refreshNoteSearching": "Dinox：正在 Dinox 中查找这篇笔记...",
 });
 
 const zhTW = createTranslation({
@@ -323,7 +775,7 @@ const zhTW = createTranslation({
 	"notice.syncInProgress": "Dinox：同步已在進行中。",
 	"notice.tokenMissing": "Dinox：請先在設定中配置權杖。",
 	"notice.syncStarting": "Dinox：正在開始同步…",
-	"notice.syncComplete": "Dinox：同步完成！\n已處理：{processed}，已刪除：{deleted}",
+	"notice.syncComplete": "Dinox：同步完成！\n已處理：{processed}，未變更：{unchanged}，已刪除：{deleted}",
 	"notice.syncFailed": "Dinox：同步失敗！\n{error}",
 	"notice.syncReset": "Dinox：同步狀態已重設。下次將全量擷取。",
 	"notice.syncCommandFailed": "Dinox：同步失敗 - {error}",
@@ -391,7 +843,7 @@ const zhTW = createTranslation({
 	"settings.template.name": "內容模板（送往 API）",
 	"settings.template.desc": "同步請求時會將此模板傳給 Dinox API。",
 	"settings.autoSync.name": "啟用自動同步",
-	"settings.autoSync.desc": "Obsidian 開啟期間每 30 分鐘同步一次。",
+	"settings.autoSync.desc": "Obsidian 開啟期間按排程自動同步。同步失敗後會逐步延長等待時間，離線時暫停自動同步。",
 	"settings.section.typeFolders": "按類型分資料夾",
 	"settings.typeFolders.enable.name": "按 type 分資料夾",
 	"settings.typeFolders.enable.desc": "根據 Dinox 筆記的 type 欄位將同步檔案保存到不同的子目錄。",
@@ -451,6 +903,232 @@ const zhTW = createTranslation({
 	"settings.advanced.preset.oneWeek": "一週前",
 	"settings.advanced.preset.oneMonth": "一個月前",
 	"settings.advanced.preset.start": "起始時間",
+	"command.showConflicts": "查看 Dinox 同步衝突",
+	"notice.syncConflicts": "Dinox：{count} 篇筆記在本機和 Dinox 中都有修改。Dinox 版本已另存為衝突副本，請執行「查看 Dinox 同步衝突」處理。",
+	"notice.conflictResolveFailed": "Dinox：處理衝突失敗 - {error}",
+	"conflicts.title": "Dinox 同步衝突",
+	"conflicts.empty": "沒有衝突，本機修改與 Dinox 保持一致。",
+	"conflicts.desc": "這些筆記在 Obsidian 中被編輯，同時在 Dinox 中也有變化。本機檔案保持不變，Dinox 版本儲存在衝突副本中。",
+	"conflicts.entryDesc": "Dinox 版本：{copy} · 發現於 {time}",
+	"conflicts.open": "比較",
+	"conflicts.keepLocal": "保留本機",
+	"conflicts.useRemote": "使用 Dinox 版本",
+	"conflicts.dismiss": "忽略（不做修改）",
+	"notice.syncMerged": "Dinox：已合併 {count} 篇筆記的本機與 Dinox 修改。",
+	"conflicts.markersDesc": "重疊的修改已用衝突標記合併 · 發現於 {time}。請編輯筆記、刪除標記後標記為已解決。",
+	"conflicts.openNote": "開啟",
+	"conflicts.markResolved": "標記為已解決",
+	"settings.conflictStrategy.name": "兩端都有修改時",
+	"settings.conflictStrategy.desc": "當一篇筆記自上次同步後在 Obsidian 中被編輯、同時在 Dinox 中也有變化時的處理方式。",
+	"settings.conflictStrategy.optionMerge": "三方合併（重疊處加衝突標記）",
+	"settings.conflictStrategy.optionCopy": "保留本機，將 Dinox 版本另存為衝突副本",
+	"command.previewSync": "預覽 Dinox 同步（不寫入）",
+	"notice.previewStarting": "Dinox：正在產生同步預覽…",
+	"notice.previewFailed": "Dinox：同步預覽失敗 - {error}",
+	"common.cancel": "取消",
+	"preview.title": "Dinox 同步預覽",
+	"preview.empty": "沒有需要執行的操作，儲存庫已是最新。",
+	"preview.summary": "新建 {create}，更新 {modify}，移動 {rename}，刪除 {delete}，衝突 {conflict}。",
+	"preview.selectedHint": "只套用選取項不會推進同步進度，其餘內容會在下次同步時再次擷取。",
+	"preview.section.create": "新建",
+	"preview.section.modify": "更新",
+	"preview.section.rename": "移動 / 重新命名",
+	"preview.section.delete": "刪除",
+	"preview.section.conflict": "衝突副本",
+	"preview.applyAll": "全部套用",
+	"preview.applySelected": "套用選取項",
+	"preview.remoteChanged": "預覽之後 Dinox 中的筆記有了變動，同步結果可能與預覽不同。仍要同步嗎？",
+	"command.undoLastSync": "撤銷上次 Dinox 同步",
+	"undo.confirm": "撤銷 {time} 的同步？將回退 {count} 項檔案操作並還原同步位置。",
+	"notice.undoNothing": "Dinox：沒有可撤銷的同步。",
+	"notice.undoTooLarge": "Dinox：上次同步過大未能完整記錄，無法撤銷。",
+	"notice.undoStarting": "Dinox：正在撤銷上次同步...",
+	"notice.undoComplete": "Dinox：撤銷完成，已回退 {count} 項檔案操作。",
+	"notice.undoPartial": "Dinox：撤銷完成但有錯誤。已回退 {reverted} 項，失敗 {failed} 項（詳見主控台）。",
+	"notice.undoFailed": "Dinox：撤銷失敗：{error}",
+	"notice.syncResuming": "Dinox：正在繼續上次中斷的同步...",
+	"notice.syncNotesQueued": "Dinox：{count} 則筆記同步失敗，將在之後的同步中重試。詳情見外掛設定。",
+	"settings.section.failedNotes": "同步失敗的筆記",
+	"settings.failedNotes.name": "重試佇列",
+	"settings.failedNotes.empty": "沒有等待重試的筆記。",
+	"settings.failedNotes.desc": "{count} 則筆記同步失敗。它們會以逐漸增加的間隔自動重試，不會阻擋其餘筆記的同步。",
+	"settings.failedNotes.retry": "立即重試",
+	"settings.failedNotes.entry": "{error} — 已嘗試：{attempts} 次，下次重試：{time}",
+	"settings.deletionPolicy.name": "Dinox 中刪除筆記時",
+	"settings.deletionPolicy.desc": "移到垃圾桶會使指向該筆記的連結失效；封存或標記會保留檔案，反向連結不受影響。",
+	"settings.deletionPolicy.optionTrash": "移到垃圾桶",
+	"settings.deletionPolicy.optionArchive": "移到封存資料夾",
+	"settings.deletionPolicy.optionMark": "保留並標記為已刪除（dinox_deleted）",
+	"settings.deletionPolicy.optionIgnore": "不做處理",
+	"settings.deletionArchiveFolder.name": "封存資料夾",
+	"settings.deletionArchiveFolder.desc": "同步目錄下用於存放已刪除筆記的資料夾。",
+	"notice.deletionsHeldBack": "Dinox：{count} 項刪除未執行。這些刪除已另外保留，下次同步會再次詢問。",
+	"deletionGuard.title": "確認刪除",
+	"deletionGuard.desc": "本次同步將從原資料夾移除 {count} 則筆記（共 {total} 則已同步筆記）。如果這不符合預期（例如同步範圍設定有誤），請略過刪除並檢查設定。",
+	"deletionGuard.confirm": "移除 {count} 則筆記",
+	"deletionGuard.skip": "略過刪除",
+	"settings.deletionGuard.enable.name": "大量刪除前確認",
+	"settings.deletionGuard.enable.desc": "當一次同步要移除的筆記超過下方的限制時，先詢問。",
+	"settings.deletionGuard.maxCount.name": "每次同步最多刪除數",
+	"settings.deletionGuard.maxCount.desc": "筆記數量。設為 0 表示不限制。",
+	"settings.deletionGuard.maxPercent.name": "每次同步最多刪除比例（%）",
+	"settings.deletionGuard.maxPercent.desc": "佔同步資料夾中筆記的比例。設為 0 表示不限制。",
+	"command.reconcile": "與 Dinox 全量核對",
+	"notice.reconcileStarting": "Dinox：正在將庫與 Dinox 筆記進行核對...",
+	"notice.reconcileFailed": "Dinox：核對失敗：{error}",
+	"notice.reconcileMappingsFixed": "Dinox：已修正 {count} 筆對應記錄。",
+	"reconcile.title": "與 Dinox 核對",
+	"reconcile.summary": "Dinox 中有 {remote} 則筆記，庫中有 {local} 則已同步筆記。",
+	"reconcile.clean": "全部一致，無需修復。",
+	"reconcile.orphaned.name": "Dinox 中已不存在的本機筆記（{count}）",
+	"reconcile.orphaned.desc": "它們的 noteId 不在 Dinox 筆記中（同步範圍內）。修復時依刪除策略處理；數量過多時會先確認。",
+	"reconcile.orphaned.choose": "有 {count} 篇本地筆記已不在 Dinox 中，而刪除策略設定為不處理。可以封存、移到垃圾桶，或保持不變。",
+	"reconcile.orphaned.fix": "移除本機檔案",
+	"reconcile.missing.name": "本機缺少的 Dinox 筆記（{count}）",
+	"reconcile.missing.desc": "這些筆記在 Dinox 中存在，但庫中沒有對應檔案（例如曾被手動刪除）。",
+	"reconcile.missing.fix": "下載",
+	"reconcile.stale.name": "過期的對應記錄（{count}）",
+	"reconcile.stale.desc": "記錄的筆記位置指向不存在的檔案或其他筆記。",
+	"reconcile.stale.fix": "修復對應",
+	"reconcile.fixed": "已完成",
+	"reconcile.more": "…以及另外 {count} 項",
+	"command.unpinNoteLocation": "恢復由 Dinox 同步管理此筆記的位置",
+	"notice.noteLocationUnpinned": "Dinox：下次同步會把這則筆記移回依規則計算的資料夾。",
+	"settings.pinMovedNotes.name": "保留我移動過的筆記位置",
+	"settings.pinMovedNotes.desc": "把已同步的筆記移出同步為它計算的資料夾後，之後的同步會在原處更新，而不是把它移回去。在該資料夾內重新命名不算移動。可使用命令「恢復由 Dinox 同步管理此筆記的位置」取消。",
+	"command.relayoutNotes": "對所有已同步筆記重新套用目錄結構",
+	"relayout.confirm": "依目前的檔名和資料夾設定移動所有已同步的筆記？你自己移動過的筆記、忽略同步的筆記以及已封存或已刪除的筆記保持不動。移動後留下的空資料夾會被刪除。可以用「撤銷上次 Dinox 同步」還原。",
+	"notice.relayoutStarting": "Dinox：正在重新套用目錄結構...",
+	"notice.relayoutProgress": "Dinox：正在重新套用目錄結構（{done}/{total}）...",
+	"notice.relayoutComplete": "Dinox：目錄結構已套用。移動 {moved}，未變 {unchanged}，略過 {skipped}，失敗 {failed}。刪除了 {removedFolders} 個空資料夾。",
+	"notice.relayoutFailed": "Dinox：重新套用目錄結構失敗：{error}",
+	"statusBar.nextSync": "{minutes} 分鐘後自動同步",
+	"statusBar.nextSyncBackoff": "{minutes} 分鐘後自動同步（已連續失敗 {failures} 次，延長了等待時間）",
+	"statusBar.autoSyncOffline": "離線中，自動同步已暫停",
+	"settings.autoSyncInterval.name": "自動同步間隔（分鐘）",
+	"settings.autoSyncInterval.desc": "兩次自動同步之間的分鐘數，範圍 {min} 到 {max}。",
+	"settings.autoSyncOnStartup.name": "啟動時同步",
+	"settings.autoSyncOnStartup.desc": "Obsidian 載入完成後同步一次。",
+	"settings.autoSyncOnFocus.name": "Obsidian 重新取得焦點時同步",
+	"settings.autoSyncOnFocus.desc": "切換回 Obsidian 時同步，最多每 5 分鐘一次。",
+	"profile.mainName": "主帳號",
+	"profile.unnamed": "帳號 {index}",
+	"profile.choose": "選擇要同步的帳號",
+	"command.syncProfile": "同步單個 Dinox 帳號",
+	"statusBar.profileResult": "{name}：更新 {processed}，刪除 {deleted}（{time}）",
+	"statusBar.profileFailed": "{name}：失敗 – {error}（{time}）",
+	"statusBar.profilesFailed": "Dinox（{count} 個失敗）",
+	"settings.section.profiles": "其他帳號",
+	"settings.profiles.desc": "把更多 Dinox 帳號同步到各自的資料夾。每個帳號有獨立的 Token、資料夾、範本和同步範圍，其他設定共用。「立即同步 Dinox 筆記」會依序同步所有帳號。不同帳號的資料夾請不要互相巢狀。",
+	"settings.profiles.add": "新增帳號",
+	"settings.profiles.name": "帳號名稱",
+	"settings.profiles.template.desc": "用於所有類型的筆記，取代依類型設定的範本。留空則使用主範本和依類型設定的範本。",
+	"settings.profiles.syncNow": "立即同步",
+	"settings.profiles.remove": "刪除",
+	"settings.profiles.removeConfirm": "刪除帳號「{name}」？已同步的檔案會保留在庫中。",
+	"settings.section.routingRules": "路由規則",
+	"settings.routingRules.desc": "把符合條件的筆記放進單獨的資料夾，並使用單獨的模板和檔名。規則由上到下依序檢查，第一條符合的已啟用規則生效；留空的項目沿用一般設定。規則中的資料夾位於同步目錄內，會取代按類型和按卡片盒分組的資料夾。",
+	"settings.routingRules.add": "新增規則",
+	"settings.routingRules.rule": "規則 {index}",
+	"settings.routingRules.moveUp": "上移",
+	"settings.routingRules.moveDown": "下移",
+	"settings.routingRules.remove": "刪除規則",
+	"settings.routingRules.match.name": "符合條件",
+	"settings.routingRules.match.desc": "標籤、類型和卡片盒路徑也會符合其下的子標籤和子卡片盒；標題和內文使用不區分大小寫的正規表示式。",
+	"settings.routingRules.field.tag": "標籤",
+	"settings.routingRules.field.type": "類型",
+	"settings.routingRules.field.zettelBox": "卡片盒",
+	"settings.routingRules.field.title": "標題（正規表示式）",
+	"settings.routingRules.field.content": "內文（正規表示式）",
+	"settings.routingRules.pattern.placeholder": "例如 meeting",
+	"settings.routingRules.folder.name": "資料夾",
+	"settings.routingRules.folder.desc": "相對於同步目錄。留空則沿用一般資料夾。",
+	"settings.routingRules.folder.placeholder": "例如 Work/Meetings",
+	"settings.routingRules.filename.name": "檔名模板",
+	"settings.routingRules.filename.desc": "佔位符與檔名模板相同。留空則使用一般的檔名格式。",
+	"settings.typeTemplates.note.name": "筆記模板",
+	"settings.typeTemplates.material.name": "素材模板（網頁剪藏）",
+	"settings.typeTemplates.audio.name": "錄音筆記模板",
+	"settings.typeTemplates.desc": "留空則使用上方的內容模板。",
+	"report.title": "Dinox 同步報告",
+	"report.duration": "耗時：{seconds} 秒",
+	"report.summary": "新建 {created} · 更新 {updated} · 移動 {moved} · 未變更 {unchanged} · 刪除 {deleted} · 略過 {skipped} · 衝突 {conflicts} · 失敗 {failed}",
+	"report.error": "錯誤：{error}",
+	"report.section.created": "新建",
+	"report.section.updated": "更新",
+	"report.section.moved": "移動",
+	"report.section.deleted": "刪除",
+	"report.section.conflicts": "衝突",
+	"report.section.skipped": "略過",
+	"report.section.failed": "失敗",
+	"settings.section.syncReport": "同步報告",
+	"settings.syncReport.enable.name": "寫入同步報告",
+	"settings.syncReport.enable.desc": "每次同步後，把新建、更新、移動、刪除、略過和失敗的筆記以連結形式記錄到同步目錄中的一篇筆記裡，並附上耗時和錯誤訊息。沒有變化的同步不會記錄。",
+	"settings.syncReport.path.name": "報告筆記",
+	"settings.syncReport.path.desc": "報告筆記的路徑，相對於同步目錄。",
+	"settings.syncReport.mode.name": "報告記錄方式",
+	"settings.syncReport.mode.desc": "將每次同步附加到筆記中（保留最近 50 次），或只保留最近一次。",
+	"settings.syncReport.mode.optionAppend": "附加每次同步",
+	"settings.syncReport.mode.optionOverwrite": "只保留最近一次",
+	"command.openSyncHistory": "開啟 Dinox 同步歷史",
+	"history.title": "Dinox 同步歷史",
+	"history.syncNow": "立即同步",
+	"history.progress": "正在同步…已處理 {processed}，已刪除 {deleted}，失敗 {failed}",
+	"history.empty": "還沒有同步紀錄。",
+	"history.counts": "{seconds} 秒 · 已處理 {processed} · 未變更 {unchanged} · 已刪除 {deleted} · 失敗 {failed}",
+	"history.omitted": "……還有 {count} 篇筆記未列出。",
+	"history.trigger.manual": "手動",
+	"history.trigger.scheduled": "定時",
+	"history.trigger.startup": "啟動時",
+	"history.trigger.focus": "視窗取得焦點",
+	"history.trigger.online": "恢復連線",
+	"command.refreshCurrentNote": "從 Dinox 重新整理目前筆記",
+	"menu.refreshFromDinox": "從 Dinox 重新整理",
+	"notice.refreshNoteFailed": "Dinox：取得筆記失敗 - {error}",
+	"notice.refreshNoteNotFound": "Dinox：在 Dinox 中找不到這篇筆記。",
+	"notice.scopeBackfill": "Dinox：正在拉取新選取卡片盒的筆記…（{count}）",
+	"scopeCleanup.title": "同步範圍之外的筆記",
+	"scopeCleanup.desc": "有 {count} 篇本地筆記已不在選取的卡片盒中。可以封存、移到垃圾桶，或保持不變。",
+	"scopeCleanup.archive": "封存",
+	"scopeCleanup.trash": "移到垃圾桶",
+	"scopeCleanup.keep": "保留",
+	"command.findDuplicates": "尋找 noteId 重複的筆記",
+	"notice.duplicatesFailed": "Dinox：處理重複筆記失敗 - {error}",
+	"duplicates.title": "重複的 Dinox 筆記",
+	"duplicates.none": "沒有共用同一個 noteId 的本機檔案。",
+	"duplicates.desc": "有 {count} 個 noteId 被多個檔案使用。同步只會更新其中一個檔案，請在每組中選出要保留的檔案。",
+	"duplicates.fileInfo": "{size} KB · 修改於 {modified}",
+	"duplicates.keep": "保留此檔案",
+	"duplicates.keepTooltip": "保留此檔案，將其他檔案移到垃圾桶",
+	"duplicates.merge": "合併到此檔案",
+	"duplicates.mergeTooltip": "將其他檔案的內文附加到此檔案，再把它們移到垃圾桶",
+	"duplicates.detach": "解除其他檔案",
+	"duplicates.detachTooltip": "保留此檔案，並刪除其他檔案的 noteId，使它們成為一般筆記",
+	"duplicates.resolved": "已保留 {path}",
+	"settings.vaultLookup.name": "在整個儲存庫中尋找已同步的筆記",
+	"settings.vaultLookup.desc": "同時依 frontmatter 中的 noteId 尋找被移出同步目錄的筆記，同步時更新它們而不是建立重複的筆記。使用 Obsidian 的中繼資料快取，不會從磁碟讀取檔案。",
+	"settings.vaultLookup.includeFolders.name": "僅在以下資料夾中尋找",
+	"settings.vaultLookup.includeFolders.desc": "每行一個儲存庫中的資料夾。留空則尋找整個儲存庫。",
+	"settings.vaultLookup.excludeFolders.name": "略過的資料夾",
+	"settings.vaultLookup.excludeFolders.desc": "每行一個儲存庫中的資料夾，例如存放已同步筆記副本的範本或封存資料夾。",
+	"settings.vaultLookup.placeholder": "Projects\nAreas/Work",
+	"settings.autoPush.name": "自動推送修改到 Dinox",
+	"settings.autoPush.desc": "帶有 noteId 的筆記停止編輯一段時間後，自動推送到 Dinox。拉取時寫入的內容不會被推送回去。",
+	"settings.autoPushDelay.name": "推送延遲（秒）",
+	"settings.autoPushDelay.desc": "筆記需保持未修改多久後才推送（{min}–{max}）。",
+	"notice.autoPushFailed": "Dinox：推送「{title}」失敗 - {error}",
+	"command.pushLocalChanges": "推送所有本機修改到 Dinox",
+	"notice.pushChangesNone": "Dinox：沒有在本機修改過的已同步筆記。",
+	"notice.pushChangesFailed": "Dinox：尋找本機修改失敗 - {error}",
+	"pushChanges.title": "推送本機修改",
+	"pushChanges.desc": "有 {count} 篇已同步的筆記在上次拉取或推送後被修改過，推送後會覆寫 Dinox 中的版本。",
+	"pushChanges.confirm": "推送 {count} 篇筆記",
+	"pushChanges.progress": "已推送 {done} / {total}，失敗 {failed} 篇。",
+	"pushChanges.pushed": "已推送",
+	"pushChanges.failed": "失敗：{error}",
+	"pushChanges.finished": "完成",
+	"pushChanges.close": "關閉",
+	"notice.refreshNoteSearching": "Dinox：正在 Dinox 中尋找這則筆記...",
 });
 
 const ja = createTranslation({
@@ -469,7 +1147,7 @@ const ja = createTranslation({
 	"notice.syncInProgress": "Dinox：同期はすでに進行中です。",
 	"notice.tokenMissing": "Dinox：設定で Dinox トークンを設定してください。",
 	"notice.syncStarting": "Dinox：同期を開始しています…",
-	"notice.syncComplete": "Dinox：同期が完了しました！\n処理済み：{processed}、削除：{deleted}",
+	"notice.syncComplete": "Dinox：同期が完了しました！\n処理済み：{processed}、変更なし：{unchanged}、削除：{deleted}",
 	"notice.syncFailed": "Dinox：同期に失敗しました！\n{error}",
 	"notice.syncReset": "Dinox：同期状態をリセットしました。次回は全件取得します。",
 	"notice.syncCommandFailed": "Dinox：同期に失敗しました - {error}",
@@ -537,7 +1215,7 @@ const ja = createTranslation({
 	"settings.template.name": "内容テンプレート（API 送信）",
 	"settings.template.desc": "同期要求時に Dinox API に送信するテンプレートです。",
 	"settings.autoSync.name": "自動同期を有効にする",
-	"settings.autoSync.desc": "Obsidian が開いている間、30 分ごとに同期します。",
+	"settings.autoSync.desc": "Obsidian が開いている間、スケジュールに従って同期します。失敗が続くと間隔が延び、オフラインの間は自動同期を一時停止します。",
 	"settings.section.typeFolders": "タイプ別フォルダ",
 	"settings.typeFolders.enable.name": "type で振り分け",
 	"settings.typeFolders.enable.desc": "Dinox ノートの type フィールドに基づいて、同期ファイルを別のサブフォルダに保存します。",
@@ -597,6 +1275,232 @@ const ja = createTranslation({
 	"settings.advanced.preset.oneWeek": "1週間前",
 	"settings.advanced.preset.oneMonth": "1か月前",
 	"settings.advanced.preset.start": "最初から",
+	"command.showConflicts": "Dinox 同期の競合を表示",
+	"notice.syncConflicts": "Dinox：{count} 件のノートがローカルと Dinox の両方で変更されました。Dinox 版は競合コピーとして保存されました。「Dinox 同期の競合を表示」で解決してください。",
+	"notice.conflictResolveFailed": "Dinox：競合の解決に失敗しました - {error}",
+	"conflicts.title": "Dinox 同期の競合",
+	"conflicts.empty": "競合はありません。ローカルと Dinox は一致しています。",
+	"conflicts.desc": "これらのノートは Obsidian で編集され、Dinox でも変更されました。ローカルファイルはそのままで、Dinox 版は競合コピーにあります。",
+	"conflicts.entryDesc": "Dinox 版：{copy} · 検出 {time}",
+	"conflicts.open": "比較",
+	"conflicts.keepLocal": "ローカルを保持",
+	"conflicts.useRemote": "Dinox 版を使用",
+	"conflicts.dismiss": "変更せずに閉じる",
+	"notice.syncMerged": "Dinox：{count} 件のノートでローカルと Dinox の変更をマージしました。",
+	"conflicts.markersDesc": "重なる変更は競合マーカー付きでマージされました · 検出 {time}。ノートを編集してマーカーを削除し、解決済みにしてください。",
+	"conflicts.openNote": "開く",
+	"conflicts.markResolved": "解決済みにする",
+	"settings.conflictStrategy.name": "両方が変更された場合",
+	"settings.conflictStrategy.desc": "前回の同期以降に Obsidian で編集され、Dinox でも変更されたノートの扱い方。",
+	"settings.conflictStrategy.optionMerge": "3 方向マージ（重なりは競合マーカー）",
+	"settings.conflictStrategy.optionCopy": "ローカルを保持し、Dinox 版を競合コピーとして保存",
+	"command.previewSync": "Dinox 同期をプレビュー（書き込みなし）",
+	"notice.previewStarting": "Dinox：同期プレビューを作成中…",
+	"notice.previewFailed": "Dinox：同期プレビューに失敗しました - {error}",
+	"common.cancel": "キャンセル",
+	"preview.title": "Dinox 同期プレビュー",
+	"preview.empty": "実行する操作はありません。保管庫は最新です。",
+	"preview.summary": "作成 {create}、更新 {modify}、移動 {rename}、削除 {delete}、競合 {conflict}。",
+	"preview.selectedHint": "選択した項目だけを適用しても同期カーソルは進みません。残りは次回再取得されます。",
+	"preview.section.create": "作成",
+	"preview.section.modify": "更新",
+	"preview.section.rename": "移動 / 名前変更",
+	"preview.section.delete": "削除",
+	"preview.section.conflict": "競合コピー",
+	"preview.applyAll": "すべて適用",
+	"preview.applySelected": "選択項目を適用",
+	"preview.remoteChanged": "プレビューの後に Dinox のノートが変更されたため、同期の結果がプレビューと異なる可能性があります。同期しますか？",
+	"command.undoLastSync": "前回の Dinox 同期を元に戻す",
+	"undo.confirm": "{time} の同期を元に戻しますか？{count} 件のファイル操作を取り消し、同期位置を復元します。",
+	"notice.undoNothing": "Dinox: 元に戻せる同期がありません。",
+	"notice.undoTooLarge": "Dinox: 前回の同期は大きすぎて記録できなかったため、元に戻せません。",
+	"notice.undoStarting": "Dinox: 前回の同期を元に戻しています...",
+	"notice.undoComplete": "Dinox: 元に戻しました。{count} 件のファイル操作を取り消しました。",
+	"notice.undoPartial": "Dinox: 一部エラーがありました。{reverted} 件を取り消し、{failed} 件が失敗しました（コンソールを参照）。",
+	"notice.undoFailed": "Dinox: 元に戻せませんでした: {error}",
+	"notice.syncResuming": "Dinox: 中断された同期を再開しています...",
+	"notice.syncNotesQueued": "Dinox: {count} 件のノートの同期に失敗しました。後の同期で再試行します。詳細はプラグイン設定を参照してください。",
+	"settings.section.failedNotes": "同期に失敗したノート",
+	"settings.failedNotes.name": "再試行キュー",
+	"settings.failedNotes.empty": "再試行待ちのノートはありません。",
+	"settings.failedNotes.desc": "{count} 件のノートの同期に失敗しました。間隔を空けながら自動で再試行され、他のノートの同期は止まりません。",
+	"settings.failedNotes.retry": "今すぐ再試行",
+	"settings.failedNotes.entry": "{error} — 試行回数：{attempts}、次回の再試行：{time}",
+	"settings.deletionPolicy.name": "Dinox でノートが削除されたとき",
+	"settings.deletionPolicy.desc": "ゴミ箱に移すとノートへのリンクが切れます。アーカイブまたはマークならファイルが残り、バックリンクも保たれます。",
+	"settings.deletionPolicy.optionTrash": "ゴミ箱に移動",
+	"settings.deletionPolicy.optionArchive": "アーカイブフォルダに移動",
+	"settings.deletionPolicy.optionMark": "残して削除済みとしてマーク（dinox_deleted）",
+	"settings.deletionPolicy.optionIgnore": "何もしない",
+	"settings.deletionArchiveFolder.name": "アーカイブフォルダ",
+	"settings.deletionArchiveFolder.desc": "削除されたノートの移動先（同期フォルダ内）。",
+	"notice.deletionsHeldBack": "Dinox: {count} 件の削除は適用されませんでした。これらは保留され、次回の同期で再度確認します。",
+	"deletionGuard.title": "削除の確認",
+	"deletionGuard.desc": "この同期では同期済みノート {total} 件のうち {count} 件が元のフォルダから削除されます。想定外の場合（同期範囲の設定ミスなど）は削除をスキップして設定を確認してください。",
+	"deletionGuard.confirm": "{count} 件のノートを削除",
+	"deletionGuard.skip": "削除をスキップ",
+	"settings.deletionGuard.enable.name": "大量削除の前に確認",
+	"settings.deletionGuard.enable.desc": "1 回の同期で削除されるノートが下の上限を超えるときに確認します。",
+	"settings.deletionGuard.maxCount.name": "1 回の同期での最大削除数",
+	"settings.deletionGuard.maxCount.desc": "ノートの件数。0 でこの制限を無効にします。",
+	"settings.deletionGuard.maxPercent.name": "1 回の同期での最大削除率（%）",
+	"settings.deletionGuard.maxPercent.desc": "同期フォルダ内のノートに対する割合。0 でこの制限を無効にします。",
+	"command.reconcile": "Dinox と照合",
+	"notice.reconcileStarting": "Dinox: 保管庫と Dinox ライブラリを照合しています...",
+	"notice.reconcileFailed": "Dinox: 照合に失敗しました: {error}",
+	"notice.reconcileMappingsFixed": "Dinox: {count} 件の対応付けを修正しました。",
+	"reconcile.title": "Dinox との照合",
+	"reconcile.summary": "Dinox に {remote} 件、保管庫に同期済みノート {local} 件があります。",
+	"reconcile.clean": "すべて一致しています。修正は不要です。",
+	"reconcile.orphaned.name": "Dinox に存在しないローカルノート（{count}）",
+	"reconcile.orphaned.desc": "noteId が Dinox ライブラリ（同期範囲内）にありません。修正では削除ポリシーを適用し、大量削除の場合は先に確認します。",
+	"reconcile.orphaned.choose": "{count} 件のローカルノートが Dinox にありませんが、削除ポリシーは何もしない設定です。アーカイブ、ゴミ箱へ移動、またはそのまま残すことができます。",
+	"reconcile.orphaned.fix": "ローカルファイルを削除",
+	"reconcile.missing.name": "ローカルにない Dinox ノート（{count}）",
+	"reconcile.missing.desc": "Dinox にはあるものの保管庫にファイルがないノートです（手動で削除した場合など）。",
+	"reconcile.missing.fix": "ダウンロード",
+	"reconcile.stale.name": "古い対応付け（{count}）",
+	"reconcile.stale.desc": "保存されたノートの場所が、存在しないファイルや別のノートを指しています。",
+	"reconcile.stale.fix": "対応付けを修復",
+	"reconcile.fixed": "完了",
+	"reconcile.more": "…ほか {count} 件",
+	"command.unpinNoteLocation": "このノートの場所を Dinox 同期の管理に戻す",
+	"notice.noteLocationUnpinned": "Dinox: 次回の同期でこのノートを規定のフォルダに戻します。",
+	"settings.pinMovedNotes.name": "移動したノートはその場所に残す",
+	"settings.pinMovedNotes.desc": "同期済みノートを同期が決めたフォルダの外へ移動すると、以後の同期は元に戻さずその場所で更新します。同じフォルダ内での名前変更は対象外です。「このノートの場所を Dinox 同期の管理に戻す」コマンドで解除できます。",
+	"command.relayoutNotes": "同期済みのすべてのノートにレイアウトを再適用",
+	"relayout.confirm": "現在のファイル名とフォルダ設定に従って、同期済みのすべてのノートを移動しますか？自分で移動したノート、同期を無視するノート、アーカイブ済みまたは削除済みのノートは移動しません。空になったフォルダは削除されます。「前回の Dinox 同期を元に戻す」で取り消せます。",
+	"notice.relayoutStarting": "Dinox: レイアウトを再適用しています...",
+	"notice.relayoutProgress": "Dinox: レイアウトを再適用しています ({done}/{total})...",
+	"notice.relayoutComplete": "Dinox: レイアウトを適用しました。移動 {moved}、変更なし {unchanged}、スキップ {skipped}、失敗 {failed}。空のフォルダを {removedFolders} 個削除しました。",
+	"notice.relayoutFailed": "Dinox: レイアウトの再適用に失敗しました: {error}",
+	"statusBar.nextSync": "次の自動同期まで {minutes} 分",
+	"statusBar.nextSyncBackoff": "次の自動同期まで {minutes} 分（{failures} 回連続で失敗したため間隔を延長中）",
+	"statusBar.autoSyncOffline": "オフラインのため自動同期を一時停止中",
+	"settings.autoSyncInterval.name": "自動同期の間隔（分）",
+	"settings.autoSyncInterval.desc": "自動同期の間隔（分）。{min}〜{max} の範囲で指定します。",
+	"settings.autoSyncOnStartup.name": "起動時に同期",
+	"settings.autoSyncOnStartup.desc": "Obsidian の読み込みが終わったら一度同期します。",
+	"settings.autoSyncOnFocus.name": "Obsidian にフォーカスが戻ったときに同期",
+	"settings.autoSyncOnFocus.desc": "Obsidian に切り替えたときに同期します（最大 5 分に 1 回）。",
+	"profile.mainName": "メイン",
+	"profile.unnamed": "プロファイル {index}",
+	"profile.choose": "同期するプロファイルを選択",
+	"command.syncProfile": "Dinox プロファイルを 1 つ同期",
+	"statusBar.profileResult": "{name}: 更新 {processed}、削除 {deleted} ({time})",
+	"statusBar.profileFailed": "{name}: 失敗 – {error} ({time})",
+	"statusBar.profilesFailed": "Dinox ({count} 件失敗)",
+	"settings.section.profiles": "追加プロファイル",
+	"settings.profiles.desc": "追加の Dinox アカウントをそれぞれのフォルダに同期します。プロファイルごとにトークン、フォルダ、テンプレート、同期範囲を持ち、その他の設定は共通です。「Dinox ノートを今すぐ同期」はすべてのプロファイルを順に同期します。プロファイルのフォルダは互いに入れ子にしないでください。",
+	"settings.profiles.add": "プロファイルを追加",
+	"settings.profiles.name": "プロファイル名",
+	"settings.profiles.template.desc": "種類別のテンプレートの代わりに、すべての種類のノートに使います。空欄の場合はメインのテンプレートと種類別のテンプレートを使います。",
+	"settings.profiles.syncNow": "今すぐ同期",
+	"settings.profiles.remove": "削除",
+	"settings.profiles.removeConfirm": "プロファイル「{name}」を削除しますか？同期済みのファイルは保管庫に残ります。",
+	"settings.section.routingRules": "振り分けルール",
+	"settings.routingRules.desc": "条件に合うノートを専用のフォルダ・テンプレート・ファイル名で保存します。ルールは上から順に確認され、最初に一致した有効なルールが使われます。空欄の項目は通常の設定のままです。ルールのフォルダは同期フォルダ内にあり、タイプ別・カードボックス別のフォルダの代わりになります。",
+	"settings.routingRules.add": "ルールを追加",
+	"settings.routingRules.rule": "ルール {index}",
+	"settings.routingRules.moveUp": "上へ移動",
+	"settings.routingRules.moveDown": "下へ移動",
+	"settings.routingRules.remove": "ルールを削除",
+	"settings.routingRules.match.name": "一致条件",
+	"settings.routingRules.match.desc": "タグ・タイプ・カードボックスのパスは、その下のサブタグやサブボックスにも一致します。タイトルと本文には大文字小文字を区別しない正規表現を使います。",
+	"settings.routingRules.field.tag": "タグ",
+	"settings.routingRules.field.type": "タイプ",
+	"settings.routingRules.field.zettelBox": "カードボックス",
+	"settings.routingRules.field.title": "タイトル（正規表現）",
+	"settings.routingRules.field.content": "本文（正規表現）",
+	"settings.routingRules.pattern.placeholder": "例: meeting",
+	"settings.routingRules.folder.name": "フォルダ",
+	"settings.routingRules.folder.desc": "同期フォルダからの相対パス。空欄なら通常のフォルダのままです。",
+	"settings.routingRules.folder.placeholder": "例: Work/Meetings",
+	"settings.routingRules.filename.name": "ファイル名パターン",
+	"settings.routingRules.filename.desc": "ファイル名テンプレートと同じプレースホルダーを使えます。空欄なら通常のファイル名形式になります。",
+	"settings.typeTemplates.note.name": "ノート用テンプレート",
+	"settings.typeTemplates.material.name": "素材用テンプレート（Web クリップ）",
+	"settings.typeTemplates.audio.name": "音声ノート用テンプレート",
+	"settings.typeTemplates.desc": "空欄なら上のコンテンツテンプレートを使います。",
+	"report.title": "Dinox 同期レポート",
+	"report.duration": "所要時間：{seconds} 秒",
+	"report.summary": "作成 {created} · 更新 {updated} · 移動 {moved} · 変更なし {unchanged} · 削除 {deleted} · スキップ {skipped} · 競合 {conflicts} · 失敗 {failed}",
+	"report.error": "エラー：{error}",
+	"report.section.created": "作成",
+	"report.section.updated": "更新",
+	"report.section.moved": "移動",
+	"report.section.deleted": "削除",
+	"report.section.conflicts": "競合",
+	"report.section.skipped": "スキップ",
+	"report.section.failed": "失敗",
+	"settings.section.syncReport": "同期レポート",
+	"settings.syncReport.enable.name": "同期レポートを書き出す",
+	"settings.syncReport.enable.desc": "同期のたびに、作成・更新・移動・削除・スキップ・失敗したノートをリンクとして同期フォルダ内のノートに記録します。所要時間とエラーも残ります。変更のなかった同期は記録しません。",
+	"settings.syncReport.path.name": "レポートノート",
+	"settings.syncReport.path.desc": "レポートノートのパス（同期フォルダからの相対パス）。",
+	"settings.syncReport.mode.name": "レポートの履歴",
+	"settings.syncReport.mode.desc": "毎回の同期をノートに追記する（最新の50回分を残します）か、最新の1回だけを残すかを選びます。",
+	"settings.syncReport.mode.optionAppend": "毎回追記",
+	"settings.syncReport.mode.optionOverwrite": "最新のみ",
+	"command.openSyncHistory": "Dinox 同期履歴を開く",
+	"history.title": "Dinox 同期履歴",
+	"history.syncNow": "今すぐ同期",
+	"history.progress": "同期中… 処理済み {processed}、削除 {deleted}、失敗 {failed}",
+	"history.empty": "同期履歴はまだありません。",
+	"history.counts": "{seconds} 秒 · 処理済み {processed} · 変更なし {unchanged} · 削除 {deleted} · 失敗 {failed}",
+	"history.omitted": "…ほか {count} 件のノート。",
+	"history.trigger.manual": "手動",
+	"history.trigger.scheduled": "定期",
+	"history.trigger.startup": "起動時",
+	"history.trigger.focus": "ウィンドウのフォーカス",
+	"history.trigger.online": "オンライン復帰",
+	"command.refreshCurrentNote": "このノートを Dinox から更新",
+	"menu.refreshFromDinox": "Dinox から更新",
+	"notice.refreshNoteFailed": "Dinox：ノートの取得に失敗しました - {error}",
+	"notice.refreshNoteNotFound": "Dinox：このノートは Dinox に見つかりません。",
+	"notice.scopeBackfill": "Dinox：新しく選択したカードボックスのノートを取得中…（{count}）",
+	"scopeCleanup.title": "同期範囲外のノート",
+	"scopeCleanup.desc": "{count} 件のローカルノートが選択したカードボックスに含まれなくなりました。アーカイブ、ゴミ箱へ移動、またはそのまま残すことができます。",
+	"scopeCleanup.archive": "アーカイブ",
+	"scopeCleanup.trash": "ゴミ箱へ移動",
+	"scopeCleanup.keep": "残す",
+	"command.findDuplicates": "noteId が重複しているノートを探す",
+	"notice.duplicatesFailed": "Dinox：重複ノートの処理に失敗しました - {error}",
+	"duplicates.title": "重複した Dinox ノート",
+	"duplicates.none": "同じ noteId を持つローカルファイルはありません。",
+	"duplicates.desc": "{count} 件の noteId が複数のファイルで使われています。同期で更新されるのはそのうち 1 つだけなので、各グループで残すファイルを選んでください。",
+	"duplicates.fileInfo": "{size} KB · 更新 {modified}",
+	"duplicates.keep": "これを残す",
+	"duplicates.keepTooltip": "このファイルを残し、他のファイルをゴミ箱へ移動します",
+	"duplicates.merge": "これに統合",
+	"duplicates.mergeTooltip": "他のファイルの本文をこのファイルに追加し、ゴミ箱へ移動します",
+	"duplicates.detach": "他を切り離す",
+	"duplicates.detachTooltip": "このファイルを残し、他のファイルから noteId を削除して通常のノートにします",
+	"duplicates.resolved": "{path} を残しました",
+	"settings.vaultLookup.name": "保管庫全体から同期済みノートを探す",
+	"settings.vaultLookup.desc": "同期フォルダー外に移動したノートも frontmatter の noteId で探し、重複を作らずに更新します。Obsidian のメタデータキャッシュを使うため、ディスクからファイルを読み込みません。",
+	"settings.vaultLookup.includeFolders.name": "検索するフォルダー",
+	"settings.vaultLookup.includeFolders.desc": "保管庫内のフォルダーを 1 行に 1 つ。空欄なら保管庫全体を検索します。",
+	"settings.vaultLookup.excludeFolders.name": "除外するフォルダー",
+	"settings.vaultLookup.excludeFolders.desc": "保管庫内のフォルダーを 1 行に 1 つ。同期済みノートのコピーを置くテンプレートやアーカイブなど。",
+	"settings.vaultLookup.placeholder": "Projects\nAreas/Work",
+	"settings.autoPush.name": "編集を自動で Dinox にプッシュ",
+	"settings.autoPush.desc": "noteId を持つノートの編集がしばらく止まると Dinox にプッシュします。プルで書き込まれた内容がプッシュし返されることはありません。",
+	"settings.autoPushDelay.name": "プッシュまでの待ち時間（秒）",
+	"settings.autoPushDelay.desc": "ノートが変更されないままプッシュされるまでの時間（{min}–{max}）。",
+	"notice.autoPushFailed": "Dinox：「{title}」のプッシュに失敗しました - {error}",
+	"command.pushLocalChanges": "ローカルの変更をすべて Dinox にプッシュ",
+	"notice.pushChangesNone": "Dinox：ローカルで変更された同期済みノートはありません。",
+	"notice.pushChangesFailed": "Dinox：ローカルの変更の検索に失敗しました - {error}",
+	"pushChanges.title": "ローカルの変更をプッシュ",
+	"pushChanges.desc": "{count} 件の同期済みノートが前回のプルまたはプッシュ以降に編集されています。プッシュすると Dinox 側の内容が上書きされます。",
+	"pushChanges.confirm": "{count} 件をプッシュ",
+	"pushChanges.progress": "{total} 件中 {done} 件を処理、失敗 {failed} 件。",
+	"pushChanges.pushed": "プッシュ済み",
+	"pushChanges.failed": "失敗：{error}",
+	"pushChanges.finished": "完了",
+	"pushChanges.close": "閉じる",
+	"notice.refreshNoteSearching": "Dinox: Dinox でノートを検索しています...",
 });
 
 const ko = createTranslation({
@@ -615,7 +1519,7 @@ const ko = createTranslation({
 	"notice.syncInProgress": "Dinox: 동기화가 이미 진행 중입니다.",
 	"notice.tokenMissing": "Dinox: 설정에서 Dinox 토큰을 먼저 설정해주세요.",
 	"notice.syncStarting": "Dinox: 동기화를 시작합니다…",
-	"notice.syncComplete": "Dinox: 동기화 완료!\n처리: {processed}건, 삭제: {deleted}건",
+	"notice.syncComplete": "Dinox: 동기화 완료!\n처리: {processed}건, 변경 없음: {unchanged}건, 삭제: {deleted}건",
 	"notice.syncFailed": "Dinox: 동기화 실패!\n{error}",
 	"notice.syncReset": "Dinox: 동기화 상태를 초기화했습니다. 다음 동기화는 전체를 가져옵니다.",
 	"notice.syncCommandFailed": "Dinox: 동기화 실패 - {error}",
@@ -683,7 +1587,7 @@ const ko = createTranslation({
 	"settings.template.name": "콘텐츠 템플릿 ( API 전송 )",
 	"settings.template.desc": "동기화 요청 시 Dinox API 에 전달되는 템플릿입니다.",
 	"settings.autoSync.name": "자동 동기화 활성화",
-	"settings.autoSync.desc": "Obsidian 이 열려 있는 동안 30 분마다 자동으로 동기화합니다.",
+	"settings.autoSync.desc": "Obsidian 이 열려 있는 동안 일정에 따라 자동으로 동기화합니다. 동기화가 실패하면 대기 시간이 점점 늘어나고, 오프라인일 때는 자동 동기화를 일시 중지합니다.",
 	"settings.section.typeFolders": "유형별 폴더",
 	"settings.typeFolders.enable.name": "type 로 분리",
 	"settings.typeFolders.enable.desc": "Dinox 노트의 type 필드에 따라 동기화 파일을 서로 다른 하위 폴더에 저장합니다.",
@@ -743,6 +1647,232 @@ const ko = createTranslation({
 	"settings.advanced.preset.oneWeek": "1주일 전",
 	"settings.advanced.preset.oneMonth": "1개월 전",
 	"settings.advanced.preset.start": "처음부터",
+	"command.showConflicts": "Dinox 동기화 충돌 보기",
+	"notice.syncConflicts": "Dinox: {count}개의 노트가 로컬과 Dinox 양쪽에서 변경되었습니다. Dinox 버전은 충돌 사본으로 저장되었습니다. \"Dinox 동기화 충돌 보기\"로 해결하세요.",
+	"notice.conflictResolveFailed": "Dinox: 충돌 해결 실패 - {error}",
+	"conflicts.title": "Dinox 동기화 충돌",
+	"conflicts.empty": "충돌이 없습니다. 로컬과 Dinox가 일치합니다.",
+	"conflicts.desc": "이 노트들은 Obsidian에서 편집되었고 Dinox에서도 변경되었습니다. 로컬 파일은 그대로이며 Dinox 버전은 충돌 사본에 있습니다.",
+	"conflicts.entryDesc": "Dinox 버전: {copy} · 감지 {time}",
+	"conflicts.open": "비교",
+	"conflicts.keepLocal": "로컬 유지",
+	"conflicts.useRemote": "Dinox 버전 사용",
+	"conflicts.dismiss": "변경 없이 무시",
+	"notice.syncMerged": "Dinox: {count}개 노트의 로컬 및 Dinox 변경 사항을 병합했습니다.",
+	"conflicts.markersDesc": "겹치는 변경은 충돌 표시와 함께 병합되었습니다 · 감지 {time}. 노트를 편집해 표시를 지운 뒤 해결됨으로 표시하세요.",
+	"conflicts.openNote": "열기",
+	"conflicts.markResolved": "해결됨으로 표시",
+	"settings.conflictStrategy.name": "양쪽 모두 변경된 경우",
+	"settings.conflictStrategy.desc": "마지막 동기화 이후 Obsidian에서 편집되고 Dinox에서도 변경된 노트의 처리 방식입니다.",
+	"settings.conflictStrategy.optionMerge": "3방향 병합 (겹치면 충돌 표시)",
+	"settings.conflictStrategy.optionCopy": "로컬 유지, Dinox 버전을 충돌 사본으로 저장",
+	"command.previewSync": "Dinox 동기화 미리보기 (쓰기 없음)",
+	"notice.previewStarting": "Dinox: 동기화 미리보기 생성 중...",
+	"notice.previewFailed": "Dinox: 동기화 미리보기 실패 - {error}",
+	"common.cancel": "취소",
+	"preview.title": "Dinox 동기화 미리보기",
+	"preview.empty": "할 작업이 없습니다. 보관소가 최신 상태입니다.",
+	"preview.summary": "생성 {create}, 업데이트 {modify}, 이동 {rename}, 삭제 {delete}, 충돌 {conflict}.",
+	"preview.selectedHint": "선택 항목만 적용하면 동기화 커서가 진행되지 않으며, 나머지는 다음에 다시 가져옵니다.",
+	"preview.section.create": "생성",
+	"preview.section.modify": "업데이트",
+	"preview.section.rename": "이동 / 이름 변경",
+	"preview.section.delete": "삭제",
+	"preview.section.conflict": "충돌 사본",
+	"preview.applyAll": "모두 적용",
+	"preview.applySelected": "선택 항목 적용",
+	"preview.remoteChanged": "미리보기 이후 Dinox의 노트가 변경되어 동기화 결과가 미리보기와 다를 수 있습니다. 그래도 동기화할까요?",
+	"command.undoLastSync": "마지막 Dinox 동기화 실행 취소",
+	"undo.confirm": "{time}의 동기화를 실행 취소할까요? {count}개의 파일 작업이 되돌려지고 동기화 위치가 복원됩니다.",
+	"notice.undoNothing": "Dinox: 실행 취소할 동기화가 없습니다.",
+	"notice.undoTooLarge": "Dinox: 마지막 동기화가 너무 커서 기록되지 않아 실행 취소할 수 없습니다.",
+	"notice.undoStarting": "Dinox: 마지막 동기화를 실행 취소하는 중...",
+	"notice.undoComplete": "Dinox: 실행 취소 완료. {count}개의 파일 작업을 되돌렸습니다.",
+	"notice.undoPartial": "Dinox: 일부 오류와 함께 완료되었습니다. {reverted}개 되돌림, {failed}개 실패 (콘솔 참조).",
+	"notice.undoFailed": "Dinox: 실행 취소 실패: {error}",
+	"notice.syncResuming": "Dinox: 중단된 동기화를 이어서 진행하는 중...",
+	"notice.syncNotesQueued": "Dinox: {count}개의 노트 동기화에 실패했습니다. 이후 동기화에서 다시 시도합니다. 자세한 내용은 플러그인 설정을 확인하세요.",
+	"settings.section.failedNotes": "동기화에 실패한 노트",
+	"settings.failedNotes.name": "재시도 대기열",
+	"settings.failedNotes.empty": "재시도를 기다리는 노트가 없습니다.",
+	"settings.failedNotes.desc": "{count}개의 노트 동기화에 실패했습니다. 점점 늘어나는 간격으로 자동 재시도되며, 나머지 동기화는 막히지 않습니다.",
+	"settings.failedNotes.retry": "지금 다시 시도",
+	"settings.failedNotes.entry": "{error} — 시도 횟수: {attempts}, 다음 재시도: {time}",
+	"settings.deletionPolicy.name": "Dinox에서 노트가 삭제되면",
+	"settings.deletionPolicy.desc": "휴지통으로 옮기면 노트로 연결된 링크가 끊어집니다. 보관하거나 표시하면 파일이 남아 백링크가 유지됩니다.",
+	"settings.deletionPolicy.optionTrash": "휴지통으로 이동",
+	"settings.deletionPolicy.optionArchive": "보관 폴더로 이동",
+	"settings.deletionPolicy.optionMark": "유지하고 삭제됨으로 표시 (dinox_deleted)",
+	"settings.deletionPolicy.optionIgnore": "아무것도 하지 않음",
+	"settings.deletionArchiveFolder.name": "보관 폴더",
+	"settings.deletionArchiveFolder.desc": "삭제된 노트를 옮길 동기화 폴더 안의 폴더입니다.",
+	"notice.deletionsHeldBack": "Dinox: {count}개의 삭제가 적용되지 않았습니다. 이 삭제는 따로 보관되며 다음 동기화에서 다시 묻습니다.",
+	"deletionGuard.title": "삭제 확인",
+	"deletionGuard.desc": "이번 동기화는 동기화된 노트 {total}개 중 {count}개를 원래 폴더에서 제거합니다. 예상과 다르다면(예: 잘못된 동기화 범위) 삭제를 건너뛰고 설정을 확인하세요.",
+	"deletionGuard.confirm": "노트 {count}개 제거",
+	"deletionGuard.skip": "삭제 건너뛰기",
+	"settings.deletionGuard.enable.name": "대량 삭제 전 확인",
+	"settings.deletionGuard.enable.desc": "한 번의 동기화에서 제거될 노트가 아래 한도를 넘으면 먼저 묻습니다.",
+	"settings.deletionGuard.maxCount.name": "동기화당 최대 삭제 수",
+	"settings.deletionGuard.maxCount.desc": "노트 개수. 0이면 이 한도를 끕니다.",
+	"settings.deletionGuard.maxPercent.name": "동기화당 최대 삭제 비율 (%)",
+	"settings.deletionGuard.maxPercent.desc": "동기화 폴더에 있는 노트 대비 비율. 0이면 이 한도를 끕니다.",
+	"command.reconcile": "Dinox와 대조",
+	"notice.reconcileStarting": "Dinox: 보관함과 Dinox 라이브러리를 대조하는 중...",
+	"notice.reconcileFailed": "Dinox: 대조 실패: {error}",
+	"notice.reconcileMappingsFixed": "Dinox: 매핑 항목 {count}개를 수정했습니다.",
+	"reconcile.title": "Dinox와 대조",
+	"reconcile.summary": "Dinox에 노트 {remote}개, 보관함에 동기화된 노트 {local}개가 있습니다.",
+	"reconcile.clean": "모두 일치합니다. 수정할 것이 없습니다.",
+	"reconcile.orphaned.name": "Dinox에 없는 로컬 노트 ({count})",
+	"reconcile.orphaned.desc": "noteId가 Dinox 라이브러리(동기화 범위 내)에 없습니다. 수정하면 삭제 정책이 적용되며, 대량 삭제이면 먼저 확인합니다.",
+	"reconcile.orphaned.choose": "로컬 노트 {count}개가 더 이상 Dinox에 없지만 삭제 정책은 아무것도 하지 않도록 설정되어 있습니다. 보관하거나 휴지통으로 옮기거나 그대로 둘 수 있습니다.",
+	"reconcile.orphaned.fix": "로컬 파일 제거",
+	"reconcile.missing.name": "로컬에 없는 Dinox 노트 ({count})",
+	"reconcile.missing.desc": "Dinox에는 있지만 보관함에 파일이 없는 노트입니다(예: 직접 삭제한 경우).",
+	"reconcile.missing.fix": "다운로드",
+	"reconcile.stale.name": "오래된 매핑 항목 ({count})",
+	"reconcile.stale.desc": "저장된 노트 위치가 없는 파일이나 다른 노트를 가리킵니다.",
+	"reconcile.stale.fix": "매핑 복구",
+	"reconcile.fixed": "완료",
+	"reconcile.more": "…외 {count}개",
+	"command.unpinNoteLocation": "이 노트의 위치를 다시 Dinox 동기화가 관리하도록 하기",
+	"notice.noteLocationUnpinned": "Dinox: 다음 동기화에서 이 노트를 규칙에 따른 폴더로 다시 옮깁니다.",
+	"settings.pinMovedNotes.name": "옮긴 노트는 그 위치에 유지",
+	"settings.pinMovedNotes.desc": "동기화된 노트를 동기화가 정한 폴더 밖으로 옮기면 이후 동기화는 되돌리지 않고 그 자리에서 업데이트합니다. 같은 폴더 안에서 이름만 바꾸는 것은 해당하지 않습니다. \"이 노트의 위치를 다시 Dinox 동기화가 관리하도록 하기\" 명령으로 해제할 수 있습니다.",
+	"command.relayoutNotes": "동기화된 모든 노트에 레이아웃 다시 적용",
+	"relayout.confirm": "현재 파일 이름 및 폴더 설정에 따라 동기화된 모든 노트를 이동할까요? 직접 이동한 노트, 동기화 무시 노트, 보관되었거나 삭제된 노트는 그대로 둡니다. 비게 된 폴더는 삭제됩니다. \"마지막 Dinox 동기화 실행 취소\"로 되돌릴 수 있습니다.",
+	"notice.relayoutStarting": "Dinox: 레이아웃을 다시 적용하는 중...",
+	"notice.relayoutProgress": "Dinox: 레이아웃을 다시 적용하는 중 ({done}/{total})...",
+	"notice.relayoutComplete": "Dinox: 레이아웃을 적용했습니다. 이동 {moved}, 변경 없음 {unchanged}, 건너뜀 {skipped}, 실패 {failed}. 빈 폴더 {removedFolders}개를 삭제했습니다.",
+	"notice.relayoutFailed": "Dinox: 레이아웃 다시 적용 실패: {error}",
+	"statusBar.nextSync": "{minutes}분 후 자동 동기화",
+	"statusBar.nextSyncBackoff": "{minutes}분 후 자동 동기화 (연속 {failures}회 실패하여 대기 시간을 늘림)",
+	"statusBar.autoSyncOffline": "오프라인 상태라 자동 동기화를 일시 중지함",
+	"settings.autoSyncInterval.name": "자동 동기화 간격 (분)",
+	"settings.autoSyncInterval.desc": "예약 동기화 사이의 간격(분)으로, {min}~{max} 사이입니다.",
+	"settings.autoSyncOnStartup.name": "시작 시 동기화",
+	"settings.autoSyncOnStartup.desc": "Obsidian 로드가 끝나면 한 번 동기화합니다.",
+	"settings.autoSyncOnFocus.name": "Obsidian 이 다시 포커스될 때 동기화",
+	"settings.autoSyncOnFocus.desc": "Obsidian 으로 돌아올 때 동기화합니다 (최대 5분에 한 번).",
+	"profile.mainName": "기본",
+	"profile.unnamed": "프로필 {index}",
+	"profile.choose": "동기화할 프로필 선택",
+	"command.syncProfile": "Dinox 프로필 하나 동기화",
+	"statusBar.profileResult": "{name}: 업데이트 {processed}, 삭제 {deleted} ({time})",
+	"statusBar.profileFailed": "{name}: 실패 – {error} ({time})",
+	"statusBar.profilesFailed": "Dinox ({count}개 실패)",
+	"settings.section.profiles": "추가 프로필",
+	"settings.profiles.desc": "추가 Dinox 계정을 각자의 폴더로 동기화합니다. 프로필마다 토큰, 폴더, 템플릿, 동기화 범위가 따로 있고 나머지 설정은 공유합니다. \"Dinox 노트를 지금 동기화\"는 모든 프로필을 차례로 동기화합니다. 프로필 폴더끼리 중첩되지 않게 하세요.",
+	"settings.profiles.add": "프로필 추가",
+	"settings.profiles.name": "프로필 이름",
+	"settings.profiles.template.desc": "유형별 템플릿 대신 모든 유형의 노트에 사용합니다. 비워 두면 기본 템플릿과 유형별 템플릿을 사용합니다.",
+	"settings.profiles.syncNow": "지금 동기화",
+	"settings.profiles.remove": "삭제",
+	"settings.profiles.removeConfirm": "프로필 \"{name}\"을(를) 삭제할까요? 동기화된 파일은 보관소에 남습니다.",
+	"settings.section.routingRules": "라우팅 규칙",
+	"settings.routingRules.desc": "조건에 맞는 노트를 전용 폴더, 템플릿, 파일명으로 저장합니다. 규칙은 위에서부터 차례로 확인되며 처음 일치하는 활성 규칙이 적용됩니다. 비워 둔 항목은 일반 설정을 따릅니다. 규칙의 폴더는 동기화 폴더 안에 있으며 유형별·카드박스별 폴더를 대신합니다.",
+	"settings.routingRules.add": "규칙 추가",
+	"settings.routingRules.rule": "규칙 {index}",
+	"settings.routingRules.moveUp": "위로 이동",
+	"settings.routingRules.moveDown": "아래로 이동",
+	"settings.routingRules.remove": "규칙 삭제",
+	"settings.routingRules.match.name": "일치 조건",
+	"settings.routingRules.match.desc": "태그, 유형, 카드박스 경로는 하위 태그와 하위 카드박스에도 일치합니다. 제목과 본문에는 대소문자를 구분하지 않는 정규식을 사용합니다.",
+	"settings.routingRules.field.tag": "태그",
+	"settings.routingRules.field.type": "유형",
+	"settings.routingRules.field.zettelBox": "카드박스",
+	"settings.routingRules.field.title": "제목 (정규식)",
+	"settings.routingRules.field.content": "본문 (정규식)",
+	"settings.routingRules.pattern.placeholder": "예: meeting",
+	"settings.routingRules.folder.name": "폴더",
+	"settings.routingRules.folder.desc": "동기화 폴더 기준 상대 경로입니다. 비워 두면 일반 폴더를 사용합니다.",
+	"settings.routingRules.folder.placeholder": "예: Work/Meetings",
+	"settings.routingRules.filename.name": "파일명 패턴",
+	"settings.routingRules.filename.desc": "파일명 템플릿과 같은 자리표시자를 사용합니다. 비워 두면 일반 파일명 형식을 사용합니다.",
+	"settings.typeTemplates.note.name": "노트 템플릿",
+	"settings.typeTemplates.material.name": "자료 템플릿 (웹 클립)",
+	"settings.typeTemplates.audio.name": "음성 노트 템플릿",
+	"settings.typeTemplates.desc": "비워 두면 위의 콘텐츠 템플릿을 사용합니다.",
+	"report.title": "Dinox 동기화 보고서",
+	"report.duration": "소요 시간: {seconds}초",
+	"report.summary": "생성 {created} · 업데이트 {updated} · 이동 {moved} · 변경 없음 {unchanged} · 삭제 {deleted} · 건너뜀 {skipped} · 충돌 {conflicts} · 실패 {failed}",
+	"report.error": "오류: {error}",
+	"report.section.created": "생성",
+	"report.section.updated": "업데이트",
+	"report.section.moved": "이동",
+	"report.section.deleted": "삭제",
+	"report.section.conflicts": "충돌",
+	"report.section.skipped": "건너뜀",
+	"report.section.failed": "실패",
+	"settings.section.syncReport": "동기화 보고서",
+	"settings.syncReport.enable.name": "동기화 보고서 작성",
+	"settings.syncReport.enable.desc": "동기화할 때마다 생성, 업데이트, 이동, 삭제, 건너뜀, 실패한 노트를 링크로 동기화 폴더 안의 노트에 기록합니다. 소요 시간과 오류도 함께 남깁니다. 변경 사항이 없는 동기화는 기록하지 않습니다.",
+	"settings.syncReport.path.name": "보고서 노트",
+	"settings.syncReport.path.desc": "보고서 노트의 경로 (동기화 폴더 기준).",
+	"settings.syncReport.mode.name": "보고서 기록 방식",
+	"settings.syncReport.mode.desc": "매 동기화를 노트에 추가할지(최근 50회까지 보관), 최근 한 번만 남길지 선택합니다.",
+	"settings.syncReport.mode.optionAppend": "매번 추가",
+	"settings.syncReport.mode.optionOverwrite": "최근 실행만",
+	"command.openSyncHistory": "Dinox 동기화 기록 열기",
+	"history.title": "Dinox 동기화 기록",
+	"history.syncNow": "지금 동기화",
+	"history.progress": "동기화 중… 처리 {processed}, 삭제 {deleted}, 실패 {failed}",
+	"history.empty": "아직 동기화 기록이 없습니다.",
+	"history.counts": "{seconds}초 · 처리 {processed} · 변경 없음 {unchanged} · 삭제 {deleted} · 실패 {failed}",
+	"history.omitted": "…외 {count}개의 노트.",
+	"history.trigger.manual": "수동",
+	"history.trigger.scheduled": "예약",
+	"history.trigger.startup": "시작 시",
+	"history.trigger.focus": "창 포커스",
+	"history.trigger.online": "온라인 복귀",
+	"command.refreshCurrentNote": "이 노트를 Dinox에서 새로 고침",
+	"menu.refreshFromDinox": "Dinox에서 새로 고침",
+	"notice.refreshNoteFailed": "Dinox: 노트를 가져오지 못했습니다 - {error}",
+	"notice.refreshNoteNotFound": "Dinox: Dinox에서 이 노트를 찾을 수 없습니다.",
+	"notice.scopeBackfill": "Dinox: 새로 선택한 카드 상자의 노트를 가져오는 중… ({count})",
+	"scopeCleanup.title": "동기화 범위 밖의 노트",
+	"scopeCleanup.desc": "로컬 노트 {count}개가 더 이상 선택한 카드 상자에 없습니다. 보관하거나 휴지통으로 옮기거나 그대로 둘 수 있습니다.",
+	"scopeCleanup.archive": "보관",
+	"scopeCleanup.trash": "휴지통으로 이동",
+	"scopeCleanup.keep": "유지",
+	"command.findDuplicates": "noteId가 중복된 노트 찾기",
+	"notice.duplicatesFailed": "Dinox: 중복 노트를 처리하지 못했습니다 - {error}",
+	"duplicates.title": "중복된 Dinox 노트",
+	"duplicates.none": "같은 noteId를 가진 로컬 파일이 없습니다.",
+	"duplicates.desc": "noteId {count}개가 여러 파일에서 사용되고 있습니다. 동기화는 그중 하나만 업데이트하므로 각 그룹에서 유지할 파일을 선택하세요.",
+	"duplicates.fileInfo": "{size} KB · 수정 {modified}",
+	"duplicates.keep": "이 파일 유지",
+	"duplicates.keepTooltip": "이 파일을 유지하고 나머지는 휴지통으로 이동합니다",
+	"duplicates.merge": "이 파일로 병합",
+	"duplicates.mergeTooltip": "나머지 파일의 본문을 이 파일에 추가한 뒤 휴지통으로 이동합니다",
+	"duplicates.detach": "나머지 분리",
+	"duplicates.detachTooltip": "이 파일을 유지하고 나머지 파일에서 noteId를 제거해 일반 노트로 남깁니다",
+	"duplicates.resolved": "{path} 유지함",
+	"settings.vaultLookup.name": "보관소 전체에서 동기화된 노트 찾기",
+	"settings.vaultLookup.desc": "동기화 폴더 밖으로 옮긴 노트도 frontmatter의 noteId로 찾아, 중복을 만들지 않고 업데이트합니다. Obsidian의 메타데이터 캐시를 사용하므로 디스크에서 파일을 읽지 않습니다.",
+	"settings.vaultLookup.includeFolders.name": "다음 폴더에서만 찾기",
+	"settings.vaultLookup.includeFolders.desc": "한 줄에 보관소 폴더 하나씩 입력합니다. 비워 두면 보관소 전체를 찾습니다.",
+	"settings.vaultLookup.excludeFolders.name": "제외할 폴더",
+	"settings.vaultLookup.excludeFolders.desc": "한 줄에 보관소 폴더 하나씩 입력합니다. 예: 동기화된 노트의 사본이 있는 템플릿이나 보관 폴더.",
+	"settings.vaultLookup.placeholder": "Projects\nAreas/Work",
+	"settings.autoPush.name": "수정 내용을 Dinox로 자동 푸시",
+	"settings.autoPush.desc": "noteId가 있는 노트를 한동안 편집하지 않으면 Dinox로 푸시합니다. 가져오기로 기록된 내용은 다시 푸시되지 않습니다.",
+	"settings.autoPushDelay.name": "푸시 지연(초)",
+	"settings.autoPushDelay.desc": "노트가 변경되지 않은 상태로 유지되어야 푸시되는 시간입니다({min}–{max}).",
+	"notice.autoPushFailed": "Dinox: \"{title}\" 푸시 실패 - {error}",
+	"command.pushLocalChanges": "모든 로컬 변경 사항을 Dinox로 푸시",
+	"notice.pushChangesNone": "Dinox: 로컬에서 변경된 동기화 노트가 없습니다.",
+	"notice.pushChangesFailed": "Dinox: 로컬 변경 사항을 찾지 못했습니다 - {error}",
+	"pushChanges.title": "로컬 변경 사항 푸시",
+	"pushChanges.desc": "동기화된 노트 {count}개가 마지막 가져오기 또는 푸시 이후 수정되었습니다. 푸시하면 Dinox의 버전을 덮어씁니다.",
+	"pushChanges.confirm": "노트 {count}개 푸시",
+	"pushChanges.progress": "{total}개 중 {done}개 처리, {failed}개 실패.",
+	"pushChanges.pushed": "푸시됨",
+	"pushChanges.failed": "실패: {error}",
+	"pushChanges.finished": "완료",
+	"pushChanges.close": "닫기",
+	"notice.refreshNoteSearching": "Dinox: Dinox에서 노트를 찾는 중...",
 });
 
 const translations: Record<LocaleCode, TranslationRecord> = {
@@ -11,6 +11,7 @@ import {
 	Plugin,
 	Scope,
 	TFile,
+	normalizePath,
 	type Modifier,
 } from "obsidian";
 import {
@@ -23,14 +24,14 @@ import {
 import {
 	DEFAULT_LAST_SYNC_TIME,
 	DEFAULT_SETTINGS,
-	SYNC_PAGE_SIZE,
 } from "./src/constants";
 import { DailyNotesBridge, DailyNotesUnavailableError } from "./src/daily-notes";
 import {
-	getNotePathByIdFromData,
+	getProfileSyncState,
 	normalizePersistedData,
+	type PersistedPluginData,
+	type FailedNoteRecord,
 } from "./src/persisted-data";
-import { fetchNotesPage } from "./src/api";
 import { validateTemplate } from "./src/template";
 import {
 	createNoteToDinox,
@@ -38,12 +39,41 @@ import {
 	syncNoteToDinox,
 } from "./src/push";
 import {
-	buildLocalNoteIdIndex,
-	createSyncSession,
-	ensureBaseDir,
 	flushDailyNoteChanges,
-	processNotesPage,
+	type SyncSession,
 } from "./src/sync";
+import { SyncBaseStore } from "./src/sync/base-store";
+import { SyncJournal } from "./src/sync/journal";
+import {
+	beginSyncJournalRun,
+	syncProfile,
+} from "./src/sync/run";
+import { applySelectedNotes, previewSync } from "./src/sync/preview";
+import { confirmUndoLastSync } from "./src/sync/undo";
+import {
+	autoPushNote,
+	openPushLocalChanges,
+	recordPushedNote,
+} from "./src/sync/push-changes";
+import {
+	handleVaultRename,
+	replayHeldRenames,
+	unpinNoteLocation,
+} from "./src/sync/renames";
+import { refreshNoteFromDinox } from "./src/sync/refresh";
+import {
+	confirmRelayout,
+	openDuplicateNotes,
+	openSyncConflicts,
+	reconcileWithDinox,
+} from "./src/sync/maintenance";
+import { SyncHistory, type SyncProgress } from "./src/sync/history";
+import { LocalNoteIdCache } from "./src/sync/local-index";
+import { ProfileSuggestModal } from "./src/profile-suggest-modal";
+import {
+	SyncHistoryView,
+	VIEW_TYPE_SYNC_HISTORY,
+} from "./src/sync-history-view";
 import { ensureFolderExists } from "./src/vault";
 import {
 	cloneHotkeyMap,
@@ -54,18 +84,28 @@ import {
 import {
 	getErrorMessage,
 	getNoteIdFromFrontmatter,
-	parseDate,
 } from "./src/utils";
-import type { DinoPluginAPI } from "./src/plugin-types";
+import type { DinoSyncHost } from "./src/plugin-types";
 import type {
 	DinoCommandKey,
 	DinoHotkeySetting,
 	DinoPluginSettings,
-	NotesSyncPage,
 } from "./src/types";
 import { DinoSettingTab } from "./src/setting-tab";
+import {
+	findProfileForPath,
+	resolveSyncProfiles,
+	type ProfileSyncResult,
+	type SyncProfile,
+} from "./src/profiles";
+import {
+	AutoSyncScheduler,
+	type SyncOutcome,
+	type SyncTrigger,
+} from "./src/auto-sync";
+import { AutoPushScheduler } from "./src/auto-push";
 
-export default class DinoPlugin extends Plugin implements DinoPluginAPI {
+export default class DinoPlugin extends Plugin implements DinoSyncHost {
 	settings: DinoPluginSettings;
 	statusBarItemEl: HTMLElement;
 	isSyncing = false; // Prevent concurrent syncs
@@ -80,10 +120,23 @@ export default class DinoPlugin extends Plugin implements DinoPluginAPI {
 		listener: (event: KeyboardEvent) => void;
 		displayEl: HTMLElement;
 	} | null = null;
-	private autoSyncIntervalId: number | null = null;
+	private autoSyncScheduler = new AutoSyncScheduler({
+		runSync: (trigger) => this.syncNotes(trigger),
+		onChange: () => this.updateStatusBarLabel(),
+	});
+	private autoPushScheduler = new AutoPushScheduler({
+		pushFile: (path) => autoPushNote(this, path),
+	});
 	private dailyNotesBridge: DailyNotesBridge | null = null;
 	private hasWarnedDailyNotesUnavailable = false;
 	private hasWarnedTypeFoldersTemplateMissing = false;
+	private syncBaseStore: SyncBaseStore | null = null;
+	private syncJournal: SyncJournal | null = null;
+	private localNoteIdCache: LocalNoteIdCache | null = null;
+	private profileResults = new Map<string, ProfileSyncResult>();
+	private syncHistory: SyncHistory | null = null;
+	private syncProgress: SyncProgress | null = null;
+	private persistedUpdates: Promise<void> = Promise.resolve();
 
 	public refreshLocale(): void {
 		this.currentLocale = getCurrentLocale(this.app);
@@ -101,18 +154,85 @@ export default class DinoPlugin extends Plugin implements DinoPluginAPI {
 		if (!this.statusBarItemEl) {
 			return;
 		}
-		const label = this.t("statusBar.ariaLabel");
-		this.statusBarItemEl.setAttribute("aria-label", label);
-		this.statusBarItemEl.setText(
-			this.isSyncing
-				? this.t("statusBar.syncing")
-				: this.t("statusBar.text")
-		);
+		const lines = [this.t("statusBar.ariaLabel")];
+		const schedule = this.describeAutoSyncSchedule();
+		if (schedule) {
+			lines.push(schedule);
+		}
+		const results = this.describeProfileResults();
+		lines.push(...results.lines);
+		this.statusBarItemEl.setAttribute("aria-label", lines.join("\n"));
+		let text = this.t("statusBar.text");
+		if (this.isSyncing) {
+			text = this.t("statusBar.syncing");
+		} else if (results.failed > 0) {
+			text = this.t("statusBar.profilesFailed", { count: results.failed });
+		}
+		this.statusBarItemEl.setText(text);
+	}
+
+	// One tooltip line per profile with the outcome of its last sync. Only
+	// shown once there is more than one profile.
+	private describeProfileResults(): { lines: string[]; failed: number } {
+		if (!this.settings?.profiles.length) {
+			return { lines: [], failed: 0 };
+		}
+		const lines: string[] = [];
+		let failed = 0;
+		for (const profile of this.getSyncProfiles()) {
+			const result = this.profileResults.get(profile.id);
+			if (!result) {
+				continue;
+			}
+			const time = new Date(result.finishedAt).toLocaleTimeString();
+			if (result.ok) {
+				lines.push(
+					this.t("statusBar.profileResult", {
+						name: profile.name,
+						processed: result.processed,
+						deleted: result.deleted,
+						time,
+					})
+				);
+			} else {
+				failed++;
+				lines.push(
+					this.t("statusBar.profileFailed", {
+						name: profile.name,
+						error: result.error ?? "",
+						time,
+					})
+				);
+			}
+		}
+		return { lines, failed };
+	}
+
+	// Countdown shown in the status bar tooltip; refreshed on hover.
+	private describeAutoSyncSchedule(): string | null {
+		if (!this.settings?.isAutoSync) {
+			return null;
+		}
+		if (this.autoSyncScheduler.isWaitingForNetwork()) {
+			return this.t("statusBar.autoSyncOffline");
+		}
+		const nextRunAt = this.autoSyncScheduler.getNextRunAt();
+		if (nextRunAt === null) {
+			return null;
+		}
+		const minutes = Math.max(1, Math.ceil((nextRunAt - Date.now()) / 60000));
+		const failures = this.autoSyncScheduler.getConsecutiveFailures();
+		return failures > 0
+			? this.t("statusBar.nextSyncBackoff", { minutes, failures })
+			: this.t("statusBar.nextSync", { minutes });
 	}
 
-	private setStatusBarSyncingState(isSyncing: boolean): void {
+	setStatusBarSyncingState(isSyncing: boolean): void {
 		this.isSyncing = isSyncing;
 		this.updateStatusBarLabel();
+		if (!isSyncing) {
+			void replayHeldRenames(this);
+		}
 	}
 
 	getHotkeyDisplay(commandKey: DinoCommandKey): string {
@@ -331,26 +451,13 @@ export default class DinoPlugin extends Plugin implements DinoPluginAPI {
 	}
 
 	refreshAutoSyncSchedule(): void {
-		this.stopAutoSync();
-		if (!this.settings.isAutoSync) {
-			return;
-		}
-
-		const intervalId = window.setInterval(() => {
-			if (!this.isSyncing) {
-				void this.syncNotes();
-			}
-		}, 30 * 60 * 1000);
-
-		this.autoSyncIntervalId = intervalId;
-		this.registerInterval(intervalId);
+		this.autoSyncScheduler.configure(
+			this.settings.isAutoSync ? this.settings.autoSync : null
+		);
 	}
 
-	private stopAutoSync(): void {
-		if (this.autoSyncIntervalId !== null) {
-			window.clearInterval(this.autoSyncIntervalId);
-			this.autoSyncIntervalId = null;
-		}
+	refreshAutoPush(): void {
+		this.autoPushScheduler.configure(this.settings.autoPush);
 	}
 
 	private teardownHotkeyScope(): void {
@@ -406,6 +513,22 @@ export default class DinoPlugin extends Plugin implements DinoPluginAPI {
 	private async initializePlugin(): Promise<void> {
 		await this.loadSettings(); // Loads settings like token, dir etc.
 		this.refreshLocale();
+		this.syncHistory = await SyncHistory.load(
+			this.app.vault.adapter,
+			this.getPluginFilePath("sync-history.json")
+		);
+		this.registerView(
+			VIEW_TYPE_SYNC_HISTORY,
+			(leaf) =>
+				new SyncHistoryView(leaf, {
+					t: this.boundT,
+					getRuns: () => this.syncHistory?.getRuns() ?? [],
+					getProgress: () => this.syncProgress,
+					onSyncNow: () => {
+						void this.syncNotes();
+					},
+				})
+		);
 		this.dailyNotesBridge = new DailyNotesBridge(
 			this.app,
 			(path) => ensureFolderExists(this.app, path)
@@ -414,6 +537,9 @@ export default class DinoPlugin extends Plugin implements DinoPluginAPI {
 		// Status Bar
 		this.statusBarItemEl = this.addStatusBarItem();
 		this.updateStatusBarLabel();
+		this.registerDomEvent(this.statusBarItemEl, "mouseenter", () =>
+			this.updateStatusBarLabel()
+		);
 		this.registerDomEvent(this.statusBarItemEl, "click", async () => {
 			if (this.isSyncing) {
 				new Notice(this.t("notice.syncInProgress"));
@@ -438,12 +564,87 @@ export default class DinoPlugin extends Plugin implements DinoPluginAPI {
 			},
 		});
 
+		this.addCommand({
+			id: "sync-profile",
+			name: this.t("command.syncProfile"),
+			callback: () => {
+				new ProfileSuggestModal(this.app, {
+					profiles: this.getSyncProfiles(),
+					placeholder: this.t("profile.choose"),
+					onChoose: (profile) => {
+						void this.syncNotes("manual", profile.id);
+					},
+				}).open();
+			},
+		});
+
+		this.addCommand({
+			id: "open-sync-history",
+			name: this.t("command.openSyncHistory"),
+			callback: async () => {
+				await this.activateSyncHistoryView();
+			},
+		});
+
+		this.addCommand({
+			id: "preview-sync",
+			name: this.t("command.previewSync"),
+			callback: () => {
+				this.chooseProfile((profile) => {
+					void previewSync(this, profile);
+				});
+			},
+		});
+
+		this.addCommand({
+			id: "reconcile",
+			name: this.t("command.reconcile"),
+			callback: () => {
+				this.chooseProfile((profile) => {
+					void reconcileWithDinox(this, profile);
+				});
+			},
+		});
+
+		this.addCommand({
+			id: "relayout-notes",
+			name: this.t("command.relayoutNotes"),
+			callback: () => {
+				this.chooseProfile((profile) => confirmRelayout(this, profile));
+			},
+		});
+
+		this.addCommand({
+			id: "push-local-changes",
+			name: this.t("command.pushLocalChanges"),
+			callback: async () => {
+				await openPushLocalChanges(this);
+			},
+		});
+
+		this.addCommand({
+			id: "find-duplicate-notes",
+			name: this.t("command.findDuplicates"),
+			callback: async () => {
+				await openDuplicateNotes(this);
+			},
+		});
+
+		this.addCommand({
+			id: "undo-last-sync",
+			name: this.t("command.undoLastSync"),
+			callback: async () => {
+				await confirmUndoLastSync(this);
+			},
+		});
+
 		this.addCommand({
 			id: "reset-sync",
 			name: this.t("command.resetSync"),
 			callback: async () => {
-				await this.setLastSyncTime(DEFAULT_LAST_SYNC_TIME);
-				new Notice(this.t("notice.syncReset"));
+				if (await this.setLastSyncTime(DEFAULT_LAST_SYNC_TIME)) {
+					new Notice(this.t("notice.syncReset"));
+				}
 			},
 		});
 
@@ -484,6 +685,25 @@ export default class DinoPlugin extends Plugin implements DinoPluginAPI {
 			},
 		});
 
+		this.addCommand({
+			id: "refresh-current-note",
+			name: this.t("command.refreshCurrentNote"),
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file) {
+					return false;
+				}
+				const fileCache = this.app.metadataCache.getFileCache(file);
+				if (!getNoteIdFromFrontmatter(fileCache?.frontmatter)) {
+					return false;
+				}
+				if (!checking) {
+					void refreshNoteFromDinox(this, file);
+				}
+				return true;
+			},
+		});
+
 		// Add command for createNoteToDinox with keyboard shortcut
 		this.commandRefs.createNote = this.addCommand({
 			id: "create-note",
@@ -509,6 +729,32 @@ export default class DinoPlugin extends Plugin implements DinoPluginAPI {
 			},
 		});
 
+		this.addCommand({
+			id: "show-conflicts",
+			name: this.t("command.showConflicts"),
+			callback: () => openSyncConflicts(this),
+		});
+
+		this.addCommand({
+			id: "unpin-note-location",
+			name: this.t("command.unpinNoteLocation"),
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				const noteId = file
+					? getNoteIdFromFrontmatter(
+							this.app.metadataCache.getFileCache(file)?.frontmatter
+						)
+					: undefined;
+				if (!noteId) {
+					return false;
+				}
+				if (!checking) {
+					void unpinNoteLocation(this, noteId);
+				}
+				return true;
+			},
+		});
+
 		this.addCommand({
 			id: "open-daily-note",
 			name: this.t("command.openDailyNote"),
@@ -547,6 +793,55 @@ export default class DinoPlugin extends Plugin implements DinoPluginAPI {
 
 		this.applyAllCommandHotkeys();
 		this.refreshAutoSyncSchedule();
+		this.refreshAutoPush();
+		this.registerDomEvent(window, "focus", () =>
+			this.autoSyncScheduler.handleFocus()
+		);
+		this.registerDomEvent(window, "online", () =>
+			this.autoSyncScheduler.handleOnline()
+		);
+		this.registerDomEvent(window, "offline", () =>
+			this.updateStatusBarLabel()
+		);
+		this.app.workspace.onLayoutReady(() =>
+			this.autoSyncScheduler.handleStartup()
+		);
+
+		// Follow notes the user moves so the mapping stays current and, with
+		// pinning on, later syncs update them where they are.
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) => {
+				void handleVaultRename(this, file, oldPath);
+			})
+		);
+
+		// Keep the local noteId index current between syncs. Changed files are
+		// forgotten and read again on the next scan. Edits also feed auto push.
+		this.registerEvent(
+			this.app.vault.on("create", (file) =>
+				this.localNoteIdCache?.delete(file.path)
+			)
+		);
+		this.registerEvent(
+			this.app.vault.on("modify", (file) => {
+				this.localNoteIdCache?.delete(file.path);
+				if (file instanceof TFile && file.extension === "md") {
+					this.autoPushScheduler.handleModify(file.path);
+				}
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on("delete", (file) => {
+				this.localNoteIdCache?.delete(file.path);
+				this.autoPushScheduler.cancel(file.path);
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) => {
+				this.localNoteIdCache?.rename(oldPath, file.path);
+				this.autoPushScheduler.handleRename(oldPath, file.path);
+			})
+		);
 
 		// Editor Menu Items (Push to Dinox - Kept as potentially useful)
 		this.registerEvent(
@@ -586,6 +881,14 @@ export default class DinoPlugin extends Plugin implements DinoPluginAPI {
 								void this.createNoteToDinox(editor, file);
 							});
 					});
+				} else {
+					menu.addItem((item: MenuItem) => {
+						item.setTitle(this.t("menu.refreshFromDinox"))
+							.setIcon("download")
+							.onClick(() => {
+								void refreshNoteFromDinox(this, file);
+							});
+					});
 				}
 
 				menu.addItem((item: MenuItem) => {
@@ -601,7 +904,8 @@ export default class DinoPlugin extends Plugin implements DinoPluginAPI {
 
 	onunload() {
 		this.cancelHotkeyCapture(false);
-		this.stopAutoSync();
+		this.autoSyncScheduler.stop();
+		this.autoPushScheduler.stop();
 		this.teardownHotkeyScope();
 	}
 
@@ -615,67 +919,149 @@ export default class DinoPlugin extends Plugin implements DinoPluginAPI {
 
 	async saveSettings() {
 		// Keep sync state intact while persisting user-facing settings.
-		const persisted = normalizePersistedData(
-			await this.loadData(),
-			DEFAULT_SETTINGS
-		);
 		this.settings.commandHotkeys = cloneHotkeyMap(
 			this.settings.commandHotkeys
 		);
-		persisted.settings = this.settings;
-		await this.saveData(persisted);
+		await this.updatePersistedData(() => true);
 	}
 
-	async setLastSyncTime(lastSyncTime: string): Promise<void> {
-		const persisted = normalizePersistedData(
-			await this.loadData(),
-			DEFAULT_SETTINGS
+	// A running sync would save its own position over the new one, so the
+	// reset waits for no sync and resolves false while one runs.
+	async setLastSyncTime(lastSyncTime: string): Promise<boolean> {
+		if (this.isSyncing) {
+			new Notice(this.t("notice.syncInProgress"));
+			return false;
+		}
+		await this.updatePersistedData((persisted) => {
+			for (const profile of this.getSyncProfiles()) {
+				const state = getProfileSyncState(persisted, profile.id);
+				state.lastSyncTime = lastSyncTime;
+				// A new starting point makes any interrupted run obsolete.
+				state.checkpoint = null;
+			}
+			return true;
+		});
+		return true;
+	}
+
+	async activateSyncHistoryView(): Promise<void> {
+		const { workspace } = this.app;
+		const existing = workspace.getLeavesOfType(VIEW_TYPE_SYNC_HISTORY)[0];
+		const leaf = existing ?? workspace.getRightLeaf(false);
+		if (!leaf) {
+			return;
+		}
+		if (!existing) {
+			await leaf.setViewState({ type: VIEW_TYPE_SYNC_HISTORY, active: true });
+		}
+		workspace.revealLeaf(leaf);
+	}
+
+	private refreshSyncHistoryViews(): void {
+		for (const leaf of this.app.workspace.getLeavesOfType(
+			VIEW_TYPE_SYNC_HISTORY
+		)) {
+			if (leaf.view instanceof SyncHistoryView) {
+				leaf.view.refresh();
+			}
+		}
+	}
+
+	// Loads, changes and saves data.json one update at a time, so updates
+	// arriving in quick succession (e.g. a folder of notes being moved) do
+	// not overwrite each other. The update returns whether to save.
+	updatePersistedData(
+		update: (persisted: PersistedPluginData) => Promise<boolean> | boolean
+	): Promise<void> {
+		const run = this.persistedUpdates.then(async () => {
+			const persisted = normalizePersistedData(
+				await this.loadData(),
+				DEFAULT_SETTINGS
+			);
+			if (await update(persisted)) {
+				persisted.settings = this.settings;
+				await this.saveData(persisted);
+			}
+		});
+		this.persistedUpdates = run.catch((error) =>
+			console.error("Dinox: Failed to save plugin data:", error)
 		);
-		// Preserve current in-memory settings; do not overwrite them with stale disk data.
-		persisted.settings = this.settings;
-		persisted.state.lastSyncTime = lastSyncTime;
-		await this.saveData(persisted);
+		return this.persistedUpdates;
 	}
 
-	// --- Core Sync Logic ---
+	private getPluginFilePath(filename: string): string {
+		const dir =
+			this.manifest.dir ??
+			`${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		return normalizePath(`${dir}/${filename}`);
+	}
 
-	// Convert the stored sync cursor into an unambiguous ISO timestamp the
-	// server can compare with `::timestamptz`. Returns null for a first/full
-	// sync so older stored formats can never cause a timezone-shifted query.
-	private resolveSince(stored: string | undefined): string | null {
-		if (!stored || stored === DEFAULT_LAST_SYNC_TIME) {
-			return null;
+	async getSyncBaseStore(): Promise<SyncBaseStore> {
+		if (!this.syncBaseStore) {
+			this.syncBaseStore = await SyncBaseStore.load(
+				this.app.vault.adapter,
+				this.getPluginFilePath("sync-base.json")
+			);
 		}
-		const parsed = parseDate(stored);
-		if (!parsed) {
-			return null;
+		return this.syncBaseStore;
+	}
+
+	async getLocalNoteIdCache(): Promise<LocalNoteIdCache> {
+		if (!this.localNoteIdCache) {
+			this.localNoteIdCache = await LocalNoteIdCache.load(
+				this.app.vault.adapter,
+				this.getPluginFilePath("local-index.json")
+			);
 		}
-		return parsed.toISOString();
+		return this.localNoteIdCache;
 	}
 
-	async syncNotes() {
+	async getSyncJournal(): Promise<SyncJournal> {
+		if (!this.syncJournal) {
+			this.syncJournal = await SyncJournal.load(
+				this.app.vault.adapter,
+				this.getPluginFilePath("sync-journal.json")
+			);
+		}
+		return this.syncJournal;
+	}
+
+	// --- Core Sync Logic ---
+
+	// Shared by sync and preview: checks that must pass before a run starts.
+	canStartSync(settings: DinoPluginSettings = this.settings): boolean {
 		if (this.isSyncing) {
 			new Notice(this.t("notice.syncInProgress"));
-			return;
+			return false;
 		}
-		if (!this.settings.token) {
+		if (!settings.token) {
 			new Notice(this.t("notice.tokenMissing"));
-			return;
+			return false;
 		}
 
-		const templateError = validateTemplate(this.settings.template);
+		const templateError = [
+			settings.template,
+			settings.typeTemplates.note,
+			settings.typeTemplates.material,
+			settings.typeTemplates.audio,
+			...settings.routingRules
+				.filter((rule) => rule.enabled)
+				.map((rule) => rule.template),
+		]
+			.map((template) => validateTemplate(template))
+			.find((error) => error !== null);
 		if (templateError) {
 			// Abort rather than render: a broken template would silently
 			// strip frontmatter from every note this sync touches.
 			new Notice(
 				this.t("notice.templateInvalidAbort", { error: templateError })
 			);
-			return;
+			return false;
 		}
 
 		if (
-			this.settings.typeFolders.enabled &&
-			!/\{\{\s*type\s*\}\}/.test(this.settings.template)
+			settings.typeFolders.enabled &&
+			!/\{\{\s*type\s*\}\}/.test(settings.template)
 		) {
 			if (!this.hasWarnedTypeFoldersTemplateMissing) {
 				this.hasWarnedTypeFoldersTemplateMissing = true;
@@ -685,149 +1071,152 @@ export default class DinoPlugin extends Plugin implements DinoPluginAPI {
 				new Notice(this.t("notice.typeFoldersTemplateMissing"));
 			}
 		}
+		return true;
+	}
 
-		this.setStatusBarSyncingState(true);
-		this.statusBarItemEl.addClass("is-syncing");
-		const notice = new Notice(this.t("notice.syncStarting"), 0);
+	async flushSessionDailyNotes(session: SyncSession): Promise<void> {
+		await flushDailyNoteChanges({
+			session,
+			settings: this.settings,
+			t: this.boundT,
+			dailyNotesBridge: this.dailyNotesBridge,
+			onDailyNotesUnavailable: () => {
+				if (!this.hasWarnedDailyNotesUnavailable) {
+					new Notice(this.t("notice.dailyNotesPluginDisabled"));
+					this.hasWarnedDailyNotesUnavailable = true;
+				}
+			},
+		});
+	}
 
-		let errorOccurred = false;
-		const persisted = normalizePersistedData(
-			await this.loadData(),
-			DEFAULT_SETTINGS
-		);
+	getSyncProfiles(): SyncProfile[] {
+		return resolveSyncProfiles(this.settings, this.boundT);
+	}
 
-		try {
-			// 1. Resolve the incremental cursor. `since` is an unambiguous ISO
-			//    timestamp; null means a first/full sync (also skips deletions,
-			//    since there is nothing local to remove yet).
-			const since = this.resolveSince(persisted.state.lastSyncTime);
-			const includeDeleted = since !== null;
-			// null => sync everything; array => only the selected boxes + sub-boxes.
-			const boxIds = this.settings.syncScope.enabled
-				? this.settings.syncScope.selectedBoxIds
-				: null;
-
-			// 2. Resolve base dir and build stable noteId -> path mapping.
-			const baseDir = await ensureBaseDir(this.app, this.settings.dir);
-			const localIndex = await buildLocalNoteIdIndex(this.app, baseDir);
-			const notePathById = getNotePathByIdFromData(persisted);
-			for (const [noteId, path] of Object.entries(localIndex)) {
-				if (!notePathById[noteId]) {
-					notePathById[noteId] = path;
-				}
-			}
+	// The profile whose folder holds the path; the main profile otherwise.
+	getProfileForPath(path: string | undefined): SyncProfile {
+		const profiles = this.getSyncProfiles();
+		return (path && findProfileForPath(profiles, path)) || profiles[0];
+	}
 
-			// 3. Stream pages: fetch -> process -> release, so memory stays
-			//    bounded regardless of how many notes changed.
-			const session = createSyncSession();
-			let cursor: string | null = null;
-			let highWaterMark: string | null = null;
-			const seenCursors = new Set<string>();
-
-			do {
-				const page: NotesSyncPage = await fetchNotesPage({
-					token: this.settings.token,
-					since,
-					cursor,
-					limit: SYNC_PAGE_SIZE,
-					includeDeleted,
-					boxIds,
-				});
+	// Runs `action` for the only profile, or for the one the user picks.
+	private chooseProfile(action: (profile: SyncProfile) => void): void {
+		const profiles = this.getSyncProfiles();
+		if (profiles.length === 1) {
+			action(profiles[0]);
+			return;
+		}
+		new ProfileSuggestModal(this.app, {
+			profiles,
+			placeholder: this.t("profile.choose"),
+			onChoose: action,
+		}).open();
+	}
 
-				// Notes are ordered newest-first, so the very first note of the
-				// first page carries the high-water mark for the next sync.
-				if (highWaterMark === null && page.notes.length > 0) {
-					highWaterMark = page.notes[0].updateTime ?? null;
-				}
+	/**
+	 * Sync every profile that has a token, one after another, or only the
+	 * given one. Each profile keeps its own cursor, so one failing does not
+	 * hold back the others.
+	 */
+	async syncNotes(
+		trigger: SyncTrigger = "manual",
+		profileId?: string
+	): Promise<SyncOutcome> {
+		const profiles = this.getSyncProfiles().filter(
+			(profile) => !profileId || profile.id === profileId
+		);
+		const ready = profiles.filter((profile) => profile.settings.token);
+		// Automatic runs stay quiet when they cannot start.
+		if (trigger !== "manual" && (this.isSyncing || ready.length === 0)) {
+			return "skipped";
+		}
+		if (ready.length === 0) {
+			this.canStartSync(profiles[0]?.settings);
+			return "skipped";
+		}
+		if (!ready.every((profile) => this.canStartSync(profile.settings))) {
+			return "skipped";
+		}
 
-				await processNotesPage({
-					app: this.app,
-					settings: this.settings,
-					t: this.boundT,
-					notes: page.notes,
-					baseDir,
-					notePathById,
-					localIndex,
-					session,
+		this.setStatusBarSyncingState(true);
+		this.statusBarItemEl.addClass("is-syncing");
+		let failed = false;
+		const journal = await this.getSyncJournal();
+		try {
+			await this.persistedUpdates;
+			const runId = await beginSyncJournalRun(this, journal, ready);
+			for (const profile of ready) {
+				const { result, run } = await syncProfile(this, {
+					profile,
+					label: this.settings.profiles.length > 0 ? profile.name : null,
+					trigger,
+					journal,
+					runId,
+					onProgress: (progress) => {
+						this.syncProgress = progress;
+						this.refreshSyncHistoryViews();
+					},
 				});
-
-				const nextCursor = page.nextCursor;
-				if (page.hasMore && !nextCursor) {
-					throw new Error(
-						"Dinox: Sync response indicated more pages but did not include nextCursor."
-					);
-				}
-				if (nextCursor) {
-					if (seenCursors.has(nextCursor)) {
-						throw new Error(
-							"Dinox: Sync pagination returned a repeated cursor."
-						);
-					}
-					seenCursors.add(nextCursor);
-				}
-				if (!page.hasMore && nextCursor) {
-					console.warn(
-						"Dinox: Sync response included nextCursor while hasMore was false; stopping at this page."
+				this.syncProgress = null;
+				await this.syncHistory
+					?.add(run)
+					.catch((error) =>
+						console.error("Dinox: Failed to save sync history:", error)
 					);
+				this.refreshSyncHistoryViews();
+				this.profileResults.set(profile.id, result);
+				this.updateStatusBarLabel();
+				if (!result.ok) {
+					failed = true;
 				}
-				cursor = page.hasMore ? nextCursor : null;
-				if (cursor) {
-					notice.setMessage(
-						`${this.t("notice.syncStarting")} (${session.processed})`
-					);
-					// Breathe between pages so the UI stays responsive.
-					await new Promise((resolve) =>
-						window.setTimeout(resolve, 0)
-					);
-				}
-			} while (cursor);
-
-			// 4. Apply accumulated daily-note edits once.
-			await flushDailyNoteChanges({
-				session,
-				settings: this.settings,
-				t: this.boundT,
-				dailyNotesBridge: this.dailyNotesBridge,
-				onDailyNotesUnavailable: () => {
-					if (!this.hasWarnedDailyNotesUnavailable) {
-						new Notice(this.t("notice.dailyNotesPluginDisabled"));
-						this.hasWarnedDailyNotesUnavailable = true;
-					}
-				},
-			});
-
-			// 5. Persist *only on success*. Advance the cursor only if we saw
-			//    notes; otherwise keep the previous high-water mark.
-			persisted.settings = this.settings;
-			if (highWaterMark) {
-				persisted.state.lastSyncTime = highWaterMark;
 			}
-			persisted.state.notePathById = notePathById;
-			await this.saveData(persisted);
-
-			notice.setMessage(
-				this.t("notice.syncComplete", {
-					processed: session.processed,
-					deleted: session.deleted,
-				})
-			);
-		} catch (error) {
-			errorOccurred = true;
-			console.error("Dinox: Sync failed:", error);
-			notice.setMessage(
-				this.t("notice.syncFailed", { error: getErrorMessage(error) })
-			);
-			// Do NOT update lastSyncTime on error
 		} finally {
+			await journal.save().catch((error) =>
+				console.error("Dinox: Failed to save sync journal:", error)
+			);
 			this.setStatusBarSyncingState(false);
 			this.statusBarItemEl.removeClass("is-syncing");
-			window.setTimeout(() => notice.hide(), errorOccurred ? 10000 : 5000);
 		}
+		const outcome: SyncOutcome = failed ? "failed" : "completed";
+		this.autoSyncScheduler.recordOutcome(outcome);
+		return outcome;
 	}
 
+	async getFailedNotes(): Promise<FailedNoteRecord[]> {
+		const persisted = normalizePersistedData(
+			await this.loadData(),
+			DEFAULT_SETTINGS
+		);
+		return this.getSyncProfiles().flatMap((profile) =>
+			Object.values(getProfileSyncState(persisted, profile.id).failedNotes)
+		);
+	}
+
+	// Retries every queued note now, ignoring the backoff.
+	async retryFailedNotes(): Promise<void> {
+		const persisted = normalizePersistedData(
+			await this.loadData(),
+			DEFAULT_SETTINGS
+		);
+		for (const profile of this.getSyncProfiles()) {
+			const failedNotes = Object.values(
+				getProfileSyncState(persisted, profile.id).failedNotes
+			);
+			if (failedNotes.length > 0 && profile.settings.token) {
+				await applySelectedNotes(this, {
+					notes: failedNotes.map((entry) => entry.note),
+					settings: profile.settings,
+					profileId: profile.id,
+				});
+			}
+		}
+	}
+
+	// A selection goes to the profile of the note it was taken from.
 	async sendToDinox(content: string): Promise<void> {
 		await sendSelectionToDinox({
-			token: this.settings.token,
+			token: this.getProfileForPath(this.app.workspace.getActiveFile()?.path)
+				.settings.token,
 			t: this.boundT,
 			content,
 		});
@@ -836,21 +1225,34 @@ export default class DinoPlugin extends Plugin implements DinoPluginAPI {
 	async createNoteToDinox(editor: Editor, file: TFile): Promise<void> {
 		await createNoteToDinox({
 			app: this.app,
-			token: this.settings.token,
+			token: this.getProfileForPath(file.path).settings.token,
 			t: this.boundT,
 			editor,
 			file,
 		});
 	}
 
+	// Refused while a sync runs, like auto push, since the run would save
+	// its copy of the records over the one the push makes. The push in turn
+	// holds off syncs until it is recorded.
 	async syncToDinox(editor: Editor, file: TFile): Promise<void> {
-		await syncNoteToDinox({
-			app: this.app,
-			token: this.settings.token,
-			t: this.boundT,
-			editor,
-			file,
-		});
+		if (this.isSyncing) {
+			new Notice(this.t("notice.syncInProgress"));
+			return;
+		}
+		this.setStatusBarSyncingState(true);
+		try {
+			await syncNoteToDinox({
+				app: this.app,
+				token: this.getProfileForPath(file.path).settings.token,
+				t: this.boundT,
+				editor,
+				file,
+				onPushed: (pushed) => recordPushedNote(this, pushed),
+			});
+		} finally {
+			this.setStatusBarSyncingState(false);
+		}
 	}
 
 }
@@ -254,6 +254,90 @@ export async function fetchNotesPage(args: {
 	};
 }
 
+/**
+ * Walk every page of a sync query, validating the cursor protocol between
+ * pages. Callers process each page before the next one is fetched, so memory
+ * stays bounded regardless of how many notes changed.
+ */
+export async function* iterateNotesPages(args: {
+	token: string;
+	since: string | null;
+	limit: number;
+	includeDeleted: boolean;
+	boxIds: string[] | null;
+	cursor?: string | null;
+}): AsyncGenerator<NotesSyncPage, void, undefined> {
+	let cursor: string | null = args.cursor ?? null;
+	const seenCursors = new Set<string>();
+
+	do {
+		const page = await fetchNotesPage({
+			token: args.token,
+			since: args.since,
+			cursor,
+			limit: args.limit,
+			includeDeleted: args.includeDeleted,
+			boxIds: args.boxIds,
+		});
+
+		const nextCursor = page.nextCursor;
+		if (page.hasMore && !nextCursor) {
+			throw new Error(
+				"Dinox: Sync response indicated more pages but did not include nextCursor."
+			);
+		}
+		if (nextCursor) {
+			if (seenCursors.has(nextCursor)) {
+				throw new Error(
+					"Dinox: Sync pagination returned a repeated cursor."
+				);
+			}
+			seenCursors.add(nextCursor);
+		}
+		if (!page.hasMore && nextCursor) {
+			console.warn(
+				"Dinox: Sync response included nextCursor while hasMore was false; stopping at this page."
+			);
+		}
+
+		yield page;
+
+		cursor = page.hasMore ? nextCursor : null;
+		if (cursor) {
+			// Breathe between pages so the UI stays responsive.
+			await new Promise((resolve) => window.setTimeout(resolve, 0));
+		}
+	} while (cursor);
+}
+
+/**
+ * Find one note by paging through the sync endpoint, the only read endpoint
+ * of the open API. Only notes changed after `since` are searched, and the
+ * whole library when the note is not among them. Stops at the page that
+ * holds the note, which comes back with `isDel` set when it was deleted in
+ * Dinox; null when Dinox does not know the note.
+ */
+export async function fetchNote(args: {
+	token: string;
+	noteId: string;
+	since: string | null;
+	limit: number;
+}): Promise<Note | null> {
+	for await (const page of iterateNotesPages({
+		token: args.token,
+		since: args.since,
+		includeDeleted: true,
+		boxIds: null,
+		limit: args.limit,
+	})) {
+		const note = page.notes.find((entry) => entry.noteId === args.noteId);
+		if (note) {
+			return note;
+		}
+	}
+	return args.since === null ? null : fetchNote({ ...args, since: null });
+}
+
 function mapZettelBoxNode(raw: unknown): ZettelBoxNode | null {
 	if (!isJsonRecord(raw)) {
 		return null;
@@ -0,0 +1,75 @@
+import type { AutoPushSettings } from "./types";
+
+/** `deferred` asks to try again after another delay, e.g. while a sync runs. */
+export type AutoPushOutcome = "done" | "deferred";
+
+/**
+ * Pushes edited notes once they have been idle for the configured delay.
+ * Every modify event of a file restarts its countdown, so typing pushes once
+ * after the last keystroke instead of on every autosave.
+ */
+export class AutoPushScheduler {
+	private readonly pushFile: (path: string) => Promise<AutoPushOutcome>;
+	private settings: AutoPushSettings | null = null;
+	private readonly timers = new Map<string, number>();
+
+	constructor(args: { pushFile: (path: string) => Promise<AutoPushOutcome> }) {
+		this.pushFile = args.pushFile;
+	}
+
+	/** Start watching; null stops and drops the pending pushes. */
+	configure(settings: AutoPushSettings | null): void {
+		this.settings = settings?.enabled ? settings : null;
+		if (!this.settings) {
+			this.stop();
+		}
+	}
+
+	stop(): void {
+		for (const timerId of this.timers.values()) {
+			window.clearTimeout(timerId);
+		}
+		this.timers.clear();
+	}
+
+	handleModify(path: string): void {
+		if (this.settings) {
+			this.schedule(path);
+		}
+	}
+
+	handleRename(oldPath: string, newPath: string): void {
+		if (this.timers.has(oldPath)) {
+			this.cancel(oldPath);
+			this.schedule(newPath);
+		}
+	}
+
+	cancel(path: string): void {
+		const timerId = this.timers.get(path);
+		if (timerId !== undefined) {
+			window.clearTimeout(timerId);
+			this.timers.delete(path);
+		}
+	}
+
+	private schedule(path: string): void {
+		if (!this.settings) {
+			return;
+		}
+		this.cancel(path);
+		const timerId = window.setTimeout(() => {
+			this.timers.delete(path);
+			void this.run(path);
+		}, this.settings.delaySeconds * 1000);
+		this.timers.set(path, timerId);
+	}
+
+	private async run(path: string): Promise<void> {
+		const outcome = await this.pushFile(path);
+		// A newer edit may have rescheduled the file while it was pushed.
+		if (outcome === "deferred" && !this.timers.has(path)) {
+			this.schedule(path);
+		}
+	}
+}
@@ -0,0 +1,144 @@
+import type { AutoSyncSettings } from "./types";
+
+export type SyncTrigger = "manual" | "scheduled" | "startup" | "focus" | "online";
+
+/** `skipped` means the sync did not start, e.g. because another one was running. */
+export type SyncOutcome = "completed" | "failed" | "skipped";
+
+// After consecutive failures the interval doubles, up to this ceiling (or the
+// configured interval, if that is longer).
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+// Switching windows back and forth should not start a sync every time.
+const FOCUS_SYNC_MIN_GAP_MS = 5 * 60 * 1000;
+
+/**
+ * Timer-driven auto sync. Every finished sync (manual or automatic) reports
+ * its outcome, which restarts the countdown and grows it after failures.
+ * While the browser reports being offline, due runs wait for the `online`
+ * event instead of failing.
+ */
+export class AutoSyncScheduler {
+	private readonly runSync: (trigger: SyncTrigger) => Promise<SyncOutcome>;
+	private readonly onChange: () => void;
+	private settings: AutoSyncSettings | null = null;
+	private timerId: number | null = null;
+	private nextRunAt: number | null = null;
+	private consecutiveFailures = 0;
+	// Counts from load so the focus event fired at startup does not sync.
+	private lastRunAt = Date.now();
+	private dueWhileOffline = false;
+
+	constructor(args: {
+		runSync: (trigger: SyncTrigger) => Promise<SyncOutcome>;
+		/** Called whenever the next run time changes. */
+		onChange: () => void;
+	}) {
+		this.runSync = args.runSync;
+		this.onChange = args.onChange;
+	}
+
+	/** Start (or restart) the schedule; null stops it. */
+	configure(settings: AutoSyncSettings | null): void {
+		this.settings = settings;
+		this.dueWhileOffline = false;
+		if (settings) {
+			this.scheduleNext();
+		} else {
+			this.clearTimer();
+			this.onChange();
+		}
+	}
+
+	stop(): void {
+		this.configure(null);
+	}
+
+	getNextRunAt(): number | null {
+		return this.nextRunAt;
+	}
+
+	isWaitingForNetwork(): boolean {
+		return this.dueWhileOffline;
+	}
+
+	getConsecutiveFailures(): number {
+		return this.consecutiveFailures;
+	}
+
+	recordOutcome(outcome: SyncOutcome): void {
+		if (outcome === "skipped") {
+			return;
+		}
+		this.lastRunAt = Date.now();
+		this.consecutiveFailures =
+			outcome === "failed" ? this.consecutiveFailures + 1 : 0;
+		if (this.settings) {
+			this.scheduleNext();
+		}
+	}
+
+	handleStartup(): void {
+		if (this.settings?.syncOnStartup) {
+			void this.trigger("startup");
+		}
+	}
+
+	handleFocus(): void {
+		if (
+			this.settings?.syncOnFocus &&
+			Date.now() - this.lastRunAt >= FOCUS_SYNC_MIN_GAP_MS
+		) {
+			void this.trigger("focus");
+		}
+	}
+
+	handleOnline(): void {
+		if (this.settings && this.dueWhileOffline) {
+			void this.trigger("online");
+		}
+	}
+
+	private getDelayMs(): number {
+		const interval = (this.settings?.intervalMinutes ?? 0) * 60 * 1000;
+		if (this.consecutiveFailures === 0) {
+			return interval;
+		}
+		const backoff = interval * 2 ** Math.min(this.consecutiveFailures, 10);
+		return Math.max(interval, Math.min(backoff, MAX_BACKOFF_MS));
+	}
+
+	private scheduleNext(): void {
+		this.clearTimer();
+		const delay = this.getDelayMs();
+		this.nextRunAt = Date.now() + delay;
+		this.timerId = window.setTimeout(() => {
+			this.timerId = null;
+			this.nextRunAt = null;
+			void this.trigger("scheduled");
+		}, delay);
+		this.onChange();
+	}
+
+	private clearTimer(): void {
+		if (this.timerId !== null) {
+			window.clearTimeout(this.timerId);
+			this.timerId = null;
+		}
+		this.nextRunAt = null;
+	}
+
+	private async trigger(trigger: SyncTrigger): Promise<void> {
+		if (!navigator.onLine) {
+			this.clearTimer();
+			this.dueWhileOffline = true;
+			this.onChange();
+			return;
+		}
+		this.dueWhileOffline = false;
+		const outcome = await this.runSync(trigger);
+		// A skipped run reports nothing, so keep the schedule going here.
+		if (outcome === "skipped" && this.settings && this.timerId === null) {
+			this.scheduleNext();
+		}
+	}
+}
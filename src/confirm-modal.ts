@@ -0,0 +1,34 @@
+import { App, Modal, Setting } from "obsidian";
+
+export class ConfirmModal extends Modal {
+	private readonly message: string;
+	private readonly onConfirm: () => void | Promise<void>;
+
+	constructor(app: App, message: string, onConfirm: () => void | Promise<void>) {
+		super(app);
+		this.message = message;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.createEl("p", { text: this.message });
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Confirm")
+					.setWarning()
+					.onClick(() => {
+						this.close();
+						void this.onConfirm();
+					})
+			)
+			.addButton((btn) =>
+				btn.setButtonText("Cancel").onClick(() => this.close())
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
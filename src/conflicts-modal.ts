@@ -0,0 +1,139 @@
+import { App, Modal, Setting } from "obsidian";
+import type { SyncConflict } from "./persisted-data";
+import type { ConflictResolution } from "./sync/conflicts";
+import type { TranslationKey, TranslationVars } from "../i18n";
+
+type TFunction = (key: TranslationKey, vars?: TranslationVars) => string;
+
+/** Lists notes that changed on both sides so each can be resolved on purpose. */
+export class ConflictsModal extends Modal {
+	private readonly t: TFunction;
+	private readonly loadConflicts: () => Promise<SyncConflict[]>;
+	private readonly onResolve: (
+		conflict: SyncConflict,
+		resolution: ConflictResolution
+	) => Promise<void>;
+
+	constructor(
+		app: App,
+		args: {
+			t: TFunction;
+			loadConflicts: () => Promise<SyncConflict[]>;
+			onResolve: (
+				conflict: SyncConflict,
+				resolution: ConflictResolution
+			) => Promise<void>;
+		}
+	) {
+		super(app);
+		this.t = args.t;
+		this.loadConflicts = args.loadConflicts;
+		this.onResolve = args.onResolve;
+	}
+
+	onOpen(): void {
+		this.setTitle(this.t("conflicts.title"));
+		void this.render();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private async render(): Promise<void> {
+		const { contentEl } = this;
+		const t = this.t;
+		const conflicts = await this.loadConflicts();
+		contentEl.empty();
+
+		if (conflicts.length === 0) {
+			contentEl.createEl("p", { text: t("conflicts.empty") });
+			return;
+		}
+
+		contentEl.createEl("p", {
+			cls: "dinox-modal-desc",
+			text: t("conflicts.desc"),
+		});
+
+		for (const conflict of conflicts) {
+			const detectedAt = conflict.detectedAt
+				? new Date(conflict.detectedAt).toLocaleString()
+				: "";
+			const setting = new Setting(contentEl).setName(conflict.notePath);
+			if (conflict.kind === "markers") {
+				setting
+					.setDesc(t("conflicts.markersDesc", { time: detectedAt }))
+					.addButton((btn) =>
+						btn.setButtonText(t("conflicts.openNote")).onClick(async () => {
+							await this.app.workspace.openLinkText(
+								conflict.notePath,
+								"",
+								false
+							);
+							this.close();
+						})
+					)
+					.addButton((btn) =>
+						btn
+							.setButtonText(t("conflicts.markResolved"))
+							.onClick(() => this.resolve(conflict, "keepLocal"))
+					)
+					.addExtraButton((btn) =>
+						btn
+							.setIcon("x")
+							.setTooltip(t("conflicts.dismiss"))
+							.onClick(() => this.resolve(conflict, "dismiss"))
+					);
+				continue;
+			}
+			setting
+				.setDesc(
+					t("conflicts.entryDesc", {
+						copy: conflict.conflictPath,
+						time: detectedAt,
+					})
+				)
+				.addButton((btn) =>
+					btn.setButtonText(t("conflicts.open")).onClick(async () => {
+						await this.app.workspace.openLinkText(
+							conflict.notePath,
+							"",
+							false
+						);
+						await this.app.workspace.openLinkText(
+							conflict.conflictPath,
+							"",
+							"split"
+						);
+						this.close();
+					})
+				)
+				.addButton((btn) =>
+					btn
+						.setButtonText(t("conflicts.keepLocal"))
+						.onClick(() => this.resolve(conflict, "keepLocal"))
+				)
+				.addButton((btn) =>
+					btn
+						.setButtonText(t("conflicts.useRemote"))
+						.setWarning()
+						.onClick(() => this.resolve(conflict, "useRemote"))
+				)
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("x")
+						.setTooltip(t("conflicts.dismiss"))
+						.onClick(() => this.resolve(conflict, "dismiss"))
+				);
+		}
+	}
+
+	private async resolve(
+		conflict: SyncConflict,
+		resolution: ConflictResolution
+	): Promise<void> {
+		await this.onResolve(conflict, resolution);
+		await this.render();
+	}
+}
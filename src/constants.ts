@@ -1,8 +1,14 @@
 import type {
+	AutoPushSettings,
+	AutoSyncSettings,
 	DailyNotesSettings,
+	DeletionGuardSettings,
 	DinoPluginSettings,
+	SyncReportSettings,
 	SyncScopeSettings,
 	TypeFoldersSettings,
+	TypeTemplatesSettings,
+	VaultLookupSettings,
 	ZettelBoxFoldersSettings,
 } from "./types";
 import { createDefaultHotkeys } from "./hotkeys";
@@ -34,10 +40,30 @@ export const API_BASE_URL = "https://dinoai.chatgo.pro";
 export const API_BASE_URL_AI = "https://aisdk.chatgo.pro";
 export const DEFAULT_LAST_SYNC_TIME = "1900-01-01 00:00:00";
 
+// State of the top-level token/dir lives under this id.
+export const MAIN_PROFILE_ID = "main";
+
 // Incremental pull is paginated so memory stays bounded on mobile.
 export const SYNC_PAGE_SIZE = 50;
 export const SYNC_REQUEST_TIMEOUT_MS = 60000;
 
+export const MIN_AUTO_SYNC_INTERVAL_MINUTES = 5;
+export const MAX_AUTO_SYNC_INTERVAL_MINUTES = 24 * 60;
+
+export const DEFAULT_AUTO_SYNC_SETTINGS: AutoSyncSettings = {
+	intervalMinutes: 30,
+	syncOnStartup: false,
+	syncOnFocus: false,
+};
+
+export const MIN_AUTO_PUSH_DELAY_SECONDS = 2;
+export const MAX_AUTO_PUSH_DELAY_SECONDS = 10 * 60;
+
+export const DEFAULT_AUTO_PUSH_SETTINGS: AutoPushSettings = {
+	enabled: false,
+	delaySeconds: 10,
+};
+
 export const DEFAULT_DAILY_NOTES_SETTINGS: DailyNotesSettings = {
 	enabled: false,
 	heading: "## Dinox Notes",
@@ -53,6 +79,12 @@ export const DEFAULT_TYPE_FOLDERS_SETTINGS: TypeFoldersSettings = {
 	material: "material",
 };
 
+export const DEFAULT_TYPE_TEMPLATES_SETTINGS: TypeTemplatesSettings = {
+	note: "",
+	material: "",
+	audio: "",
+};
+
 export const DEFAULT_ZETTEL_BOX_FOLDERS_SETTINGS: ZettelBoxFoldersSettings = {
 	enabled: false,
 };
@@ -62,19 +94,49 @@ export const DEFAULT_SYNC_SCOPE_SETTINGS: SyncScopeSettings = {
 	selectedBoxIds: [],
 };
 
+export const DEFAULT_DELETION_GUARD_SETTINGS: DeletionGuardSettings = {
+	enabled: true,
+	maxCount: 20,
+	maxPercent: 10,
+};
+
+export const DEFAULT_SYNC_REPORT_SETTINGS: SyncReportSettings = {
+	enabled: false,
+	path: "Dinox Sync Report.md",
+	mode: "append",
+};
+
+export const DEFAULT_VAULT_LOOKUP_SETTINGS: VaultLookupSettings = {
+	enabled: false,
+	includeFolders: [],
+	excludeFolders: [],
+};
+
 export const DEFAULT_SETTINGS: DinoPluginSettings = {
 	token: "",
 	isAutoSync: false,
+	autoSync: DEFAULT_AUTO_SYNC_SETTINGS,
+	autoPush: DEFAULT_AUTO_PUSH_SETTINGS,
 	dir: "Dinox Sync",
 	typeFolders: DEFAULT_TYPE_FOLDERS_SETTINGS,
 	zettelBoxFolders: DEFAULT_ZETTEL_BOX_FOLDERS_SETTINGS,
 	syncScope: DEFAULT_SYNC_SCOPE_SETTINGS,
+	profiles: [],
+	routingRules: [],
 	template: DEFAULT_TEMPLATE_TEXT,
+	typeTemplates: DEFAULT_TYPE_TEMPLATES_SETTINGS,
 	filenameFormat: "noteId",
 	filenameTemplate: "{{title}} ({{createDate}})",
 	fileLayout: "nested",
 	ignoreSyncKey: "ignore_sync",
 	preserveKeys: "",
+	conflictStrategy: "merge",
+	deletionPolicy: "trash",
+	deletionArchiveFolder: "Archive",
+	deletionGuard: DEFAULT_DELETION_GUARD_SETTINGS,
+	syncReport: DEFAULT_SYNC_REPORT_SETTINGS,
+	pinMovedNotes: true,
+	vaultLookup: DEFAULT_VAULT_LOOKUP_SETTINGS,
 	commandHotkeys: createDefaultHotkeys(),
 	dailyNotes: DEFAULT_DAILY_NOTES_SETTINGS,
 };
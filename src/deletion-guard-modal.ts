@@ -0,0 +1,82 @@
+import { App, Modal, Setting } from "obsidian";
+import type { SyncPlanItem } from "./sync";
+import type { TranslationKey, TranslationVars } from "../i18n";
+
+type TFunction = (key: TranslationKey, vars?: TranslationVars) => string;
+
+/**
+ * Shown when a sync would remove more notes than the deletion guard allows.
+ * Resolves with true only when the user explicitly approves the deletions;
+ * closing the modal any other way holds them back.
+ */
+export class DeletionGuardModal extends Modal {
+	private readonly t: TFunction;
+	private readonly items: SyncPlanItem[];
+	private readonly indexedCount: number;
+	private readonly onResolve: (approved: boolean) => void;
+	private resolved = false;
+
+	constructor(
+		app: App,
+		args: {
+			t: TFunction;
+			items: SyncPlanItem[];
+			indexedCount: number;
+			onResolve: (approved: boolean) => void;
+		}
+	) {
+		super(app);
+		this.t = args.t;
+		this.items = args.items;
+		this.indexedCount = args.indexedCount;
+		this.onResolve = args.onResolve;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		const t = this.t;
+		this.setTitle(t("deletionGuard.title"));
+
+		contentEl.createEl("p", {
+			text: t("deletionGuard.desc", {
+				count: this.items.length,
+				total: this.indexedCount,
+			}),
+		});
+
+		const listEl = contentEl.createDiv({ cls: "dinox-plan-list" });
+		for (const item of this.items) {
+			listEl.createDiv({ cls: "dinox-plan-path", text: item.path });
+		}
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText(
+						t("deletionGuard.confirm", { count: this.items.length })
+					)
+					.setWarning()
+					.onClick(() => this.finish(true))
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText(t("deletionGuard.skip"))
+					.setCta()
+					.onClick(() => this.finish(false))
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+		if (!this.resolved) {
+			this.resolved = true;
+			this.onResolve(false);
+		}
+	}
+
+	private finish(approved: boolean): void {
+		this.resolved = true;
+		this.onResolve(approved);
+		this.close();
+	}
+}
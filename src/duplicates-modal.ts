@@ -0,0 +1,106 @@
+import { App, Modal, Setting } from "obsidian";
+import type { DuplicateNoteGroup, DuplicateResolution } from "./sync/duplicates";
+import { formatDate } from "./utils";
+import type { TranslationKey, TranslationVars } from "../i18n";
+
+type TFunction = (key: TranslationKey, vars?: TranslationVars) => string;
+
+/**
+ * Every group of local files sharing a noteId. Each file row offers to keep
+ * that file and trash, merge or detach the others.
+ */
+export class DuplicatesModal extends Modal {
+	private readonly t: TFunction;
+	private readonly groups: DuplicateNoteGroup[];
+	private readonly onResolve: (
+		group: DuplicateNoteGroup,
+		keepPath: string,
+		resolution: DuplicateResolution
+	) => Promise<boolean>;
+
+	constructor(
+		app: App,
+		args: {
+			t: TFunction;
+			groups: DuplicateNoteGroup[];
+			onResolve: (
+				group: DuplicateNoteGroup,
+				keepPath: string,
+				resolution: DuplicateResolution
+			) => Promise<boolean>;
+		}
+	) {
+		super(app);
+		this.t = args.t;
+		this.groups = args.groups;
+		this.onResolve = args.onResolve;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		const t = this.t;
+		this.setTitle(t("duplicates.title"));
+
+		if (this.groups.length === 0) {
+			contentEl.createEl("p", { text: t("duplicates.none") });
+			return;
+		}
+		contentEl.createEl("p", {
+			text: t("duplicates.desc", { count: this.groups.length }),
+		});
+		for (const group of this.groups) {
+			this.renderGroup(contentEl.createDiv(), group);
+		}
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private renderGroup(groupEl: HTMLElement, group: DuplicateNoteGroup): void {
+		const t = this.t;
+		new Setting(groupEl).setName(group.noteId).setHeading();
+		for (const file of group.files) {
+			const setting = new Setting(groupEl)
+				.setName(file.path)
+				.setDesc(
+					t("duplicates.fileInfo", {
+						size: (file.stat.size / 1024).toFixed(1),
+						modified: formatDate(new Date(file.stat.mtime)),
+					})
+				);
+			const resolveWith = (resolution: DuplicateResolution): void => {
+				void this.onResolve(group, file.path, resolution).then((resolved) => {
+					if (!resolved) {
+						return;
+					}
+					groupEl.empty();
+					new Setting(groupEl).setName(group.noteId).setHeading();
+					groupEl.createEl("p", {
+						cls: "dinox-modal-desc",
+						text: t("duplicates.resolved", { path: file.path }),
+					});
+				});
+			};
+			setting
+				.addButton((btn) =>
+					btn
+						.setButtonText(t("duplicates.keep"))
+						.setTooltip(t("duplicates.keepTooltip"))
+						.onClick(() => resolveWith("keep"))
+				)
+				.addButton((btn) =>
+					btn
+						.setButtonText(t("duplicates.merge"))
+						.setTooltip(t("duplicates.mergeTooltip"))
+						.onClick(() => resolveWith("merge"))
+				)
+				.addButton((btn) =>
+					btn
+						.setButtonText(t("duplicates.detach"))
+						.setTooltip(t("duplicates.detachTooltip"))
+						.onClick(() => resolveWith("detach"))
+				);
+		}
+	}
+}
@@ -43,6 +43,111 @@ export function splitFrontmatter(markdown: string): FrontmatterSplitResult {
 	return { frontmatter, body };
 }
 
+interface FrontmatterBounds {
+	/** Offsets of the YAML between the two `---` lines. */
+	yamlStart: number;
+	yamlEnd: number;
+	/** Offset just past the closing `---` line. */
+	bodyStart: number;
+}
+
+// Same rules as splitFrontmatter, as offsets into the untouched text.
+function findFrontmatterBounds(markdown: string): FrontmatterBounds | null {
+	const lines = markdown.split("\n");
+	if (lines[0].trim() !== "---") {
+		return null;
+	}
+	const yamlStart = lines[0].length + 1;
+	let offset = yamlStart;
+	for (let i = 1; i < lines.length; i++) {
+		if (lines[i].trim() === "---") {
+			let yamlEnd = Math.max(yamlStart, offset - 1);
+			if (yamlEnd > yamlStart && markdown[yamlEnd - 1] === "\r") {
+				yamlEnd--;
+			}
+			return {
+				yamlStart,
+				yamlEnd,
+				bodyStart: Math.min(markdown.length, offset + lines[i].length + 1),
+			};
+		}
+		offset += lines[i].length + 1;
+	}
+	return null;
+}
+
+/**
+ * Swap the body of a note, keeping its frontmatter and the whitespace around
+ * the body byte for byte.
+ */
+export function replaceBody(markdown: string, body: string): string {
+	const bounds = findFrontmatterBounds(markdown);
+	const head = bounds ? markdown.slice(0, bounds.bodyStart) : "";
+	const oldBody = markdown.slice(head.length);
+	const leading = /^\s*/.exec(oldBody)?.[0] ?? "";
+	const trailing = /\s*$/.exec(oldBody.slice(leading.length))?.[0] ?? "";
+	return `${head}${leading}${body}${trailing}`;
+}
+
+/** Swap the YAML of a note's frontmatter, adding a block if it has none. */
+export function replaceFrontmatter(markdown: string, yaml: string): string {
+	const bounds = findFrontmatterBounds(markdown);
+	if (!bounds) {
+		return `---\n${yaml}\n---\n${markdown}`;
+	}
+	const rest = markdown.slice(bounds.yamlEnd);
+	// An empty block has no line break between its two `---` lines.
+	const separator = /^\r?\n/.test(rest) ? "" : "\n";
+	return markdown.slice(0, bounds.yamlStart) + yaml + separator + rest;
+}
+
+function topLevelKey(line: string): string | null {
+	const match = line.match(
+		/^(?:"([^"]*)"|'([^']*)'|([^\s#"'-][^:#]*?))\s*:(?:\s|$)/
+	);
+	return match ? match[1] ?? match[2] ?? match[3] : null;
+}
+
+/**
+ * Replace top-level frontmatter entries with YAML snippets (one per key, e.g.
+ * `status: done`), appending the keys that are missing. Every other line of
+ * the note keeps its bytes.
+ */
+export function replaceFrontmatterEntries(
+	markdown: string,
+	entries: Record<string, string>
+): string {
+	const bounds = findFrontmatterBounds(markdown);
+	if (!bounds) {
+		return replaceFrontmatter(markdown, Object.values(entries).join("\n"));
+	}
+	const yaml = markdown.slice(bounds.yamlStart, bounds.yamlEnd);
+	const lines = yaml ? yaml.split(/\r?\n/) : [];
+	const pending = new Map(Object.entries(entries));
+	const kept: string[] = [];
+	for (let i = 0; i < lines.length; i++) {
+		const key = topLevelKey(lines[i]);
+		const entry = key === null ? undefined : pending.get(key);
+		if (key === null || entry === undefined) {
+			kept.push(lines[i]);
+			continue;
+		}
+		kept.push(entry);
+		pending.delete(key);
+		// Drop the old value's nested lines (block lists and maps).
+		while (
+			i + 1 < lines.length &&
+			lines[i + 1].trim() &&
+			/^[\s-]/.test(lines[i + 1])
+		) {
+			i++;
+		}
+	}
+	kept.push(...pending.values());
+	const newline = yaml.includes("\r\n") ? "\r\n" : "\n";
+	return replaceFrontmatter(markdown, kept.join(newline));
+}
+
 export function extractFrontmatterScalar(
 	frontmatter: string | null,
 	key: string
@@ -1,19 +1,39 @@
 import { normalizePath } from "obsidian";
 import {
+	DEFAULT_AUTO_PUSH_SETTINGS,
+	DEFAULT_AUTO_SYNC_SETTINGS,
 	DEFAULT_DAILY_NOTES_SETTINGS,
+	DEFAULT_DELETION_GUARD_SETTINGS,
 	DEFAULT_LAST_SYNC_TIME,
 	DEFAULT_SETTINGS,
+	DEFAULT_SYNC_REPORT_SETTINGS,
 	DEFAULT_SYNC_SCOPE_SETTINGS,
 	DEFAULT_TYPE_FOLDERS_SETTINGS,
+	DEFAULT_TYPE_TEMPLATES_SETTINGS,
+	DEFAULT_VAULT_LOOKUP_SETTINGS,
 	DEFAULT_ZETTEL_BOX_FOLDERS_SETTINGS,
+	MAIN_PROFILE_ID,
+	MAX_AUTO_PUSH_DELAY_SECONDS,
+	MAX_AUTO_SYNC_INTERVAL_MINUTES,
+	MIN_AUTO_PUSH_DELAY_SECONDS,
+	MIN_AUTO_SYNC_INTERVAL_MINUTES,
 } from "./constants";
 import { cloneHotkeyMap } from "./hotkeys";
 import { sanitizeRelativeFolderSubpath } from "./type-folders";
 import type {
+	AutoPushSettings,
+	AutoSyncSettings,
 	DailyNotesSettings,
+	DeletionGuardSettings,
 	DinoPluginSettings,
+	DinoxProfile,
+	Note,
+	RoutingRule,
+	SyncReportSettings,
 	SyncScopeSettings,
 	TypeFoldersSettings,
+	TypeTemplatesSettings,
+	VaultLookupSettings,
 	ZettelBoxFoldersSettings,
 } from "./types";
 
@@ -25,15 +45,116 @@ function isJsonRecord(value: unknown): value is JsonRecord {
 	return !!value && typeof value === "object" && !Array.isArray(value);
 }
 
+/** Fingerprints of what the plugin last wrote for a note. */
+export interface SyncedNoteRecord {
+	/**
+	 * Hash of the vault file right after the plugin wrote it. Empty when the
+	 * file kept local edits Dinox has not seen yet (e.g. after a merge).
+	 */
+	localHash: string;
+	/** Hash of the rendered Dinox version that was written. */
+	remoteHash: string;
+	/**
+	 * Hash of the file the plugin wrote when that differs from `localHash`,
+	 * e.g. a merge that kept local edits. Auto push skips files that still
+	 * match it, so a pull is never pushed back.
+	 */
+	writtenHash?: string;
+}
+
+/**
+ * A note that changed both locally and in Dinox. With `copy` the local file is
+ * left untouched and the Dinox version is written next to it; with `markers`
+ * the merged file contains git-style markers around overlapping hunks.
+ */
+export interface SyncConflict {
+	kind: "copy" | "markers";
+	noteId: string;
+	notePath: string;
+	conflictPath: string;
+	remoteHash: string;
+	detectedAt: string;
+}
+
+/**
+ * Progress of a sync run that has not finished yet. It is written every few
+ * notes and after every page, so the next run can pick up where an
+ * interrupted one stopped instead of starting the whole query over.
+ */
+export interface SyncCheckpoint {
+	startedAt: string;
+	/** Query scope the cursor belongs to; a different scope starts over. */
+	since: string | null;
+	includeDeleted: boolean;
+	boxIds: string[] | null;
+	/** Cursor of the next page to fetch; null means the first page. */
+	cursor: string | null;
+	highWaterMark: string | null;
+	/**
+	 * Notes of the page in progress that were already written, skipped when
+	 * the page is delivered again.
+	 */
+	processedNoteIds: string[];
+	/** Deletions held back until the end of the run for the deletion guard. */
+	deferredDeletions: Note[];
+}
+
+/**
+ * A note that failed to sync. The cursor moves on without it; the stored
+ * payload is retried on later runs with a growing delay until it succeeds or
+ * a newer version of the note replaces it.
+ */
+export interface FailedNoteRecord {
+	note: Note;
+	error: string;
+	attempts: number;
+	firstFailedAt: string;
+	nextRetryAt: string;
+}
+
 export interface PersistedPluginState {
 	lastSyncTime: string;
 	notePathById: Record<string, string>;
+	syncedNotes: Record<string, SyncedNoteRecord>;
+	conflicts: SyncConflict[];
+	checkpoint: SyncCheckpoint | null;
+	failedNotes: Record<string, FailedNoteRecord>;
+	/** Notes the user moved; sync updates them in place instead of moving them back. */
+	pinnedNoteIds: string[];
+	/**
+	 * Deletions the user declined at the deletion guard. The cursor moves on
+	 * without them and the next sync offers them again.
+	 */
+	heldDeletions: Note[];
+	/**
+	 * Card boxes `lastSyncTime` covers; null means the whole library. Boxes
+	 * added to the scope later are backfilled, since the cursor skips their
+	 * older notes. Undefined until the first run records it.
+	 */
+	scopeBoxIds?: string[] | null;
 }
 
+/**
+ * Sync position of an additional profile. Records keyed by noteId (hashes,
+ * conflicts, pins) stay in the main state, since noteIds are unique across
+ * accounts.
+ */
+export type ProfileSyncState = Pick<
+	PersistedPluginState,
+	| "lastSyncTime"
+	| "notePathById"
+	| "checkpoint"
+	| "failedNotes"
+	| "heldDeletions"
+	| "scopeBoxIds"
+>;
+
 export interface PersistedPluginDataV2 {
 	schemaVersion: typeof PERSISTED_SCHEMA_VERSION;
 	settings: DinoPluginSettings;
 	state: PersistedPluginState;
+	/** Keyed by profile id; the main profile uses `state`. */
+	profileStates: Record<string, ProfileSyncState>;
 }
 
 export type PersistedPluginData = PersistedPluginDataV2;
@@ -56,6 +177,155 @@ export function normalizeNotePathById(value: unknown): Record<string, string> {
 	return normalized;
 }
 
+export function normalizeSyncedNotes(
+	value: unknown
+): Record<string, SyncedNoteRecord> {
+	if (!isJsonRecord(value)) {
+		return {};
+	}
+	const normalized: Record<string, SyncedNoteRecord> = {};
+	for (const [noteId, entry] of Object.entries(value)) {
+		if (!noteId.trim() || !isJsonRecord(entry)) {
+			continue;
+		}
+		if (
+			typeof entry.localHash !== "string" ||
+			typeof entry.remoteHash !== "string"
+		) {
+			continue;
+		}
+		normalized[noteId.trim()] = {
+			localHash: entry.localHash,
+			remoteHash: entry.remoteHash,
+			...(typeof entry.writtenHash === "string"
+				? { writtenHash: entry.writtenHash }
+				: {}),
+		};
+	}
+	return normalized;
+}
+
+export function normalizeConflicts(value: unknown): SyncConflict[] {
+	if (!Array.isArray(value)) {
+		return [];
+	}
+	const conflicts: SyncConflict[] = [];
+	for (const entry of value) {
+		if (!isJsonRecord(entry)) {
+			continue;
+		}
+		const { noteId, notePath, conflictPath, remoteHash, detectedAt } =
+			entry;
+		const kind = entry.kind === "markers" ? "markers" : "copy";
+		if (
+			typeof noteId !== "string" ||
+			!noteId.trim() ||
+			typeof notePath !== "string" ||
+			!notePath.trim()
+		) {
+			continue;
+		}
+		const copyPath =
+			typeof conflictPath === "string" ? conflictPath.trim() : "";
+		if (kind === "copy" && !copyPath) {
+			continue;
+		}
+		conflicts.push({
+			kind,
+			noteId: noteId.trim(),
+			notePath: normalizePath(notePath.trim()),
+			conflictPath: copyPath ? normalizePath(copyPath) : "",
+			remoteHash: typeof remoteHash === "string" ? remoteHash : "",
+			detectedAt: typeof detectedAt === "string" ? detectedAt : "",
+		});
+	}
+	return conflicts;
+}
+
+function normalizeQueuedNote(value: unknown): Note | null {
+	if (
+		!isJsonRecord(value) ||
+		typeof value.noteId !== "string" ||
+		!value.noteId.trim() ||
+		typeof value.content !== "string"
+	) {
+		return null;
+	}
+	// Written by this plugin from an already-mapped API note, so only the
+	// fields sync relies on are checked.
+	return {
+		...(value as unknown as Note),
+		title: typeof value.title === "string" ? value.title : "",
+		createTime: typeof value.createTime === "string" ? value.createTime : "",
+		isDel: value.isDel === true,
+	};
+}
+
+export function normalizeFailedNotes(
+	value: unknown
+): Record<string, FailedNoteRecord> {
+	if (!isJsonRecord(value)) {
+		return {};
+	}
+	const normalized: Record<string, FailedNoteRecord> = {};
+	for (const [noteId, entry] of Object.entries(value)) {
+		if (!isJsonRecord(entry)) {
+			continue;
+		}
+		const note = normalizeQueuedNote(entry.note);
+		if (!note || note.noteId !== noteId) {
+			continue;
+		}
+		normalized[noteId] = {
+			note,
+			error: typeof entry.error === "string" ? entry.error : "",
+			attempts:
+				typeof entry.attempts === "number" && entry.attempts > 0
+					? Math.floor(entry.attempts)
+					: 1,
+			firstFailedAt:
+				typeof entry.firstFailedAt === "string" ? entry.firstFailedAt : "",
+			nextRetryAt:
+				typeof entry.nextRetryAt === "string" ? entry.nextRetryAt : "",
+		};
+	}
+	return normalized;
+}
+
+function normalizeStringArray(value: unknown): string[] {
+	return Array.isArray(value)
+		? value.filter((item): item is string => typeof item === "string")
+		: [];
+}
+
+function normalizeQueuedNotes(value: unknown): Note[] {
+	return Array.isArray(value)
+		? value
+				.map(normalizeQueuedNote)
+				.filter((note): note is Note => note !== null)
+		: [];
+}
+
+export function normalizeCheckpoint(value: unknown): SyncCheckpoint | null {
+	if (!isJsonRecord(value) || typeof value.startedAt !== "string") {
+		return null;
+	}
+	const optionalString = (item: unknown): string | null =>
+		typeof item === "string" && item ? item : null;
+	return {
+		startedAt: value.startedAt,
+		since: optionalString(value.since),
+		includeDeleted: value.includeDeleted === true,
+		boxIds: Array.isArray(value.boxIds)
+			? normalizeStringArray(value.boxIds)
+			: null,
+		cursor: optionalString(value.cursor),
+		highWaterMark: optionalString(value.highWaterMark),
+		processedNoteIds: normalizeStringArray(value.processedNoteIds),
+		deferredDeletions: normalizeQueuedNotes(value.deferredDeletions),
+	};
+}
+
 function normalizeTypeFoldersSettings(value: unknown): TypeFoldersSettings {
 	const record = isJsonRecord(value) ? value : {};
 	const enabled =
@@ -74,6 +344,17 @@ function normalizeTypeFoldersSettings(value: unknown): TypeFoldersSettings {
 	return { enabled, note, material };
 }
 
+function normalizeTypeTemplatesSettings(value: unknown): TypeTemplatesSettings {
+	const record = isJsonRecord(value) ? value : {};
+	const text = (item: unknown, fallback: string): string =>
+		typeof item === "string" ? item : fallback;
+	return {
+		note: text(record.note, DEFAULT_TYPE_TEMPLATES_SETTINGS.note),
+		material: text(record.material, DEFAULT_TYPE_TEMPLATES_SETTINGS.material),
+		audio: text(record.audio, DEFAULT_TYPE_TEMPLATES_SETTINGS.audio),
+	};
+}
+
 function normalizeZettelBoxFoldersSettings(
 	value: unknown
 ): ZettelBoxFoldersSettings {
@@ -105,6 +386,187 @@ function normalizeSyncScopeSettings(value: unknown): SyncScopeSettings {
 	};
 }
 
+function normalizeAutoSyncSettings(value: unknown): AutoSyncSettings {
+	const record = isJsonRecord(value) ? value : {};
+	const intervalMinutes =
+		typeof record.intervalMinutes === "number" &&
+		Number.isFinite(record.intervalMinutes)
+			? Math.min(
+					MAX_AUTO_SYNC_INTERVAL_MINUTES,
+					Math.max(
+						MIN_AUTO_SYNC_INTERVAL_MINUTES,
+						Math.floor(record.intervalMinutes)
+					)
+				)
+			: DEFAULT_AUTO_SYNC_SETTINGS.intervalMinutes;
+	return {
+		intervalMinutes,
+		syncOnStartup:
+			typeof record.syncOnStartup === "boolean"
+				? record.syncOnStartup
+				: DEFAULT_AUTO_SYNC_SETTINGS.syncOnStartup,
+		syncOnFocus:
+			typeof record.syncOnFocus === "boolean"
+				? record.syncOnFocus
+				: DEFAULT_AUTO_SYNC_SETTINGS.syncOnFocus,
+	};
+}
+
+function normalizeAutoPushSettings(value: unknown): AutoPushSettings {
+	const record = isJsonRecord(value) ? value : {};
+	return {
+		enabled:
+			typeof record.enabled === "boolean"
+				? record.enabled
+				: DEFAULT_AUTO_PUSH_SETTINGS.enabled,
+		delaySeconds:
+			typeof record.delaySeconds === "number" &&
+			Number.isFinite(record.delaySeconds)
+				? Math.min(
+						MAX_AUTO_PUSH_DELAY_SECONDS,
+						Math.max(
+							MIN_AUTO_PUSH_DELAY_SECONDS,
+							Math.floor(record.delaySeconds)
+						)
+					)
+				: DEFAULT_AUTO_PUSH_SETTINGS.delaySeconds,
+	};
+}
+
+function normalizeProfiles(value: unknown): DinoxProfile[] {
+	if (!Array.isArray(value)) {
+		return [];
+	}
+	const profiles: DinoxProfile[] = [];
+	const seen = new Set<string>();
+	for (const entry of value) {
+		if (!isJsonRecord(entry)) {
+			continue;
+		}
+		const id = typeof entry.id === "string" ? entry.id.trim() : "";
+		if (!id || id === MAIN_PROFILE_ID || seen.has(id)) {
+			continue;
+		}
+		seen.add(id);
+		profiles.push({
+			id,
+			name: typeof entry.name === "string" ? entry.name.trim() : "",
+			token: typeof entry.token === "string" ? entry.token.trim() : "",
+			dir:
+				sanitizeRelativeFolderSubpath(entry.dir) ??
+				normalizePath(`${DEFAULT_SETTINGS.dir} ${profiles.length + 2}`),
+			template: typeof entry.template === "string" ? entry.template : "",
+			syncScope: normalizeSyncScopeSettings(entry.syncScope),
+		});
+	}
+	return profiles;
+}
+
+function normalizeRoutingRules(value: unknown): RoutingRule[] {
+	if (!Array.isArray(value)) {
+		return [];
+	}
+	const rules: RoutingRule[] = [];
+	for (const entry of value) {
+		if (!isJsonRecord(entry)) {
+			continue;
+		}
+		const field =
+			entry.field === "tag" ||
+			entry.field === "type" ||
+			entry.field === "zettelBox" ||
+			entry.field === "title" ||
+			entry.field === "content"
+				? entry.field
+				: "tag";
+		const text = (item: unknown): string =>
+			typeof item === "string" ? item : "";
+		rules.push({
+			enabled: typeof entry.enabled === "boolean" ? entry.enabled : true,
+			field,
+			pattern: text(entry.pattern).trim(),
+			folder: sanitizeRelativeFolderSubpath(entry.folder) ?? "",
+			template: text(entry.template),
+			filenameTemplate: text(entry.filenameTemplate),
+		});
+	}
+	return rules;
+}
+
+function normalizeDeletionGuardSettings(
+	value: unknown
+): DeletionGuardSettings {
+	const record = isJsonRecord(value) ? value : {};
+	const limit = (item: unknown, fallback: number): number =>
+		typeof item === "number" && Number.isFinite(item) && item >= 0
+			? Math.floor(item)
+			: fallback;
+	return {
+		enabled:
+			typeof record.enabled === "boolean"
+				? record.enabled
+				: DEFAULT_DELETION_GUARD_SETTINGS.enabled,
+		maxCount: limit(record.maxCount, DEFAULT_DELETION_GUARD_SETTINGS.maxCount),
+		maxPercent: limit(
+			record.maxPercent,
+			DEFAULT_DELETION_GUARD_SETTINGS.maxPercent
+		),
+	};
+}
+
+/** Vault folder paths, dropping entries that are not valid relative paths. */
+export function normalizeFolderList(value: unknown): string[] {
+	if (!Array.isArray(value)) {
+		return [];
+	}
+	const folders: string[] = [];
+	for (const item of value) {
+		const folder = sanitizeRelativeFolderSubpath(item);
+		if (folder && !folders.includes(folder)) {
+			folders.push(folder);
+		}
+	}
+	return folders;
+}
+
+function normalizeVaultLookupSettings(value: unknown): VaultLookupSettings {
+	const record = isJsonRecord(value) ? value : {};
+	return {
+		enabled:
+			typeof record.enabled === "boolean"
+				? record.enabled
+				: DEFAULT_VAULT_LOOKUP_SETTINGS.enabled,
+		includeFolders: normalizeFolderList(record.includeFolders),
+		excludeFolders: normalizeFolderList(record.excludeFolders),
+	};
+}
+
+/** A relative `.md` path, so a bare name like "Sync log" works too. */
+export function normalizeSyncReportPath(value: unknown): string | null {
+	const path = sanitizeRelativeFolderSubpath(value);
+	if (!path) {
+		return null;
+	}
+	return path.toLowerCase().endsWith(".md") ? path : `${path}.md`;
+}
+
+function normalizeSyncReportSettings(value: unknown): SyncReportSettings {
+	const record = isJsonRecord(value) ? value : {};
+	return {
+		enabled:
+			typeof record.enabled === "boolean"
+				? record.enabled
+				: DEFAULT_SYNC_REPORT_SETTINGS.enabled,
+		path:
+			normalizeSyncReportPath(record.path) ??
+			DEFAULT_SYNC_REPORT_SETTINGS.path,
+		mode:
+			record.mode === "append" || record.mode === "overwrite"
+				? record.mode
+				: DEFAULT_SYNC_REPORT_SETTINGS.mode,
+	};
+}
+
 function normalizeDailyNotesSettings(value: unknown): DailyNotesSettings {
 	const record = isJsonRecord(value) ? value : {};
 	const insertTo =
@@ -182,6 +644,8 @@ export function normalizeSettings(
 			typeof record.isAutoSync === "boolean"
 				? record.isAutoSync
 				: defaults.isAutoSync,
+		autoSync: normalizeAutoSyncSettings(record.autoSync ?? defaults.autoSync),
+		autoPush: normalizeAutoPushSettings(record.autoPush ?? defaults.autoPush),
 		dir: dir || defaults.dir,
 		typeFolders: normalizeTypeFoldersSettings(
 			record.typeFolders ?? defaults.typeFolders
@@ -192,10 +656,15 @@ export function normalizeSettings(
 		syncScope: normalizeSyncScopeSettings(
 			record.syncScope ?? defaults.syncScope
 		),
+		profiles: normalizeProfiles(record.profiles),
+		routingRules: normalizeRoutingRules(record.routingRules),
 		template:
 			typeof record.template === "string"
 				? record.template
 				: defaults.template,
+		typeTemplates: normalizeTypeTemplatesSettings(
+			record.typeTemplates ?? defaults.typeTemplates
+		),
 		filenameFormat,
 		filenameTemplate:
 			typeof record.filenameTemplate === "string" && record.filenameTemplate.trim()
@@ -207,6 +676,34 @@ export function normalizeSettings(
 			typeof record.preserveKeys === "string"
 				? record.preserveKeys
 				: defaults.preserveKeys,
+		conflictStrategy:
+			record.conflictStrategy === "merge" ||
+			record.conflictStrategy === "copy"
+				? record.conflictStrategy
+				: defaults.conflictStrategy,
+		deletionPolicy:
+			record.deletionPolicy === "trash" ||
+			record.deletionPolicy === "archive" ||
+			record.deletionPolicy === "mark" ||
+			record.deletionPolicy === "ignore"
+				? record.deletionPolicy
+				: defaults.deletionPolicy,
+		deletionArchiveFolder:
+			sanitizeRelativeFolderSubpath(record.deletionArchiveFolder) ??
+			defaults.deletionArchiveFolder,
+		deletionGuard: normalizeDeletionGuardSettings(
+			record.deletionGuard ?? defaults.deletionGuard
+		),
+		syncReport: normalizeSyncReportSettings(
+			record.syncReport ?? defaults.syncReport
+		),
+		pinMovedNotes:
+			typeof record.pinMovedNotes === "boolean"
+				? record.pinMovedNotes
+				: defaults.pinMovedNotes,
+		vaultLookup: normalizeVaultLookupSettings(
+			record.vaultLookup ?? defaults.vaultLookup
+		),
 		commandHotkeys: cloneHotkeyMap(rawCommandHotkeys),
 		dailyNotes: normalizeDailyNotesSettings(
 			record.dailyNotes ?? defaults.dailyNotes
@@ -223,9 +720,48 @@ function normalizeState(value: unknown): PersistedPluginState {
 	return {
 		lastSyncTime,
 		notePathById: normalizeNotePathById(record.notePathById),
+		syncedNotes: normalizeSyncedNotes(record.syncedNotes),
+		conflicts: normalizeConflicts(record.conflicts),
+		checkpoint: normalizeCheckpoint(record.checkpoint),
+		failedNotes: normalizeFailedNotes(record.failedNotes),
+		pinnedNoteIds: normalizeStringArray(record.pinnedNoteIds),
+		heldDeletions: normalizeQueuedNotes(record.heldDeletions),
+		scopeBoxIds: Array.isArray(record.scopeBoxIds)
+			? normalizeStringArray(record.scopeBoxIds)
+			: record.scopeBoxIds === null
+				? null
+				: undefined,
 	};
 }
 
+function normalizeProfileStates(
+	value: unknown
+): Record<string, ProfileSyncState> {
+	const states: Record<string, ProfileSyncState> = {};
+	if (!isJsonRecord(value)) {
+		return states;
+	}
+	for (const [profileId, entry] of Object.entries(value)) {
+		const {
+			lastSyncTime,
+			notePathById,
+			checkpoint,
+			failedNotes,
+			heldDeletions,
+			scopeBoxIds,
+		} = normalizeState(entry);
+		states[profileId] = {
+			lastSyncTime,
+			notePathById,
+			checkpoint,
+			failedNotes,
+			heldDeletions,
+			scopeBoxIds,
+		};
+	}
+	return states;
+}
+
 export function normalizePersistedData(
 	raw: unknown,
 	defaults: DinoPluginSettings = DEFAULT_SETTINGS
@@ -245,6 +781,7 @@ export function normalizePersistedData(
 			schemaVersion: PERSISTED_SCHEMA_VERSION,
 			settings,
 			state,
+			profileStates: normalizeProfileStates(record.profileStates),
 		};
 	}
 
@@ -265,7 +802,14 @@ export function normalizePersistedData(
 		state: {
 			lastSyncTime,
 			notePathById,
+			syncedNotes: {},
+			conflicts: [],
+			checkpoint: null,
+			failedNotes: {},
+			pinnedNoteIds: [],
+			heldDeletions: [],
 		},
+		profileStates: {},
 	};
 }
 
@@ -274,3 +818,25 @@ export function getNotePathByIdFromData(
 ): Record<string, string> {
 	return data.state.notePathById;
 }
+
+/** Sync position of a profile, created on first use. */
+export function getProfileSyncState(
+	data: PersistedPluginData,
+	profileId: string
+): ProfileSyncState {
+	if (profileId === MAIN_PROFILE_ID) {
+		return data.state;
+	}
+	let state = data.profileStates[profileId];
+	if (!state) {
+		state = {
+			lastSyncTime: DEFAULT_LAST_SYNC_TIME,
+			notePathById: {},
+			checkpoint: null,
+			failedNotes: {},
+			heldDeletions: [],
+		};
+		data.profileStates[profileId] = state;
+	}
+	return state;
+}
@@ -4,6 +4,16 @@ import type {
 	DinoHotkeySetting,
 	DinoCommandKey,
 } from "./types";
+import type {
+	FailedNoteRecord,
+	PersistedPluginData,
+} from "./persisted-data";
+import type { SyncOutcome, SyncTrigger } from "./auto-sync";
+import type { SyncProfile } from "./profiles";
+import type { SyncSession } from "./sync";
+import type { SyncBaseStore } from "./sync/base-store";
+import type { SyncJournal } from "./sync/journal";
+import type { LocalNoteIdCache } from "./sync/local-index";
 import type { TranslationKey, TranslationVars } from "../i18n";
 
 type MaybePromise<T> = T | Promise<T>;
@@ -12,10 +22,15 @@ export interface DinoPluginAPI extends Plugin {
 	settings: DinoPluginSettings;
 	defaults: Readonly<DinoPluginSettings>;
 	saveSettings(): Promise<void>;
-	setLastSyncTime(lastSyncTime: string): Promise<void>;
+	/** Resolves false when a sync is running and nothing was reset. */
+	setLastSyncTime(lastSyncTime: string): Promise<boolean>;
 	cancelHotkeyCapture(restoreLabel: boolean): void;
 	refreshLocale(): void;
 	refreshAutoSyncSchedule(): void;
+	refreshAutoPush(): void;
+	syncNotes(trigger?: SyncTrigger, profileId?: string): Promise<SyncOutcome>;
+	getFailedNotes(): Promise<FailedNoteRecord[]>;
+	retryFailedNotes(): Promise<void>;
 	getHotkeyDisplay(commandKey: DinoCommandKey): string;
 	applyHotkeySetting(
 		commandKey: DinoCommandKey,
@@ -29,3 +44,27 @@ export interface DinoPluginAPI extends Plugin {
 	): void;
 	t(key: TranslationKey, vars?: TranslationVars): string;
 }
+
+/** What the sync, push and maintenance commands in src/sync run on. */
+export interface DinoSyncHost extends DinoPluginAPI {
+	/** Set while a sync or another command that writes notes runs. */
+	isSyncing: boolean;
+	statusBarItemEl: HTMLElement;
+	setStatusBarSyncingState(isSyncing: boolean): void;
+	/** Checks that must pass before a run starts; shows a notice if not. */
+	canStartSync(settings?: DinoPluginSettings): boolean;
+	getSyncProfiles(): SyncProfile[];
+	/** The profile whose folder holds the path; the main profile otherwise. */
+	getProfileForPath(path: string | undefined): SyncProfile;
+	/**
+	 * Load, change and save data.json behind every earlier update. The
+	 * update returns whether to save.
+	 */
+	updatePersistedData(
+		update: (persisted: PersistedPluginData) => Promise<boolean> | boolean
+	): Promise<void>;
+	getSyncBaseStore(): Promise<SyncBaseStore>;
+	getLocalNoteIdCache(): Promise<LocalNoteIdCache>;
+	getSyncJournal(): Promise<SyncJournal>;
+	flushSessionDailyNotes(session: SyncSession): Promise<void>;
+}
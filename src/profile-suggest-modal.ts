@@ -0,0 +1,34 @@
+import { App, FuzzySuggestModal } from "obsidian";
+import type { SyncProfile } from "./profiles";
+
+/** Picks one profile, e.g. to sync it on its own. */
+export class ProfileSuggestModal extends FuzzySuggestModal<SyncProfile> {
+	private readonly profiles: SyncProfile[];
+	private readonly onChoose: (profile: SyncProfile) => void;
+
+	constructor(
+		app: App,
+		args: {
+			profiles: SyncProfile[];
+			placeholder: string;
+			onChoose: (profile: SyncProfile) => void;
+		}
+	) {
+		super(app);
+		this.profiles = args.profiles;
+		this.onChoose = args.onChoose;
+		this.setPlaceholder(args.placeholder);
+	}
+
+	getItems(): SyncProfile[] {
+		return this.profiles;
+	}
+
+	getItemText(profile: SyncProfile): string {
+		return `${profile.name} (${profile.settings.dir})`;
+	}
+
+	onChooseItem(profile: SyncProfile): void {
+		this.onChoose(profile);
+	}
+}
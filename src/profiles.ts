@@ -0,0 +1,74 @@
+import { normalizePath } from "obsidian";
+import { MAIN_PROFILE_ID } from "./constants";
+import type { DinoPluginSettings } from "./types";
+import type { TranslationKey, TranslationVars } from "../i18n";
+
+type TFunction = (key: TranslationKey, vars?: TranslationVars) => string;
+
+/** A profile with its overrides applied on top of the shared settings. */
+export interface SyncProfile {
+	id: string;
+	name: string;
+	settings: DinoPluginSettings;
+}
+
+/** Outcome of a profile's most recent sync, shown in the status bar tooltip. */
+export interface ProfileSyncResult {
+	name: string;
+	ok: boolean;
+	processed: number;
+	deleted: number;
+	error: string | null;
+	finishedAt: number;
+}
+
+export function resolveSyncProfiles(
+	settings: DinoPluginSettings,
+	t: TFunction
+): SyncProfile[] {
+	return [
+		{ id: MAIN_PROFILE_ID, name: t("profile.mainName"), settings },
+		...settings.profiles.map((profile, index) => ({
+			id: profile.id,
+			name: profile.name || t("profile.unnamed", { index: index + 2 }),
+			settings: {
+				...settings,
+				token: profile.token,
+				dir: profile.dir,
+				template: profile.template.trim()
+					? profile.template
+					: settings.template,
+				// The shared type templates would otherwise win over a
+				// template set for the profile itself.
+				typeTemplates: profile.template.trim()
+					? { note: "", material: "", audio: "" }
+					: settings.typeTemplates,
+				syncScope: profile.syncScope,
+			},
+		})),
+	];
+}
+
+/** The profile whose folder contains `path`; the innermost folder wins. */
+export function findProfileForPath(
+	profiles: SyncProfile[],
+	path: string
+): SyncProfile | null {
+	let best: SyncProfile | null = null;
+	for (const profile of profiles) {
+		const dir = normalizePath(profile.settings.dir);
+		if (
+			path.startsWith(`${dir}/`) &&
+			(!best || dir.length > normalizePath(best.settings.dir).length)
+		) {
+			best = profile;
+		}
+	}
+	return best;
+}
+
+export function createProfileId(): string {
+	return `profile-${Date.now().toString(36)}-${Math.random()
+		.toString(36)
+		.slice(2, 8)}`;
+}
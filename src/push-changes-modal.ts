@@ -0,0 +1,98 @@
+import { App, Modal, Setting } from "obsidian";
+import type { TranslationKey, TranslationVars } from "../i18n";
+
+type TFunction = (key: TranslationKey, vars?: TranslationVars) => string;
+
+/**
+ * Lists the locally changed notes, pushes them once confirmed and shows the
+ * result of each one as it comes in.
+ */
+export class PushChangesModal extends Modal {
+	private readonly t: TFunction;
+	private readonly paths: string[];
+	private readonly onPush: (
+		onResult: (index: number, error: string | null) => void
+	) => Promise<boolean>;
+
+	constructor(
+		app: App,
+		args: {
+			t: TFunction;
+			paths: string[];
+			/**
+			 * Pushes every note in order, reporting each result by index.
+			 * Resolves false when the push could not start, e.g. during a sync.
+			 */
+			onPush: (
+				onResult: (index: number, error: string | null) => void
+			) => Promise<boolean>;
+		}
+	) {
+		super(app);
+		this.t = args.t;
+		this.paths = args.paths;
+		this.onPush = args.onPush;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		const t = this.t;
+		this.setTitle(t("pushChanges.title"));
+
+		const descEl = contentEl.createEl("p", {
+			text: t("pushChanges.desc", { count: this.paths.length }),
+		});
+
+		const listEl = contentEl.createDiv({ cls: "dinox-plan-list" });
+		const statusEls: HTMLElement[] = [];
+		for (const path of this.paths) {
+			const row = listEl.createDiv({ cls: "dinox-plan-row" });
+			row.createSpan({ cls: "dinox-plan-path", text: path });
+			statusEls.push(row.createSpan({ cls: "dinox-modal-desc" }));
+		}
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText(
+						t("pushChanges.confirm", { count: this.paths.length })
+					)
+					.setCta()
+					.onClick(async () => {
+						btn.setDisabled(true);
+						let done = 0;
+						let failed = 0;
+						const started = await this.onPush((index, error) => {
+							done++;
+							if (error) {
+								failed++;
+								statusEls[index]?.setText(
+									t("pushChanges.failed", { error })
+								);
+							} else {
+								statusEls[index]?.setText(t("pushChanges.pushed"));
+							}
+							descEl.setText(
+								t("pushChanges.progress", {
+									done,
+									total: this.paths.length,
+									failed,
+								})
+							);
+						});
+						if (!started) {
+							btn.setDisabled(false);
+							return;
+						}
+						btn.setButtonText(t("pushChanges.finished"));
+					})
+			)
+			.addButton((btn) =>
+				btn.setButtonText(t("pushChanges.close")).onClick(() => this.close())
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
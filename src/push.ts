@@ -138,12 +138,62 @@ export async function createNoteToDinox(args: {
 	);
 }
 
+/** What an update sends for a note, read from its markdown. */
+function readNoteUpdate(
+	app: App,
+	file: TFile,
+	content: string
+): { noteId: string | undefined; body: string; tags: string[]; title: string } {
+	const split = splitFrontmatter(content);
+	return {
+		noteId:
+			extractFrontmatterScalar(split.frontmatter, "noteId") ??
+			extractFrontmatterScalar(split.frontmatter, "source_app_id") ??
+			getNoteIdFromFrontmatter(app.metadataCache.getFileCache(file)?.frontmatter),
+		body: split.body,
+		tags: extractAllTagsFromMarkdown(content),
+		title:
+			extractFrontmatterScalar(split.frontmatter, "title") ||
+			file.basename ||
+			"Untitled",
+	};
+}
+
+/**
+ * Push a file without notices, for background pushes. Resolves null when the
+ * file has no noteId; API errors are left to the caller.
+ */
+export async function pushFileToDinox(args: {
+	app: App;
+	token: string;
+	file: TFile;
+	content: string;
+}): Promise<{ noteId: string; body: string; content: string } | null> {
+	const update = readNoteUpdate(args.app, args.file, args.content);
+	if (!update.noteId) {
+		return null;
+	}
+	await updateDinoxNote({
+		token: args.token,
+		noteId: update.noteId,
+		contentMd: update.body,
+		tags: update.tags,
+		title: update.title,
+	});
+	return { noteId: update.noteId, body: update.body, content: args.content };
+}
+
 export async function syncNoteToDinox(args: {
 	app: App;
 	token: string;
 	t: TFunction;
 	editor: Editor;
 	file: TFile;
+	onPushed?: (pushed: {
+		noteId: string;
+		body: string;
+		content: string;
+	}) => Promise<void>;
 }): Promise<void> {
 	if (!args.token) {
 		new Notice(args.t("notice.tokenMissing"));
@@ -153,35 +203,38 @@ export async function syncNoteToDinox(args: {
 	new Notice(args.t("notice.syncingNote"));
 
 	const editorContent = args.editor.getValue();
-	const split = splitFrontmatter(editorContent);
-	const noteId =
-		extractFrontmatterScalar(split.frontmatter, "noteId") ??
-		extractFrontmatterScalar(split.frontmatter, "source_app_id") ??
-		getNoteIdFromFrontmatter(
-			args.app.metadataCache.getFileCache(args.file)?.frontmatter
-		);
+	const { noteId, body: contentToSync, tags, title } = readNoteUpdate(
+		args.app,
+		args.file,
+		editorContent
+	);
 
 	if (!noteId) {
 		new Notice(args.t("notice.syncNoId"));
 		return;
 	}
 
-	const contentToSync = split.body;
-	const allTags = extractAllTagsFromMarkdown(editorContent);
-	const title =
-		extractFrontmatterScalar(split.frontmatter, "title") ||
-		args.file.basename ||
-		"Untitled";
-
 	try {
 		await updateDinoxNote({
 			token: args.token,
 			noteId,
 			contentMd: contentToSync,
-			tags: allTags,
+			tags,
 			title,
 		});
 
+		if (args.onPushed) {
+			try {
+				await args.onPushed({
+					noteId,
+					body: contentToSync,
+					content: editorContent,
+				});
+			} catch (error) {
+				console.error("Dinox: Failed to record pushed note:", error);
+			}
+		}
+
 		new Notice(
 			args.t("notice.syncNoteSuccess", {
 				noteId: noteId.substring(0, 8),
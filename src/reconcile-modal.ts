@@ -0,0 +1,131 @@
+import { App, Modal, Setting } from "obsidian";
+import type { ReconcileReport } from "./sync/reconcile";
+import type { TranslationKey, TranslationVars } from "../i18n";
+
+type TFunction = (key: TranslationKey, vars?: TranslationVars) => string;
+
+// Long lists are cut off; the fix still applies to every entry.
+const MAX_LISTED = 50;
+
+/** Report of the drift between the vault and Dinox, with one fix per category. */
+export class ReconcileModal extends Modal {
+	private readonly t: TFunction;
+	private readonly report: ReconcileReport;
+	private readonly onFixOrphaned: () => Promise<boolean>;
+	private readonly onFixMissing: () => Promise<boolean>;
+	private readonly onFixStale: () => Promise<boolean>;
+
+	constructor(
+		app: App,
+		args: {
+			t: TFunction;
+			report: ReconcileReport;
+			onFixOrphaned: () => Promise<boolean>;
+			onFixMissing: () => Promise<boolean>;
+			onFixStale: () => Promise<boolean>;
+		}
+	) {
+		super(app);
+		this.t = args.t;
+		this.report = args.report;
+		this.onFixOrphaned = args.onFixOrphaned;
+		this.onFixMissing = args.onFixMissing;
+		this.onFixStale = args.onFixStale;
+	}
+
+	onOpen(): void {
+		const { contentEl, report } = this;
+		const t = this.t;
+		this.setTitle(t("reconcile.title"));
+
+		contentEl.createEl("p", {
+			text: t("reconcile.summary", {
+				remote: report.remoteCount,
+				local: report.localCount,
+			}),
+		});
+
+		if (
+			report.orphaned.length === 0 &&
+			report.missing.length === 0 &&
+			report.staleMappings.length === 0
+		) {
+			contentEl.createEl("p", { text: t("reconcile.clean") });
+			return;
+		}
+
+		this.renderSection({
+			name: t("reconcile.orphaned.name", { count: report.orphaned.length }),
+			desc: t("reconcile.orphaned.desc"),
+			fixLabel: t("reconcile.orphaned.fix"),
+			lines: report.orphaned.map((entry) => entry.path),
+			onFix: this.onFixOrphaned,
+			warning: true,
+		});
+		this.renderSection({
+			name: t("reconcile.missing.name", { count: report.missing.length }),
+			desc: t("reconcile.missing.desc"),
+			fixLabel: t("reconcile.missing.fix"),
+			lines: report.missing.map((note) => note.title || note.noteId),
+			onFix: this.onFixMissing,
+		});
+		this.renderSection({
+			name: t("reconcile.stale.name", {
+				count: report.staleMappings.length,
+			}),
+			desc: t("reconcile.stale.desc"),
+			fixLabel: t("reconcile.stale.fix"),
+			lines: report.staleMappings.map((entry) =>
+				entry.actualPath ? `${entry.path} → ${entry.actualPath}` : entry.path
+			),
+			onFix: this.onFixStale,
+		});
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private renderSection(args: {
+		name: string;
+		desc: string;
+		fixLabel: string;
+		lines: string[];
+		onFix: () => Promise<boolean>;
+		warning?: boolean;
+	}): void {
+		if (args.lines.length === 0) {
+			return;
+		}
+		const { contentEl } = this;
+		new Setting(contentEl)
+			.setName(args.name)
+			.setDesc(args.desc)
+			.addButton((btn) => {
+				btn.setButtonText(args.fixLabel).onClick(async () => {
+					btn.setDisabled(true);
+					if (await args.onFix()) {
+						btn.setButtonText(this.t("reconcile.fixed"));
+					} else {
+						btn.setDisabled(false);
+					}
+				});
+				if (args.warning) {
+					btn.setWarning();
+				}
+			});
+
+		const listEl = contentEl.createDiv({ cls: "dinox-plan-list" });
+		for (const line of args.lines.slice(0, MAX_LISTED)) {
+			listEl.createDiv({ cls: "dinox-plan-path", text: line });
+		}
+		if (args.lines.length > MAX_LISTED) {
+			listEl.createDiv({
+				cls: "dinox-modal-desc",
+				text: this.t("reconcile.more", {
+					count: args.lines.length - MAX_LISTED,
+				}),
+			});
+		}
+	}
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { findRoutingRule, validateRoutingPattern } from "./routing-rules";
+import type { Note, RoutingRule } from "./types";
+
+function note(overrides: Partial<Note> = {}): Note {
+	return {
+		noteId: "n1",
+		title: "Weekly review",
+		content: "",
+		createTime: "2026-01-01 00:00",
+		isDel: false,
+		...overrides,
+	};
+}
+
+function rule(
+	field: RoutingRule["field"],
+	pattern: string,
+	overrides: Partial<RoutingRule> = {}
+): RoutingRule {
+	return {
+		enabled: true,
+		field,
+		pattern,
+		folder: `${field}-folder`,
+		template: "",
+		filenameTemplate: "",
+		...overrides,
+	};
+}
+
+describe("findRoutingRule", () => {
+	it("matches a tag and its sub-tags, ignoring case and a leading #", () => {
+		const byTag = rule("tag", "#Project");
+		expect(findRoutingRule(note({ tags: ["project"] }), [byTag])).toBe(byTag);
+		expect(findRoutingRule(note({ tags: ["project/dinox"] }), [byTag])).toBe(
+			byTag
+		);
+		expect(findRoutingRule(note({ tags: ["projects"] }), [byTag])).toBeNull();
+	});
+
+	it("reads tags from frontmatter when the note has none of its own", () => {
+		const byTag = rule("tag", "work");
+		const content = "---\ntags:\n  - work\n---\nbody";
+		expect(findRoutingRule(note({ content }), [byTag])).toBe(byTag);
+	});
+
+	it("compares the note type case-insensitively", () => {
+		const byType = rule("type", "Crawl");
+		expect(findRoutingRule(note({ type: "crawl" }), [byType])).toBe(byType);
+		expect(findRoutingRule(note({ type: "note" }), [byType])).toBeNull();
+	});
+
+	it("matches a zettel box and the boxes below it", () => {
+		const byBox = rule("zettelBox", "/Research/AI/");
+		expect(
+			findRoutingRule(note({ zettelBoxes: [{ path: "Research/AI/LLM" }] }), [
+				byBox,
+			])
+		).toBe(byBox);
+		expect(
+			findRoutingRule(note({ zettelBoxes: [{ path: "Research/AIM" }] }), [
+				byBox,
+			])
+		).toBeNull();
+	});
+
+	it("tests title and content patterns as case-insensitive regexes", () => {
+		const byTitle = rule("title", "^weekly");
+		const byContent = rule("content", "todo\\s*:");
+		expect(findRoutingRule(note(), [byTitle])).toBe(byTitle);
+		expect(
+			findRoutingRule(note({ content: "TODO: ship it" }), [byContent])
+		).toBe(byContent);
+	});
+
+	it("returns the first enabled match", () => {
+		const disabled = rule("title", "weekly", { enabled: false });
+		const first = rule("title", "review");
+		const second = rule("title", "weekly");
+		expect(findRoutingRule(note(), [disabled, first, second])).toBe(first);
+	});
+
+	it("skips rules with an empty or invalid pattern", () => {
+		expect(
+			findRoutingRule(note(), [rule("title", "  "), rule("title", "(")])
+		).toBeNull();
+	});
+});
+
+describe("validateRoutingPattern", () => {
+	it("reports a regex that does not compile", () => {
+		expect(validateRoutingPattern(rule("title", "("))).toEqual(
+			expect.any(String)
+		);
+		expect(validateRoutingPattern(rule("content", "a+"))).toBeNull();
+	});
+
+	it("does not treat tag, type and box patterns as regexes", () => {
+		expect(validateRoutingPattern(rule("tag", "("))).toBeNull();
+	});
+});
@@ -0,0 +1,91 @@
+import {
+	extractFrontmatterScalar,
+	extractFrontmatterTags,
+	splitFrontmatter,
+} from "./markdown";
+import { normalizeTypeValue } from "./type-folders";
+import type { Note, RoutingRule } from "./types";
+import { listZettelBoxPaths } from "./zettel-box-folders";
+
+export function getNoteTypeForRouting(noteData: Note): string | null {
+	if (typeof noteData.type === "string") {
+		return noteData.type;
+	}
+
+	// Fallback for API responses that only embed `type` into markdown content via template.
+	const split = splitFrontmatter(noteData.content ?? "");
+	return extractFrontmatterScalar(split.frontmatter, "type");
+}
+
+function getNoteTags(noteData: Note): string[] {
+	if (Array.isArray(noteData.tags)) {
+		return noteData.tags;
+	}
+	// Notes rebuilt from a local file only carry their tags in frontmatter.
+	return extractFrontmatterTags(splitFrontmatter(noteData.content ?? "").frontmatter);
+}
+
+function normalizeTag(value: string): string {
+	return value.trim().replace(/^#/, "").toLowerCase();
+}
+
+// "a/b" matches "a/b" and everything below it, like nested tags and boxes do.
+function matchesHierarchy(value: string, pattern: string): boolean {
+	return value === pattern || value.startsWith(`${pattern}/`);
+}
+
+/** Error message for a title/content rule whose pattern does not compile. */
+export function validateRoutingPattern(rule: RoutingRule): string | null {
+	if (rule.field !== "title" && rule.field !== "content") {
+		return null;
+	}
+	try {
+		new RegExp(rule.pattern, "i");
+		return null;
+	} catch (error) {
+		return error instanceof Error ? error.message : String(error);
+	}
+}
+
+function matchesRule(noteData: Note, rule: RoutingRule): boolean {
+	const pattern = rule.pattern.trim();
+	if (!pattern) {
+		return false;
+	}
+	switch (rule.field) {
+		case "tag": {
+			const wanted = normalizeTag(pattern);
+			return getNoteTags(noteData).some((tag) =>
+				matchesHierarchy(normalizeTag(tag), wanted)
+			);
+		}
+		case "type":
+			return (
+				normalizeTypeValue(getNoteTypeForRouting(noteData)) ===
+				normalizeTypeValue(pattern)
+			);
+		case "zettelBox": {
+			const wanted = pattern.replace(/^\/+|\/+$/g, "");
+			return listZettelBoxPaths(noteData).some((path) =>
+				matchesHierarchy(path, wanted)
+			);
+		}
+		case "title":
+		case "content": {
+			if (validateRoutingPattern(rule) !== null) {
+				return false;
+			}
+			const text =
+				rule.field === "title" ? noteData.title ?? "" : noteData.content ?? "";
+			return new RegExp(pattern, "i").test(text);
+		}
+	}
+}
+
+/** The first enabled rule matching the note, or null to use the regular settings. */
+export function findRoutingRule(
+	noteData: Note,
+	rules: RoutingRule[]
+): RoutingRule | null {
+	return rules.find((rule) => rule.enabled && matchesRule(noteData, rule)) ?? null;
+}
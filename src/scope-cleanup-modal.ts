@@ -0,0 +1,84 @@
+import { App, Modal, Setting } from "obsidian";
+import type { TranslationKey, TranslationVars } from "../i18n";
+
+type TFunction = (key: TranslationKey, vars?: TranslationVars) => string;
+
+export type ScopeCleanupChoice = "archive" | "trash" | "keep";
+
+/**
+ * Asks what to do with local notes Dinox no longer delivers: shown when card
+ * boxes left the sync scope, and when a reconcile removes notes missing in
+ * Dinox while the deletion policy leaves them alone. Closing the modal keeps
+ * the notes.
+ */
+export class ScopeCleanupModal extends Modal {
+	private readonly t: TFunction;
+	private readonly title: string;
+	private readonly desc: string;
+	private readonly paths: string[];
+	private readonly onResolve: (choice: ScopeCleanupChoice) => void;
+	private resolved = false;
+
+	constructor(
+		app: App,
+		args: {
+			t: TFunction;
+			title: string;
+			desc: string;
+			paths: string[];
+			onResolve: (choice: ScopeCleanupChoice) => void;
+		}
+	) {
+		super(app);
+		this.t = args.t;
+		this.title = args.title;
+		this.desc = args.desc;
+		this.paths = args.paths;
+		this.onResolve = args.onResolve;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		const t = this.t;
+		this.setTitle(this.title);
+		contentEl.createEl("p", { text: this.desc });
+
+		const listEl = contentEl.createDiv({ cls: "dinox-plan-list" });
+		for (const path of this.paths) {
+			listEl.createDiv({ cls: "dinox-plan-path", text: path });
+		}
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText(t("scopeCleanup.archive"))
+					.onClick(() => this.finish("archive"))
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText(t("scopeCleanup.trash"))
+					.setWarning()
+					.onClick(() => this.finish("trash"))
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText(t("scopeCleanup.keep"))
+					.setCta()
+					.onClick(() => this.finish("keep"))
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+		if (!this.resolved) {
+			this.resolved = true;
+			this.onResolve("keep");
+		}
+	}
+
+	private finish(choice: ScopeCleanupChoice): void {
+		this.resolved = true;
+		this.onResolve(choice);
+		this.close();
+	}
+}
@@ -1,51 +1,42 @@
 import {
 	App,
-	Modal,
 	Notice,
 	PluginSettingTab,
 	Setting,
 	ButtonComponent,
+	TextComponent,
 } from "obsidian";
-import { DEFAULT_LAST_SYNC_TIME, DEFAULT_TEMPLATE_TEXT } from "./constants";
+import {
+	DEFAULT_LAST_SYNC_TIME,
+	DEFAULT_SYNC_REPORT_SETTINGS,
+	DEFAULT_TEMPLATE_TEXT,
+	MAX_AUTO_PUSH_DELAY_SECONDS,
+	MAX_AUTO_SYNC_INTERVAL_MINUTES,
+	MIN_AUTO_PUSH_DELAY_SECONDS,
+	MIN_AUTO_SYNC_INTERVAL_MINUTES,
+} from "./constants";
 import { validateTemplate } from "./template";
 import { sanitizeRelativeFolderSubpath } from "./type-folders";
 import { fetchZettelBoxes } from "./api";
 import { getErrorMessage } from "./utils";
-import type { DinoCommandKey, DinoHotkeySetting, ZettelBoxNode } from "./types";
+import {
+	normalizeFolderList,
+	normalizeSyncReportPath,
+} from "./persisted-data";
+import { createProfileId } from "./profiles";
+import { validateRoutingPattern } from "./routing-rules";
+import type {
+	DeletionPolicy,
+	DinoCommandKey,
+	DinoHotkeySetting,
+	RoutingRuleField,
+	SyncReportSettings,
+	SyncScopeSettings,
+	TypeTemplatesSettings,
+	ZettelBoxNode,
+} from "./types";
 import type { DinoPluginAPI } from "./plugin-types";
-
-class ConfirmModal extends Modal {
-	private readonly message: string;
-	private readonly onConfirm: () => void | Promise<void>;
-
-	constructor(app: App, message: string, onConfirm: () => void | Promise<void>) {
-		super(app);
-		this.message = message;
-		this.onConfirm = onConfirm;
-	}
-
-	onOpen(): void {
-		const { contentEl } = this;
-		contentEl.createEl("p", { text: this.message });
-		new Setting(contentEl)
-			.addButton((btn) =>
-				btn
-					.setButtonText("Confirm")
-					.setWarning()
-					.onClick(() => {
-						this.close();
-						void this.onConfirm();
-					})
-			)
-			.addButton((btn) =>
-				btn.setButtonText("Cancel").onClick(() => this.close())
-			);
-	}
-
-	onClose(): void {
-		this.contentEl.empty();
-	}
-}
+import { ConfirmModal } from "./confirm-modal";
 
 function addHeading(containerEl: HTMLElement, text: string): void {
 	new Setting(containerEl)
@@ -56,8 +47,9 @@ function addHeading(containerEl: HTMLElement, text: string): void {
 export class DinoSettingTab extends PluginSettingTab {
 	private readonly plugin: DinoPluginAPI;
 	private readonly t: (key: Parameters<DinoPluginAPI["t"]>[0], vars?: Parameters<DinoPluginAPI["t"]>[1]) => string;
-	// Cached card-box list so toggling checkboxes does not refetch each time.
-	private zettelBoxCache: ZettelBoxNode[] | null = null;
+	// Cached card-box lists per token so toggling checkboxes does not refetch
+	// each time.
+	private zettelBoxCache = new Map<string, ZettelBoxNode[]>();
 
 	constructor(app: App, plugin: DinoPluginAPI) {
 		super(app, plugin);
@@ -66,24 +58,369 @@ export class DinoSettingTab extends PluginSettingTab {
 	}
 
 	private renderSyncScopeSection(containerEl: HTMLElement): void {
-		const t = this.t;
-		addHeading(containerEl, t("settings.section.syncScope"));
+		addHeading(containerEl, this.t("settings.section.syncScope"));
+		this.renderSyncScopeControls(
+			containerEl,
+			this.plugin.settings.syncScope,
+			this.plugin.settings.token
+		);
+	}
 
+	private renderTypeTemplateSetting(
+		containerEl: HTMLElement,
+		category: keyof TypeTemplatesSettings,
+		name: string
+	): void {
 		new Setting(containerEl)
-			.setName(t("settings.syncScope.enable.name"))
-			.setDesc(t("settings.syncScope.enable.desc"))
-			.addToggle((toggle) =>
-				toggle
-					.setValue(this.plugin.settings.syncScope.enabled)
+			.setName(name)
+			.setDesc(this.t("settings.typeTemplates.desc"))
+			.addTextArea((text) => {
+				text
+					.setValue(this.plugin.settings.typeTemplates[category])
 					.onChange(async (value) => {
-						this.plugin.settings.syncScope.enabled = value;
+						// Same rule as the main template: flag and keep the last
+						// valid version until the syntax is fixed.
+						const isInvalid =
+							value.trim() !== "" && validateTemplate(value) !== null;
+						text.inputEl.toggleClass(
+							"dino-sync-template-invalid",
+							isInvalid
+						);
+						if (isInvalid) {
+							return;
+						}
+						this.plugin.settings.typeTemplates[category] = value;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 6;
+				text.inputEl.cols = 60;
+				text.inputEl.classList.add("dino-sync-template-setting");
+			});
+	}
+
+	private renderRoutingRulesSection(containerEl: HTMLElement): void {
+		const t = this.t;
+		addHeading(containerEl, t("settings.section.routingRules"));
+
+		new Setting(containerEl)
+			.setDesc(t("settings.routingRules.desc"))
+			.addButton((button) =>
+				button
+					.setButtonText(t("settings.routingRules.add"))
+					.onClick(async () => {
+						this.plugin.settings.routingRules.push({
+							enabled: true,
+							field: "tag",
+							pattern: "",
+							folder: "",
+							template: "",
+							filenameTemplate: "",
+						});
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		const rules = this.plugin.settings.routingRules;
+		const moveRule = async (from: number, to: number): Promise<void> => {
+			const [rule] = rules.splice(from, 1);
+			rules.splice(to, 0, rule);
+			await this.plugin.saveSettings();
+			this.display();
+		};
+
+		rules.forEach((rule, index) => {
+			new Setting(containerEl)
+				.setName(t("settings.routingRules.rule", { index: index + 1 }))
+				.setHeading()
+				.addToggle((toggle) =>
+					toggle.setValue(rule.enabled).onChange(async (value) => {
+						rule.enabled = value;
+						await this.plugin.saveSettings();
+					})
+				)
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("arrow-up")
+						.setTooltip(t("settings.routingRules.moveUp"))
+						.setDisabled(index === 0)
+						.onClick(() => void moveRule(index, index - 1))
+				)
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("arrow-down")
+						.setTooltip(t("settings.routingRules.moveDown"))
+						.setDisabled(index === rules.length - 1)
+						.onClick(() => void moveRule(index, index + 1))
+				)
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("trash")
+						.setTooltip(t("settings.routingRules.remove"))
+						.onClick(async () => {
+							rules.splice(index, 1);
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				);
+
+			let patternInput: TextComponent;
+			const updatePatternValidity = (): void => {
+				patternInput.inputEl.toggleClass(
+					"dino-sync-template-invalid",
+					validateRoutingPattern(rule) !== null
+				);
+			};
+			new Setting(containerEl)
+				.setName(t("settings.routingRules.match.name"))
+				.setDesc(t("settings.routingRules.match.desc"))
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption("tag", t("settings.routingRules.field.tag"))
+						.addOption("type", t("settings.routingRules.field.type"))
+						.addOption(
+							"zettelBox",
+							t("settings.routingRules.field.zettelBox")
+						)
+						.addOption("title", t("settings.routingRules.field.title"))
+						.addOption(
+							"content",
+							t("settings.routingRules.field.content")
+						)
+						.setValue(rule.field)
+						.onChange(async (value: RoutingRuleField) => {
+							rule.field = value;
+							updatePatternValidity();
+							await this.plugin.saveSettings();
+						})
+				)
+				.addText((text) => {
+					patternInput = text;
+					text
+						.setPlaceholder(t("settings.routingRules.pattern.placeholder"))
+						.setValue(rule.pattern)
+						.onChange(async (value) => {
+							// An invalid regex is kept so it can be fixed, but it
+							// never matches (see routing-rules.ts).
+							rule.pattern = value.trim();
+							updatePatternValidity();
+							await this.plugin.saveSettings();
+						});
+					updatePatternValidity();
+				});
+
+			new Setting(containerEl)
+				.setName(t("settings.routingRules.folder.name"))
+				.setDesc(t("settings.routingRules.folder.desc"))
+				.addText((text) =>
+					text
+						.setPlaceholder(t("settings.routingRules.folder.placeholder"))
+						.setValue(rule.folder)
+						.onChange(async (value) => {
+							const sanitized = sanitizeRelativeFolderSubpath(value);
+							if (value.trim() !== "" && sanitized === null) {
+								new Notice(t("notice.typeFoldersInvalidReverted"));
+								return;
+							}
+							rule.folder = sanitized ?? "";
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName(t("settings.routingRules.filename.name"))
+				.setDesc(t("settings.routingRules.filename.desc"))
+				.addText((text) =>
+					text
+						.setPlaceholder(t("settings.filename.template.placeholder"))
+						.setValue(rule.filenameTemplate)
+						.onChange(async (value) => {
+							rule.filenameTemplate = value.trim();
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName(t("settings.template.name"))
+				.setDesc(t("settings.profiles.template.desc"))
+				.addTextArea((text) => {
+					text
+						.setPlaceholder(DEFAULT_TEMPLATE_TEXT)
+						.setValue(rule.template)
+						.onChange(async (value) => {
+							const isInvalid =
+								value.trim() !== "" && validateTemplate(value) !== null;
+							text.inputEl.toggleClass(
+								"dino-sync-template-invalid",
+								isInvalid
+							);
+							if (isInvalid) {
+								return;
+							}
+							rule.template = value;
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.rows = 6;
+					text.inputEl.cols = 60;
+					text.inputEl.classList.add("dino-sync-template-setting");
+				});
+		});
+	}
+
+	private renderProfilesSection(containerEl: HTMLElement): void {
+		const t = this.t;
+		addHeading(containerEl, t("settings.section.profiles"));
+
+		new Setting(containerEl)
+			.setDesc(t("settings.profiles.desc"))
+			.addButton((button) =>
+				button
+					.setButtonText(t("settings.profiles.add"))
+					.onClick(async () => {
+						const profiles = this.plugin.settings.profiles;
+						profiles.push({
+							id: createProfileId(),
+							name: "",
+							token: "",
+							dir: `${this.plugin.defaults.dir} ${profiles.length + 2}`,
+							template: "",
+							syncScope: { enabled: false, selectedBoxIds: [] },
+						});
 						await this.plugin.saveSettings();
-						// Re-render so the box picker shows/hides.
 						this.display();
 					})
 			);
 
-		if (!this.plugin.settings.syncScope.enabled) {
+		this.plugin.settings.profiles.forEach((profile, index) => {
+			const label =
+				profile.name || t("profile.unnamed", { index: index + 2 });
+
+			new Setting(containerEl)
+				.setName(label)
+				.setHeading()
+				.addButton((button) =>
+					button
+						.setButtonText(t("settings.profiles.syncNow"))
+						.onClick(() => {
+							void this.plugin.syncNotes("manual", profile.id);
+						})
+				)
+				.addButton((button) =>
+					button
+						.setButtonText(t("settings.profiles.remove"))
+						.setWarning()
+						.onClick(() => {
+							new ConfirmModal(
+								this.app,
+								t("settings.profiles.removeConfirm", { name: label }),
+								async () => {
+									this.plugin.settings.profiles =
+										this.plugin.settings.profiles.filter(
+											(p) => p.id !== profile.id
+										);
+									await this.plugin.saveSettings();
+									this.display();
+								}
+							).open();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName(t("settings.profiles.name"))
+				.addText((text) =>
+					text
+						.setPlaceholder(t("profile.unnamed", { index: index + 2 }))
+						.setValue(profile.name)
+						.onChange(async (value) => {
+							profile.name = value.trim();
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(containerEl)
+				.setName(t("settings.token.name"))
+				.addText((text) => {
+					text
+						.setPlaceholder(t("settings.token.placeholder"))
+						.setValue(profile.token)
+						.onChange(async (value) => {
+							profile.token = value.trim();
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.type = "password";
+				});
+
+			new Setting(containerEl)
+				.setName(t("settings.dir.name"))
+				.addText((text) =>
+					text
+						.setPlaceholder(t("settings.dir.placeholder"))
+						.setValue(profile.dir)
+						.onChange(async (value) => {
+							const sanitized = sanitizeRelativeFolderSubpath(value);
+							if (value.trim() !== "" && sanitized === null) {
+								new Notice(t("notice.typeFoldersInvalidReverted"));
+							}
+							if (sanitized) {
+								profile.dir = sanitized;
+								await this.plugin.saveSettings();
+							}
+						})
+				);
+
+			new Setting(containerEl)
+				.setName(t("settings.template.name"))
+				.setDesc(t("settings.profiles.template.desc"))
+				.addTextArea((text) => {
+					text
+						.setPlaceholder(DEFAULT_TEMPLATE_TEXT)
+						.setValue(profile.template)
+						.onChange(async (value) => {
+							const isInvalid =
+								value.trim() !== "" && validateTemplate(value) !== null;
+							text.inputEl.toggleClass(
+								"dino-sync-template-invalid",
+								isInvalid
+							);
+							if (isInvalid) {
+								return;
+							}
+							profile.template = value;
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.rows = 6;
+					text.inputEl.cols = 60;
+					text.inputEl.classList.add("dino-sync-template-setting");
+				});
+
+			this.renderSyncScopeControls(
+				containerEl,
+				profile.syncScope,
+				profile.token
+			);
+		});
+	}
+
+	// Shared by the main account and every additional profile.
+	private renderSyncScopeControls(
+		containerEl: HTMLElement,
+		scope: SyncScopeSettings,
+		token: string
+	): void {
+		const t = this.t;
+		new Setting(containerEl)
+			.setName(t("settings.syncScope.enable.name"))
+			.setDesc(t("settings.syncScope.enable.desc"))
+			.addToggle((toggle) =>
+				toggle.setValue(scope.enabled).onChange(async (value) => {
+					scope.enabled = value;
+					await this.plugin.saveSettings();
+					// Re-render so the box picker shows/hides.
+					this.display();
+				})
+			);
+
+		if (!scope.enabled) {
 			return;
 		}
 
@@ -91,7 +428,7 @@ export class DinoSettingTab extends PluginSettingTab {
 		const updateCount = (): void => {
 			countEl.setText(
 				t("settings.syncScope.selectedCount", {
-					count: this.plugin.settings.syncScope.selectedBoxIds.length,
+					count: scope.selectedBoxIds.length,
 				})
 			);
 		};
@@ -105,23 +442,24 @@ export class DinoSettingTab extends PluginSettingTab {
 				btn
 					.setButtonText(t("settings.syncScope.refresh"))
 					.onClick(async () => {
-						this.zettelBoxCache = null;
-						await this.loadZettelBoxesInto(treeEl, updateCount);
+						this.zettelBoxCache.delete(token);
+						await this.loadZettelBoxesInto(treeEl, scope, token, updateCount);
 					})
 			);
 
 		treeEl = containerEl.createDiv();
-		void this.loadZettelBoxesInto(treeEl, updateCount);
+		void this.loadZettelBoxesInto(treeEl, scope, token, updateCount);
 	}
 
 	private async loadZettelBoxesInto(
 		treeEl: HTMLElement,
+		scope: SyncScopeSettings,
+		token: string,
 		updateCount: () => void
 	): Promise<void> {
 		const t = this.t;
 		treeEl.empty();
 
-		const token = this.plugin.settings.token;
 		if (!token) {
 			treeEl.createDiv({
 				cls: "dinox-zettel-note",
@@ -130,8 +468,9 @@ export class DinoSettingTab extends PluginSettingTab {
 			return;
 		}
 
-		if (this.zettelBoxCache) {
-			this.renderZettelBoxTree(treeEl, this.zettelBoxCache, updateCount);
+		const cached = this.zettelBoxCache.get(token);
+		if (cached) {
+			this.renderZettelBoxTree(treeEl, cached, scope, updateCount);
 			return;
 		}
 
@@ -141,8 +480,8 @@ export class DinoSettingTab extends PluginSettingTab {
 		});
 		try {
 			const boxes = await fetchZettelBoxes(token);
-			this.zettelBoxCache = boxes;
-			this.renderZettelBoxTree(treeEl, boxes, updateCount);
+			this.zettelBoxCache.set(token, boxes);
+			this.renderZettelBoxTree(treeEl, boxes, scope, updateCount);
 		} catch (error) {
 			treeEl.empty();
 			treeEl.createDiv({
@@ -157,6 +496,7 @@ export class DinoSettingTab extends PluginSettingTab {
 	private renderZettelBoxTree(
 		treeEl: HTMLElement,
 		boxes: ZettelBoxNode[],
+		scope: SyncScopeSettings,
 		updateCount: () => void
 	): void {
 		const t = this.t;
@@ -188,9 +528,7 @@ export class DinoSettingTab extends PluginSettingTab {
 				(a, b) => a.priority - b.priority || a.name.localeCompare(b.name)
 			);
 
-		const selected = new Set(
-			this.plugin.settings.syncScope.selectedBoxIds
-		);
+		const selected = new Set(scope.selectedBoxIds);
 		const hasSelectedAncestor = (box: ZettelBoxNode): boolean => {
 			const guard = new Set<string>();
 			let current = box.parentId ? byId.get(box.parentId) : undefined;
@@ -230,14 +568,12 @@ export class DinoSettingTab extends PluginSettingTab {
 					} else {
 						selected.delete(node.id);
 					}
-					this.plugin.settings.syncScope.selectedBoxIds = [
-						...selected,
-					];
+					scope.selectedBoxIds = [...selected];
 					updateCount();
 					void (async () => {
 						await this.plugin.saveSettings();
 						// Re-render so implied (descendant) rows update.
-						this.renderZettelBoxTree(treeEl, boxes, updateCount);
+						this.renderZettelBoxTree(treeEl, boxes, scope, updateCount);
 					})();
 				});
 			}
@@ -471,7 +807,9 @@ export class DinoSettingTab extends PluginSettingTab {
 					})
 			);
 
+		this.renderRoutingRulesSection(containerEl);
 		this.renderSyncScopeSection(containerEl);
+		this.renderProfilesSection(containerEl);
 
 		new Setting(containerEl)
 			.setName(t("settings.ignoreKey.name"))
@@ -512,6 +850,164 @@ export class DinoSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName(t("settings.conflictStrategy.name"))
+			.setDesc(t("settings.conflictStrategy.desc"))
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption("merge", t("settings.conflictStrategy.optionMerge"))
+					.addOption("copy", t("settings.conflictStrategy.optionCopy"))
+					.setValue(this.plugin.settings.conflictStrategy)
+					.onChange(async (value: "merge" | "copy") => {
+						this.plugin.settings.conflictStrategy = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(t("settings.pinMovedNotes.name"))
+			.setDesc(t("settings.pinMovedNotes.desc"))
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.pinMovedNotes)
+					.onChange(async (value) => {
+						this.plugin.settings.pinMovedNotes = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		const vaultLookupControls: Array<{
+			setDisabled(disabled: boolean): void;
+		}> = [];
+		const updateVaultLookupControls = (enabled: boolean) => {
+			vaultLookupControls.forEach((control) => control.setDisabled(!enabled));
+		};
+		new Setting(containerEl)
+			.setName(t("settings.vaultLookup.name"))
+			.setDesc(t("settings.vaultLookup.desc"))
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.vaultLookup.enabled)
+					.onChange(async (value) => {
+						this.plugin.settings.vaultLookup.enabled = value;
+						await this.plugin.saveSettings();
+						updateVaultLookupControls(value);
+					})
+			);
+		for (const key of ["includeFolders", "excludeFolders"] as const) {
+			new Setting(containerEl)
+				.setName(t(`settings.vaultLookup.${key}.name`))
+				.setDesc(t(`settings.vaultLookup.${key}.desc`))
+				.addTextArea((text) => {
+					vaultLookupControls.push(text);
+					text
+						.setPlaceholder(t("settings.vaultLookup.placeholder"))
+						.setValue(this.plugin.settings.vaultLookup[key].join("\n"))
+						.onChange(async (value) => {
+							this.plugin.settings.vaultLookup[key] = normalizeFolderList(
+								value.split("\n")
+							);
+							await this.plugin.saveSettings();
+						});
+				});
+		}
+		updateVaultLookupControls(this.plugin.settings.vaultLookup.enabled);
+
+		let archiveFolderText: TextComponent | null = null;
+		new Setting(containerEl)
+			.setName(t("settings.deletionPolicy.name"))
+			.setDesc(t("settings.deletionPolicy.desc"))
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption("trash", t("settings.deletionPolicy.optionTrash"))
+					.addOption("archive", t("settings.deletionPolicy.optionArchive"))
+					.addOption("mark", t("settings.deletionPolicy.optionMark"))
+					.addOption("ignore", t("settings.deletionPolicy.optionIgnore"))
+					.setValue(this.plugin.settings.deletionPolicy)
+					.onChange(async (value: DeletionPolicy) => {
+						this.plugin.settings.deletionPolicy = value;
+						await this.plugin.saveSettings();
+						archiveFolderText?.setDisabled(value !== "archive");
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(t("settings.deletionArchiveFolder.name"))
+			.setDesc(t("settings.deletionArchiveFolder.desc"))
+			.addText((text) => {
+				archiveFolderText = text;
+				text
+					.setPlaceholder(this.plugin.defaults.deletionArchiveFolder)
+					.setValue(this.plugin.settings.deletionArchiveFolder)
+					.setDisabled(this.plugin.settings.deletionPolicy !== "archive")
+					.onChange(async (value) => {
+						if (
+							value.trim() !== "" &&
+							sanitizeRelativeFolderSubpath(value) === null
+						) {
+							new Notice(t("notice.typeFoldersInvalidReverted"));
+						}
+						this.plugin.settings.deletionArchiveFolder =
+							sanitizeRelativeFolderSubpath(value) ??
+							this.plugin.defaults.deletionArchiveFolder;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		const guardControls: Array<{ setDisabled(disabled: boolean): void }> =
+			[];
+		const updateGuardControls = (enabled: boolean) => {
+			guardControls.forEach((control) => control.setDisabled(!enabled));
+		};
+		const addGuardLimit = (
+			key: "maxCount" | "maxPercent",
+			name: string,
+			desc: string
+		): void => {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addText((text) => {
+					text.inputEl.type = "number";
+					text.inputEl.min = "0";
+					text
+						.setValue(String(this.plugin.settings.deletionGuard[key]))
+						.setDisabled(!this.plugin.settings.deletionGuard.enabled)
+						.onChange(async (value) => {
+							const parsed = Number.parseInt(value, 10);
+							this.plugin.settings.deletionGuard[key] =
+								Number.isFinite(parsed) && parsed >= 0
+									? parsed
+									: this.plugin.defaults.deletionGuard[key];
+							await this.plugin.saveSettings();
+						});
+					guardControls.push(text);
+				});
+		};
+
+		new Setting(containerEl)
+			.setName(t("settings.deletionGuard.enable.name"))
+			.setDesc(t("settings.deletionGuard.enable.desc"))
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.deletionGuard.enabled)
+					.onChange(async (value) => {
+						this.plugin.settings.deletionGuard.enabled = value;
+						await this.plugin.saveSettings();
+						updateGuardControls(value);
+					})
+			);
+		addGuardLimit(
+			"maxCount",
+			t("settings.deletionGuard.maxCount.name"),
+			t("settings.deletionGuard.maxCount.desc")
+		);
+		addGuardLimit(
+			"maxPercent",
+			t("settings.deletionGuard.maxPercent.name"),
+			t("settings.deletionGuard.maxPercent.desc")
+		);
+
 		new Setting(containerEl)
 			.setName(t("settings.template.name"))
 			.setDesc(t("settings.template.desc"))
@@ -543,6 +1039,28 @@ export class DinoSettingTab extends PluginSettingTab {
 				text.inputEl.classList.add("dino-sync-template-setting");
 			});
 
+		this.renderTypeTemplateSetting(
+			containerEl,
+			"note",
+			t("settings.typeTemplates.note.name")
+		);
+		this.renderTypeTemplateSetting(
+			containerEl,
+			"material",
+			t("settings.typeTemplates.material.name")
+		);
+		this.renderTypeTemplateSetting(
+			containerEl,
+			"audio",
+			t("settings.typeTemplates.audio.name")
+		);
+
+		const autoSyncControls: Array<{ setDisabled(disabled: boolean): void }> =
+			[];
+		const updateAutoSyncControls = (enabled: boolean) => {
+			autoSyncControls.forEach((control) => control.setDisabled(!enabled));
+		};
+
 		new Setting(containerEl)
 			.setName(t("settings.autoSync.name"))
 			.setDesc(t("settings.autoSync.desc"))
@@ -553,6 +1071,7 @@ export class DinoSettingTab extends PluginSettingTab {
 						this.plugin.settings.isAutoSync = value;
 						await this.plugin.saveSettings();
 						this.plugin.refreshAutoSyncSchedule();
+						updateAutoSyncControls(value);
 						new Notice(
 							value
 								? this.plugin.t("notice.autoSyncEnabled")
@@ -561,6 +1080,113 @@ export class DinoSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName(t("settings.autoSyncInterval.name"))
+			.setDesc(
+				t("settings.autoSyncInterval.desc", {
+					min: MIN_AUTO_SYNC_INTERVAL_MINUTES,
+					max: MAX_AUTO_SYNC_INTERVAL_MINUTES,
+				})
+			)
+			.addText((text) => {
+				text.inputEl.type = "number";
+				text.inputEl.min = String(MIN_AUTO_SYNC_INTERVAL_MINUTES);
+				text.inputEl.max = String(MAX_AUTO_SYNC_INTERVAL_MINUTES);
+				text
+					.setValue(String(this.plugin.settings.autoSync.intervalMinutes))
+					.setDisabled(!this.plugin.settings.isAutoSync)
+					.onChange(async (value) => {
+						// Ignore out-of-range values while the user is still typing.
+						const parsed = Number.parseInt(value, 10);
+						if (
+							!Number.isFinite(parsed) ||
+							parsed < MIN_AUTO_SYNC_INTERVAL_MINUTES ||
+							parsed > MAX_AUTO_SYNC_INTERVAL_MINUTES
+						) {
+							return;
+						}
+						this.plugin.settings.autoSync.intervalMinutes = parsed;
+						await this.plugin.saveSettings();
+						this.plugin.refreshAutoSyncSchedule();
+					});
+				autoSyncControls.push(text);
+			});
+
+		new Setting(containerEl)
+			.setName(t("settings.autoSyncOnStartup.name"))
+			.setDesc(t("settings.autoSyncOnStartup.desc"))
+			.addToggle((toggle) => {
+				toggle
+					.setValue(this.plugin.settings.autoSync.syncOnStartup)
+					.setDisabled(!this.plugin.settings.isAutoSync)
+					.onChange(async (value) => {
+						this.plugin.settings.autoSync.syncOnStartup = value;
+						await this.plugin.saveSettings();
+					});
+				autoSyncControls.push(toggle);
+			});
+
+		new Setting(containerEl)
+			.setName(t("settings.autoSyncOnFocus.name"))
+			.setDesc(t("settings.autoSyncOnFocus.desc"))
+			.addToggle((toggle) => {
+				toggle
+					.setValue(this.plugin.settings.autoSync.syncOnFocus)
+					.setDisabled(!this.plugin.settings.isAutoSync)
+					.onChange(async (value) => {
+						this.plugin.settings.autoSync.syncOnFocus = value;
+						await this.plugin.saveSettings();
+					});
+				autoSyncControls.push(toggle);
+			});
+
+		let autoPushDelayText: TextComponent | null = null;
+		new Setting(containerEl)
+			.setName(t("settings.autoPush.name"))
+			.setDesc(t("settings.autoPush.desc"))
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.autoPush.enabled)
+					.onChange(async (value) => {
+						this.plugin.settings.autoPush.enabled = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshAutoPush();
+						autoPushDelayText?.setDisabled(!value);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.autoPushDelay.name"))
+			.setDesc(
+				t("settings.autoPushDelay.desc", {
+					min: MIN_AUTO_PUSH_DELAY_SECONDS,
+					max: MAX_AUTO_PUSH_DELAY_SECONDS,
+				})
+			)
+			.addText((text) => {
+				autoPushDelayText = text;
+				text.inputEl.type = "number";
+				text.inputEl.min = String(MIN_AUTO_PUSH_DELAY_SECONDS);
+				text.inputEl.max = String(MAX_AUTO_PUSH_DELAY_SECONDS);
+				text
+					.setValue(String(this.plugin.settings.autoPush.delaySeconds))
+					.setDisabled(!this.plugin.settings.autoPush.enabled)
+					.onChange(async (value) => {
+						// Ignore out-of-range values while the user is still typing.
+						const parsed = Number.parseInt(value, 10);
+						if (
+							!Number.isFinite(parsed) ||
+							parsed < MIN_AUTO_PUSH_DELAY_SECONDS ||
+							parsed > MAX_AUTO_PUSH_DELAY_SECONDS
+						) {
+							return;
+						}
+						this.plugin.settings.autoPush.delaySeconds = parsed;
+						await this.plugin.saveSettings();
+						this.plugin.refreshAutoPush();
+					});
+			});
+
 		addHeading(containerEl, t("settings.section.dailyNotes"));
 		const dailyNotesControls: Array<{ setDisabled(disabled: boolean): void }> =
 			[];
@@ -666,6 +1292,64 @@ export class DinoSettingTab extends PluginSettingTab {
 			});
 		updateDailyNotesControls(this.plugin.settings.dailyNotes.enabled);
 
+		addHeading(containerEl, t("settings.section.syncReport"));
+		const syncReportControls: Array<{ setDisabled(disabled: boolean): void }> =
+			[];
+		const updateSyncReportControls = (enabled: boolean) => {
+			syncReportControls.forEach((control) => control.setDisabled(!enabled));
+		};
+
+		new Setting(containerEl)
+			.setName(t("settings.syncReport.enable.name"))
+			.setDesc(t("settings.syncReport.enable.desc"))
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.syncReport.enabled)
+					.onChange(async (value) => {
+						this.plugin.settings.syncReport.enabled = value;
+						await this.plugin.saveSettings();
+						updateSyncReportControls(value);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.syncReport.path.name"))
+			.setDesc(t("settings.syncReport.path.desc"))
+			.addText((text) => {
+				text
+					.setPlaceholder(DEFAULT_SYNC_REPORT_SETTINGS.path)
+					.setValue(this.plugin.settings.syncReport.path)
+					.onChange(async (value) => {
+						const normalized = normalizeSyncReportPath(value);
+						if (value.trim() !== "" && normalized === null) {
+							new Notice(t("notice.typeFoldersInvalidReverted"));
+						}
+						this.plugin.settings.syncReport.path =
+							normalized ?? DEFAULT_SYNC_REPORT_SETTINGS.path;
+						await this.plugin.saveSettings();
+					});
+				syncReportControls.push(text);
+			});
+
+		new Setting(containerEl)
+			.setName(t("settings.syncReport.mode.name"))
+			.setDesc(t("settings.syncReport.mode.desc"))
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption("append", t("settings.syncReport.mode.optionAppend"))
+					.addOption(
+						"overwrite",
+						t("settings.syncReport.mode.optionOverwrite")
+					)
+					.setValue(this.plugin.settings.syncReport.mode)
+					.onChange(async (value: SyncReportSettings["mode"]) => {
+						this.plugin.settings.syncReport.mode = value;
+						await this.plugin.saveSettings();
+					});
+				syncReportControls.push(dropdown);
+			});
+		updateSyncReportControls(this.plugin.settings.syncReport.enabled);
+
 		addHeading(containerEl, t("settings.section.hotkeys"));
 		this.addHotkeySetting(
 			containerEl,
@@ -686,6 +1370,8 @@ export class DinoSettingTab extends PluginSettingTab {
 			"createNote"
 		);
 
+		this.renderFailedNotesSection(containerEl);
+
 		addHeading(containerEl, t("settings.section.advanced"));
 		let selectedPreset = "start";
 		new Setting(containerEl)
@@ -742,14 +1428,57 @@ export class DinoSettingTab extends PluginSettingTab {
 									default:
 										targetTime = DEFAULT_LAST_SYNC_TIME;
 							}
-								await this.plugin.setLastSyncTime(targetTime);
-								new Notice(this.plugin.t("notice.resetDone"));
+								if (await this.plugin.setLastSyncTime(targetTime)) {
+									new Notice(this.plugin.t("notice.resetDone"));
+								}
 							}
 						).open();
 					})
 			);
 	}
 
+	private renderFailedNotesSection(containerEl: HTMLElement): void {
+		addHeading(containerEl, this.t("settings.section.failedNotes"));
+		const listEl = containerEl.createDiv();
+		void this.loadFailedNotesInto(listEl);
+	}
+
+	private async loadFailedNotesInto(listEl: HTMLElement): Promise<void> {
+		const t = this.t;
+		const failedNotes = await this.plugin.getFailedNotes();
+		listEl.empty();
+
+		new Setting(listEl)
+			.setName(t("settings.failedNotes.name"))
+			.setDesc(
+				failedNotes.length === 0
+					? t("settings.failedNotes.empty")
+					: t("settings.failedNotes.desc", { count: failedNotes.length })
+			)
+			.addButton((button) =>
+				button
+					.setButtonText(t("settings.failedNotes.retry"))
+					.setDisabled(failedNotes.length === 0)
+					.onClick(async () => {
+						button.setDisabled(true);
+						await this.plugin.retryFailedNotes();
+						await this.loadFailedNotesInto(listEl);
+					})
+			);
+
+		for (const entry of failedNotes) {
+			new Setting(listEl)
+				.setName(entry.note.title || entry.note.noteId)
+				.setDesc(
+					t("settings.failedNotes.entry", {
+						error: entry.error,
+						attempts: entry.attempts,
+						time: new Date(entry.nextRetryAt).toLocaleString(),
+					})
+				);
+		}
+	}
+
 	private addHotkeySetting(
 		containerEl: HTMLElement,
 		label: string,
@@ -0,0 +1,198 @@
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import type { SyncTrigger } from "./auto-sync";
+import type { SyncReportAction } from "./sync";
+import type { SyncHistoryRun, SyncProgress } from "./sync/history";
+import { formatDate } from "./utils";
+import type { TranslationKey, TranslationVars } from "../i18n";
+
+type TFunction = (key: TranslationKey, vars?: TranslationVars) => string;
+
+export const VIEW_TYPE_SYNC_HISTORY = "dinox-sync-history";
+
+const TRIGGER_LABEL_KEYS: Record<SyncTrigger, TranslationKey> = {
+	manual: "history.trigger.manual",
+	scheduled: "history.trigger.scheduled",
+	startup: "history.trigger.startup",
+	focus: "history.trigger.focus",
+	online: "history.trigger.online",
+};
+
+const ACTION_LABEL_KEYS: Record<SyncReportAction, TranslationKey> = {
+	created: "report.section.created",
+	updated: "report.section.updated",
+	moved: "report.section.moved",
+	deleted: "report.section.deleted",
+	conflict: "report.section.conflicts",
+	skipped: "report.section.skipped",
+	failed: "report.section.failed",
+};
+
+/** Sidebar list of recent sync runs, with the running one on top. */
+export class SyncHistoryView extends ItemView {
+	private readonly t: TFunction;
+	private readonly getRuns: () => readonly SyncHistoryRun[];
+	private readonly getProgress: () => SyncProgress | null;
+	private readonly onSyncNow: () => void;
+	// Runs the user expanded, by start time, so a refresh keeps them open.
+	private readonly expanded = new Set<number>();
+
+	constructor(
+		leaf: WorkspaceLeaf,
+		args: {
+			t: TFunction;
+			getRuns: () => readonly SyncHistoryRun[];
+			getProgress: () => SyncProgress | null;
+			onSyncNow: () => void;
+		}
+	) {
+		super(leaf);
+		this.t = args.t;
+		this.getRuns = args.getRuns;
+		this.getProgress = args.getProgress;
+		this.onSyncNow = args.onSyncNow;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_SYNC_HISTORY;
+	}
+
+	getDisplayText(): string {
+		return this.t("history.title");
+	}
+
+	getIcon(): string {
+		return "history";
+	}
+
+	async onOpen(): Promise<void> {
+		this.refresh();
+	}
+
+	refresh(): void {
+		const t = this.t;
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("dinox-history");
+
+		const progress = this.getProgress();
+		const headerEl = contentEl.createDiv({ cls: "dinox-history-header" });
+		const button = headerEl.createEl("button", {
+			text: t("history.syncNow"),
+			cls: "mod-cta",
+		});
+		button.disabled = progress !== null;
+		button.addEventListener("click", () => this.onSyncNow());
+		if (progress) {
+			headerEl.createDiv({
+				cls: "dinox-history-progress",
+				text: this.labelled(
+					progress.label,
+					t("history.progress", {
+						processed: progress.processed,
+						deleted: progress.deleted,
+						failed: progress.failed,
+					})
+				),
+			});
+		}
+
+		const runs = this.getRuns();
+		if (runs.length === 0) {
+			contentEl.createEl("p", {
+				cls: "dinox-modal-desc",
+				text: t("history.empty"),
+			});
+			return;
+		}
+		for (const run of runs) {
+			this.renderRun(contentEl, run);
+		}
+	}
+
+	private labelled(label: string | null, text: string): string {
+		return label ? `[${label}] ${text}` : text;
+	}
+
+	private renderRun(containerEl: HTMLElement, run: SyncHistoryRun): void {
+		const t = this.t;
+		const detailsEl = containerEl.createEl("details", {
+			cls: "dinox-history-run",
+		});
+		detailsEl.open = this.expanded.has(run.startedAt);
+		detailsEl.addEventListener("toggle", () => {
+			if (detailsEl.open) {
+				this.expanded.add(run.startedAt);
+			} else {
+				this.expanded.delete(run.startedAt);
+			}
+		});
+
+		const summaryEl = detailsEl.createEl("summary");
+		summaryEl.createSpan({
+			cls: run.error ? "dinox-history-status is-failed" : "dinox-history-status",
+			text: run.error ? "✕" : "✓",
+		});
+		summaryEl.createSpan({
+			text: this.labelled(
+				run.profile,
+				`${formatDate(new Date(run.startedAt))} · ${t(
+					TRIGGER_LABEL_KEYS[run.trigger] ?? "history.trigger.manual"
+				)}`
+			),
+		});
+		detailsEl.createDiv({
+			cls: "dinox-modal-desc",
+			text: t("history.counts", {
+				seconds: Math.max(
+					0,
+					Math.round((run.finishedAt - run.startedAt) / 1000)
+				),
+				processed: run.processed,
+				unchanged: run.unchanged,
+				deleted: run.deleted,
+				failed: run.failed,
+			}),
+		});
+		if (run.error) {
+			detailsEl.createDiv({ cls: "dinox-history-error", text: run.error });
+		}
+
+		if (run.notes.length === 0) {
+			return;
+		}
+		const listEl = detailsEl.createEl("ul", { cls: "dinox-history-notes" });
+		for (const entry of run.notes) {
+			const itemEl = listEl.createEl("li");
+			itemEl.createSpan({
+				cls: "dinox-history-action",
+				text: t(ACTION_LABEL_KEYS[entry.action]),
+			});
+			const notePath = entry.notePath;
+			if (notePath) {
+				const linkEl = itemEl.createEl("a", {
+					cls: "internal-link",
+					text: entry.title,
+					href: notePath,
+				});
+				linkEl.addEventListener("click", (event) => {
+					event.preventDefault();
+					void this.app.workspace.openLinkText(notePath, "", false);
+				});
+			} else {
+				itemEl.createSpan({ text: entry.title });
+			}
+			if (entry.error) {
+				itemEl.createSpan({
+					cls: "dinox-history-error",
+					text: ` ${entry.error}`,
+				});
+			}
+		}
+		if (run.omittedNotes > 0) {
+			detailsEl.createDiv({
+				cls: "dinox-modal-desc",
+				text: t("history.omitted", { count: run.omittedNotes }),
+			});
+		}
+	}
+}
@@ -0,0 +1,131 @@
+import { App, Modal, Setting } from "obsidian";
+import type { SyncPlanAction, SyncPlanItem } from "./sync";
+import type { TranslationKey, TranslationVars } from "../i18n";
+
+type TFunction = (key: TranslationKey, vars?: TranslationVars) => string;
+
+const ACTION_ORDER: SyncPlanAction[] = [
+	"create",
+	"modify",
+	"rename",
+	"delete",
+	"conflict",
+];
+
+const ACTION_LABEL_KEYS: Record<SyncPlanAction, TranslationKey> = {
+	create: "preview.section.create",
+	modify: "preview.section.modify",
+	rename: "preview.section.rename",
+	delete: "preview.section.delete",
+	conflict: "preview.section.conflict",
+};
+
+/** Shows what a sync would do and lets the user apply all or part of it. */
+export class SyncPreviewModal extends Modal {
+	private readonly t: TFunction;
+	private readonly plan: SyncPlanItem[];
+	private readonly onApplyAll: () => Promise<void>;
+	private readonly onApplySelected: (noteIds: Set<string>) => Promise<void>;
+	private readonly selected: Set<string>;
+
+	constructor(
+		app: App,
+		args: {
+			t: TFunction;
+			plan: SyncPlanItem[];
+			onApplyAll: () => Promise<void>;
+			onApplySelected: (noteIds: Set<string>) => Promise<void>;
+		}
+	) {
+		super(app);
+		this.t = args.t;
+		this.plan = args.plan;
+		this.onApplyAll = args.onApplyAll;
+		this.onApplySelected = args.onApplySelected;
+		this.selected = new Set(args.plan.map((item) => item.noteId));
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		const t = this.t;
+		this.setTitle(t("preview.title"));
+
+		if (this.plan.length === 0) {
+			contentEl.createEl("p", { text: t("preview.empty") });
+			return;
+		}
+
+		const counts: Record<SyncPlanAction, number> = {
+			create: 0,
+			modify: 0,
+			rename: 0,
+			delete: 0,
+			conflict: 0,
+		};
+		for (const item of this.plan) {
+			counts[item.action]++;
+		}
+		contentEl.createEl("p", { text: t("preview.summary", { ...counts }) });
+		contentEl.createEl("p", {
+			cls: "dinox-modal-desc",
+			text: t("preview.selectedHint"),
+		});
+
+		const listEl = contentEl.createDiv({ cls: "dinox-plan-list" });
+		for (const action of ACTION_ORDER) {
+			const items = this.plan.filter((item) => item.action === action);
+			if (items.length === 0) {
+				continue;
+			}
+			listEl.createEl("h4", {
+				text: `${t(ACTION_LABEL_KEYS[action])} (${items.length})`,
+			});
+			for (const item of items) {
+				const row = listEl.createDiv({ cls: "dinox-plan-row" });
+				const checkbox = row.createEl("input");
+				checkbox.type = "checkbox";
+				checkbox.checked = this.selected.has(item.noteId);
+				checkbox.addEventListener("change", () => {
+					if (checkbox.checked) {
+						this.selected.add(item.noteId);
+					} else {
+						this.selected.delete(item.noteId);
+					}
+				});
+				row.createSpan({
+					cls: "dinox-plan-path",
+					text: item.fromPath
+						? `${item.fromPath} → ${item.path}`
+						: item.path,
+				});
+			}
+		}
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText(t("preview.applyAll"))
+					.setCta()
+					.onClick(() => {
+						this.close();
+						void this.onApplyAll();
+					})
+			)
+			.addButton((btn) =>
+				btn.setButtonText(t("preview.applySelected")).onClick(() => {
+					if (this.selected.size === 0) {
+						return;
+					}
+					this.close();
+					void this.onApplySelected(new Set(this.selected));
+				})
+			)
+			.addButton((btn) =>
+				btn.setButtonText(t("common.cancel")).onClick(() => this.close())
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,370 @@
+import { describe, expect, it } from "vitest";
+import { TFile } from "obsidian";
+import { DEFAULT_SETTINGS } from "./constants";
+import { resolveSyncProfiles } from "./profiles";
+import {
+	createSyncSession,
+	resolveNoteTemplate,
+	type SyncPlanItem,
+	type SyncSession,
+} from "./sync";
+import type { DinoPluginSettings } from "./types";
+import {
+	createSyncFixture,
+	deletedNote,
+	dinoxNote,
+	renderedNote,
+	syncPage,
+	type SyncFixture,
+} from "../test/sync";
+import { readTestFile } from "../test/vault";
+
+describe("processNotesPage", () => {
+	it("updates a note moved out of the sync folder where it is", async () => {
+		const fixture = await createSyncFixture({}, { pinMovedNotes: false });
+		await syncPage(fixture, [dinoxNote("n1", "first")]);
+		const synced = fixture.notePathById.n1;
+		expect(synced).toBe("Dinox/note/n1.md");
+
+		const file = fixture.app.vault.getAbstractFileByPath(synced);
+		if (!(file instanceof TFile)) {
+			throw new Error("The note was not written.");
+		}
+		await fixture.app.vault.createFolder("Projects");
+		await fixture.app.fileManager.renameFile(file, "Projects/n1.md");
+		// The mapping was lost; the vault lookup found the note again.
+		fixture.notePathById = { n1: "Projects/n1.md" };
+
+		await syncPage(fixture, [dinoxNote("n1", "second")]);
+		expect(fixture.notePathById.n1).toBe("Projects/n1.md");
+		expect(await readTestFile(fixture.app, "Projects/n1.md")).toBe(
+			renderedNote("n1", "second")
+		);
+		expect(await readTestFile(fixture.app, synced)).toBeNull();
+	});
+
+	describe("with preserved keys", () => {
+		const template =
+			"---\nnoteId: {{noteId}}\ntags:\n  - dinox\n---\n\n{{content}}\n\n";
+		const path = "Dinox/note/n1.md";
+
+		it("changes only the preserved lines and keeps the rest as rendered", async () => {
+			const fixture = await createSyncFixture(
+				{ [path]: "---\nnoteId: n1\nstatus: done\n---\nold\n" },
+				{ template, preserveKeys: "status" }
+			);
+			fixture.notePathById = { n1: path };
+
+			await syncPage(fixture, [dinoxNote("n1", "new")]);
+			expect(await readTestFile(fixture.app, path)).toBe(
+				"---\nnoteId: n1\ntags:\n  - dinox\nstatus: done\n---\n\nnew\n\n"
+			);
+
+			const file = fixture.app.vault.getAbstractFileByPath(path);
+			const mtime = file instanceof TFile ? file.stat.mtime : -1;
+			const session = await syncPage(fixture, [dinoxNote("n1", "new")]);
+			expect(session.unchanged).toBe(1);
+			expect(file instanceof TFile && file.stat.mtime).toBe(mtime);
+		});
+
+		it("leaves a note alone when the preserved value is already rendered", async () => {
+			const rendered = "---\nnoteId: n1\ntags:\n  - dinox\n---\n\nsame\n\n";
+			const fixture = await createSyncFixture(
+				{ [path]: rendered },
+				{ template, preserveKeys: "tags" }
+			);
+			fixture.notePathById = { n1: path };
+
+			const session = await syncPage(fixture, [dinoxNote("n1", "same")]);
+			expect(session.unchanged).toBe(1);
+			expect(await readTestFile(fixture.app, path)).toBe(rendered);
+		});
+	});
+
+	it("keeps the rendered whitespace around a merged body", async () => {
+		const fixture = await createSyncFixture(
+			{},
+			{ template: "---\nnoteId: {{noteId}}\n---\n\n{{content}}\n\n" }
+		);
+		await syncPage(fixture, [dinoxNote("n1", "a\nb\nc")]);
+		const path = fixture.notePathById.n1;
+		const file = fixture.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) {
+			throw new Error("The note was not written.");
+		}
+		await fixture.app.vault.modify(
+			file,
+			"---\nnoteId: n1\n---\n\nA\nb\nc\n\n"
+		);
+
+		const session = await syncPage(fixture, [dinoxNote("n1", "a\nb\nC")]);
+		expect(session.merged).toBe(1);
+		expect(await readTestFile(fixture.app, path)).toBe(
+			"---\nnoteId: n1\n---\n\nA\nb\nC\n\n"
+		);
+	});
+});
+
+async function editNote(
+	fixture: SyncFixture,
+	path: string,
+	content: string
+): Promise<void> {
+	const file = fixture.app.vault.getAbstractFileByPath(path);
+	if (!(file instanceof TFile)) {
+		throw new Error(`${path} was not written.`);
+	}
+	await fixture.app.vault.modify(file, content);
+}
+
+describe("local and remote edits", () => {
+	const path = "Dinox/note/n1.md";
+
+	async function syncedFixture(
+		settings: Partial<DinoPluginSettings> = {}
+	): Promise<SyncFixture> {
+		const fixture = await createSyncFixture({}, settings);
+		await syncPage(fixture, [dinoxNote("n1", "a\nb\nc")]);
+		return fixture;
+	}
+
+	it("updates a note only Dinox changed", async () => {
+		const fixture = await syncedFixture();
+		const session = await syncPage(fixture, [dinoxNote("n1", "a\nb\nC")]);
+		expect(session.processed).toBe(1);
+		expect(await readTestFile(fixture.app, path)).toBe(
+			renderedNote("n1", "a\nb\nC")
+		);
+	});
+
+	it("keeps a note only edited locally", async () => {
+		const fixture = await syncedFixture();
+		await editNote(fixture, path, renderedNote("n1", "A\nb\nc"));
+		const session = await syncPage(fixture, [dinoxNote("n1", "a\nb\nc")]);
+		expect(session.processed).toBe(0);
+		expect(await readTestFile(fixture.app, path)).toBe(
+			renderedNote("n1", "A\nb\nc")
+		);
+	});
+
+	it("merges edits to different lines", async () => {
+		const fixture = await syncedFixture();
+		await editNote(fixture, path, renderedNote("n1", "A\nb\nc"));
+		const session = await syncPage(fixture, [dinoxNote("n1", "a\nb\nC")]);
+		expect(session.merged).toBe(1);
+		expect(session.conflicts).toBe(0);
+		expect(await readTestFile(fixture.app, path)).toBe(
+			renderedNote("n1", "A\nb\nC")
+		);
+	});
+
+	it("marks edits to the same line in the merged note", async () => {
+		const fixture = await syncedFixture();
+		await editNote(fixture, path, renderedNote("n1", "a\nlocal\nc"));
+		const session = await syncPage(fixture, [
+			dinoxNote("n1", "a\nremote\nc"),
+		]);
+		expect(session.merged).toBe(1);
+		expect(session.conflicts).toBe(1);
+		const merged = await readTestFile(fixture.app, path);
+		expect(merged).toContain("local");
+		expect(merged).toContain("remote");
+	});
+
+	it("writes the Dinox version next to the note with the copy strategy", async () => {
+		const fixture = await syncedFixture({ conflictStrategy: "copy" });
+		await editNote(fixture, path, renderedNote("n1", "A\nb\nc"));
+		const session = await syncPage(fixture, [dinoxNote("n1", "a\nb\nC")]);
+		expect(session.conflicts).toBe(1);
+		expect(await readTestFile(fixture.app, path)).toBe(
+			renderedNote("n1", "A\nb\nc")
+		);
+		const [conflict] = fixture.conflicts;
+		expect(conflict).toMatchObject({ kind: "copy", noteId: "n1", notePath: path });
+		expect(await readTestFile(fixture.app, conflict.conflictPath ?? "")).toContain(
+			"a\nb\nC"
+		);
+	});
+
+	it("falls back to a conflict copy without a merge base", async () => {
+		const fixture = await syncedFixture();
+		fixture.baseStore.delete("n1");
+		await editNote(fixture, path, renderedNote("n1", "A\nb\nc"));
+		const session = await syncPage(fixture, [dinoxNote("n1", "a\nb\nC")]);
+		expect(session.merged).toBe(0);
+		expect(fixture.conflicts.map((entry) => entry.kind)).toEqual(["copy"]);
+	});
+
+	it("only plans a conflict during a dry run", async () => {
+		const fixture = await syncedFixture({ conflictStrategy: "copy" });
+		await editNote(fixture, path, renderedNote("n1", "A\nb\nc"));
+		const plan: SyncPlanItem[] = [];
+		await syncPage(fixture, [dinoxNote("n1", "a\nb\nC")], { plan });
+		expect(plan.map((item) => item.action)).toEqual(["conflict"]);
+		expect(fixture.conflicts).toEqual([]);
+	});
+});
+
+describe("deletion policies", () => {
+	const path = "Dinox/note/n1.md";
+
+	async function deleteSynced(
+		settings: Partial<DinoPluginSettings>
+	): Promise<{ fixture: SyncFixture; session: SyncSession }> {
+		const fixture = await createSyncFixture({}, settings);
+		await syncPage(fixture, [dinoxNote("n1", "body")]);
+		const session = await syncPage(fixture, [deletedNote("n1")]);
+		return { fixture, session };
+	}
+
+	it("trashes the note and forgets it", async () => {
+		const { fixture, session } = await deleteSynced({ deletionPolicy: "trash" });
+		expect(session.deleted).toBe(1);
+		expect(await readTestFile(fixture.app, path)).toBeNull();
+		expect(fixture.notePathById.n1).toBeUndefined();
+		expect(fixture.syncedNotes.n1).toBeUndefined();
+		expect(fixture.baseStore.get("n1")).toBeUndefined();
+	});
+
+	it("moves the note to the archive folder", async () => {
+		const { fixture, session } = await deleteSynced({
+			deletionPolicy: "archive",
+		});
+		expect(session.deleted).toBe(1);
+		expect(await readTestFile(fixture.app, path)).toBeNull();
+		expect(fixture.notePathById.n1).toBe("Dinox/Archive/n1.md");
+		expect(await readTestFile(fixture.app, "Dinox/Archive/n1.md")).toBe(
+			renderedNote("n1", "body")
+		);
+		expect(session.entries).toEqual([
+			{ action: "deleted", title: "n1", notePath: "Dinox/Archive/n1.md" },
+		]);
+	});
+
+	it("marks the note as deleted where it is", async () => {
+		const { fixture, session } = await deleteSynced({ deletionPolicy: "mark" });
+		expect(session.deleted).toBe(1);
+		const marked = await readTestFile(fixture.app, path);
+		expect(marked).toContain("dinox_deleted: true");
+		expect(marked).toContain("body");
+
+		// Marking again changes nothing.
+		const again = await syncPage(fixture, [deletedNote("n1")]);
+		expect(again.deleted).toBe(0);
+	});
+
+	it("leaves the note alone with the ignore policy", async () => {
+		const { fixture, session } = await deleteSynced({
+			deletionPolicy: "ignore",
+		});
+		expect(session.deleted).toBe(0);
+		expect(await readTestFile(fixture.app, path)).toBe(
+			renderedNote("n1", "body")
+		);
+	});
+
+	it("only plans the deletion during a dry run", async () => {
+		const fixture = await createSyncFixture({}, { deletionPolicy: "trash" });
+		await syncPage(fixture, [dinoxNote("n1", "body")]);
+		const plan: SyncPlanItem[] = [];
+		await syncPage(fixture, [deletedNote("n1")], { plan });
+		expect(plan).toMatchObject([{ action: "delete", path }]);
+		expect(await readTestFile(fixture.app, path)).not.toBeNull();
+	});
+
+	it("holds deletions back when the session defers them", async () => {
+		const fixture = await createSyncFixture({}, { deletionPolicy: "trash" });
+		await syncPage(fixture, [dinoxNote("n1", "body")]);
+		const session = createSyncSession();
+		session.deferredDeletions = [];
+		await syncPage(fixture, [deletedNote("n1")], { session });
+		expect(session.deferredDeletions.map((note) => note.noteId)).toEqual([
+			"n1",
+		]);
+		expect(await readTestFile(fixture.app, path)).not.toBeNull();
+	});
+});
+
+describe("checkpoints", () => {
+	const notes = Array.from({ length: 25 }, (_, index) =>
+		dinoxNote(`n${index}`, `note ${index}`)
+	);
+
+	it("saves the finished notes of a page every few notes", async () => {
+		const fixture = await createSyncFixture();
+		const session = createSyncSession();
+		const saved: number[] = [];
+		await syncPage(fixture, notes, {
+			session,
+			onCheckpoint: () => {
+				saved.push(session.processedNoteIds.size);
+				return Promise.resolve();
+			},
+		});
+		expect(saved).toEqual([10, 20]);
+	});
+
+	it("skips the notes a resumed checkpoint already finished", async () => {
+		const fixture = await createSyncFixture();
+		const session = createSyncSession();
+		session.processedNoteIds.add("n0");
+		await syncPage(fixture, notes.slice(0, 2), { session });
+		expect(session.processed).toBe(1);
+		expect(fixture.notePathById.n0).toBeUndefined();
+		expect(fixture.notePathById.n1).toBe("Dinox/note/n1.md");
+	});
+});
+
+describe("resolveNoteTemplate", () => {
+	const clip = { ...dinoxNote("n1", "clip"), type: "crawl" };
+	const settings = {
+		...DEFAULT_SETTINGS,
+		template: "main",
+		typeTemplates: { note: "", material: "material", audio: "" },
+		profiles: [
+			{
+				id: "own",
+				name: "Own template",
+				token: "",
+				dir: "Team",
+				template: "team",
+				syncScope: DEFAULT_SETTINGS.syncScope,
+			},
+			{
+				id: "shared",
+				name: "Shared template",
+				token: "",
+				dir: "Other",
+				template: "",
+				syncScope: DEFAULT_SETTINGS.syncScope,
+			},
+		],
+	};
+	const [main, own, shared] = resolveSyncProfiles(settings, (key) => key);
+
+	it("uses the type template over the main template", () => {
+		expect(resolveNoteTemplate(clip, main.settings)).toBe("material");
+		expect(resolveNoteTemplate(clip, shared.settings)).toBe("material");
+	});
+
+	it("lets a profile's own template win over the shared type templates", () => {
+		expect(resolveNoteTemplate(clip, own.settings)).toBe("team");
+	});
+
+	it("lets a routing rule's template win over everything else", () => {
+		const routed = {
+			...own.settings,
+			routingRules: [
+				{
+					enabled: true,
+					field: "type" as const,
+					pattern: "crawl",
+					folder: "",
+					template: "rule",
+					filenameTemplate: "",
+				},
+			],
+		};
+		expect(resolveNoteTemplate(clip, routed)).toBe("rule");
+	});
+});
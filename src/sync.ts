@@ -3,6 +3,8 @@ import {
 	Notice,
 	TFile,
 	normalizePath,
+	parseYaml,
+	stringifyYaml,
 } from "obsidian";
 import { DEFAULT_SETTINGS } from "./constants";
 import type { DinoPluginSettings, Note } from "./types";
@@ -12,7 +14,9 @@ import {
 	type DailyNoteChangeSet,
 } from "./daily-notes";
 import {
-	extractFrontmatterScalar,
+	replaceBody,
+	replaceFrontmatter,
+	replaceFrontmatterEntries,
 	splitFrontmatter,
 } from "./markdown";
 import { stripQueryParamsFromImageUrls } from "./markdown-images";
@@ -23,12 +27,24 @@ import {
 } from "./type-folders";
 import { resolveZettelBoxFolderPath } from "./zettel-box-folders";
 import { renderNoteTemplate } from "./template";
-import { ensureFolderExists } from "./vault";
+import { findRoutingRule, getNoteTypeForRouting } from "./routing-rules";
+import {
+	addSuffixToMarkdownPath,
+	ensureFolderExists,
+	renameOwnFile,
+} from "./vault";
 import {
 	formatDate,
+	getErrorMessage,
+	hashContent,
 	parseDate,
 	sanitizeFilename,
 } from "./utils";
+import type {
+	FailedNoteRecord,
+	SyncConflict,
+	SyncedNoteRecord,
+} from "./persisted-data";
 import type { TranslationKey, TranslationVars } from "../i18n";
 
 export { buildLocalNoteIdIndex } from "./sync/local-index";
@@ -36,41 +52,43 @@ import {
 	readLocalFrontmatter,
 	readNoteIdFromFile,
 } from "./sync/local-index";
+import { upsertConflict, writeConflictCopy } from "./sync/conflicts";
+import type { SyncJournal } from "./sync/journal";
+import { recordFailedNote } from "./sync/failed-notes";
+import { mergeThreeWay, type ThreeWayMergeResult } from "./sync/merge";
+import type { SyncBaseStore } from "./sync/base-store";
 
 type TFunction = (key: TranslationKey, vars?: TranslationVars) => string;
 
 type NoteProcessingResult =
-	| { status: "processed"; notePath: string; title: string; preview?: string }
-	| { status: "deleted"; notePath: string }
-	| { status: "skipped" };
-
-function getNoteTypeForRouting(noteData: Note): string | null {
-	if (typeof noteData.type === "string") {
-		return noteData.type;
-	}
-
-	// Fallback for API responses that only embed `type` into markdown content via template.
-	const split = splitFrontmatter(noteData.content ?? "");
-	return extractFrontmatterScalar(split.frontmatter, "type");
-}
+	| {
+			status: "processed";
+			action: "created" | "updated" | "moved";
+			notePath: string;
+			title: string;
+			preview?: string;
+			merge?: { conflicts: number };
+	  }
+	| { status: "unchanged"; notePath: string }
+	// `archivedPath` is where the archive policy moved the note.
+	| { status: "deleted"; notePath: string; archivedPath?: string }
+	| { status: "conflict"; notePath: string; conflictPath: string }
+	| { status: "planned" }
+	| { status: "skipped"; notePath?: string };
 
-function addSuffixToMarkdownPath(path: string, suffix: string): string {
-	const normalized = normalizePath(path);
-	const slashIndex = normalized.lastIndexOf("/");
-	const dir = slashIndex === -1 ? "" : normalized.slice(0, slashIndex);
-	const filename =
-		slashIndex === -1 ? normalized : normalized.slice(slashIndex + 1);
+export type SyncPlanAction = "create" | "modify" | "rename" | "delete" | "conflict";
 
-	const lower = filename.toLowerCase();
-	const isMarkdown = lower.endsWith(".md");
-	const base = isMarkdown ? filename.slice(0, -3) : filename;
-	const ext = isMarkdown ? ".md" : "";
-
-	const next = `${base}${suffix}${ext}`;
-	return dir ? normalizePath(`${dir}/${next}`) : normalizePath(next);
+/** One file operation a sync would perform, collected by a dry run. */
+export interface SyncPlanItem {
+	noteId: string;
+	title: string;
+	action: SyncPlanAction;
+	path: string;
+	/** Current location when the note would be renamed. */
+	fromPath?: string;
 }
 
-function resolveUniqueNotePath(
+export function resolveUniqueNotePath(
 	app: App,
 	preferredPath: string,
 	noteId: string,
@@ -115,72 +133,16 @@ function resolveUniqueNotePath(
 	return normalizedPreferred;
 }
 
-function getDailyNoteEntryTitle(noteData: Note, baseFilename: string): string {
-	const rawTitle = noteData.title?.trim();
-	if (rawTitle) {
-		return rawTitle;
-	}
-	return baseFilename.replace(/_/g, " ");
-}
-
-function buildDailyNotePreview(content: string): string | undefined {
-	const raw = content ?? "";
-	if (!raw) {
-		return undefined;
-	}
-	const lines = raw.split(/\r?\n/);
-	let index = 0;
-	if (lines[index]?.trim() === "---") {
-		index++;
-		while (index < lines.length && lines[index].trim() !== "---") {
-			index++;
-		}
-		if (index < lines.length) {
-			index++;
-		}
-	}
-	for (; index < lines.length; index++) {
-		const line = lines[index].trim();
-		if (!line) {
-			continue;
-		}
-		if (line.startsWith(">")) {
-			continue;
-		}
-		const cleaned = line.replace(/^#+\s*/, "").replace(/[`*_]/g, "");
-		if (!cleaned) {
-			continue;
-		}
-		return cleaned.length > 120 ? `${cleaned.slice(0, 117)}...` : cleaned;
-	}
-	return undefined;
-}
-
-async function handleNoteProcessing(args: {
-	app: App;
-	settings: DinoPluginSettings;
-	noteData: Note;
-	datePath: string;
-	notePathById: Record<string, string>;
-	localIndex: Record<string, string>;
-}): Promise<NoteProcessingResult> {
-	const { app, settings, noteData, datePath, notePathById, localIndex } = args;
-
+/** File name (without extension) a note gets under the current settings. */
+export function buildNoteBaseFilename(
+	noteData: Note,
+	settings: DinoPluginSettings
+): string {
 	const sourceId = (noteData.noteId ?? "").trim();
-	if (!sourceId) {
-		throw new Error("Dinox: noteId is missing in API response.");
-	}
-
-	const ignoreKey = settings.ignoreSyncKey;
-
-	const preserveKeysSetting = settings.preserveKeys || "";
-	const keysToPreserve = preserveKeysSetting
-		.split(/[,\n\r]+/)
-		.map((k) => k.trim())
-		.filter((k) => k !== "" && k !== "noteId" && k !== "source_app_id");
-
 	let baseFilename = "";
-	const format = settings.filenameFormat;
+	const rule = findRoutingRule(noteData, settings.routingRules);
+	const ruleTemplate = rule?.filenameTemplate.trim() ?? "";
+	const format = ruleTemplate ? "template" : settings.filenameFormat;
 	if (format === "noteId") {
 		baseFilename = sourceId.replace(/-/g, "_");
 	} else if (format === "title") {
@@ -234,7 +196,10 @@ async function handleNoteProcessing(args: {
 				noteData.title && noteData.title.trim() !== ""
 					? noteData.title
 					: sourceId.replace(/-/g, "_");
-			const template = settings.filenameTemplate || "{{title}} ({{createDate}})";
+			const template =
+				ruleTemplate ||
+				settings.filenameTemplate ||
+				"{{title}} ({{createDate}})";
 			let rendered = template
 				.replace(/\{\{\s*title\s*\}\}/g, titlePart)
 				.replace(/\{\{\s*createDate\s*\}\}/g, dateOnly)
@@ -252,7 +217,340 @@ async function handleNoteProcessing(args: {
 		baseFilename = sourceId.replace(/-/g, "_");
 	}
 
-	baseFilename = baseFilename || sourceId.replace(/-/g, "_") || "Untitled";
+	return baseFilename || sourceId.replace(/-/g, "_") || "Untitled";
+}
+
+function parseFrontmatterRecord(
+	frontmatter: string | null
+): Record<string, unknown> | null {
+	try {
+		const parsed: unknown = frontmatter ? parseYaml(frontmatter) : null;
+		return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+			? (parsed as Record<string, unknown>)
+			: null;
+	} catch {
+		return null;
+	}
+}
+
+function sameValue(left: unknown, right: unknown): boolean {
+	return JSON.stringify(left) === JSON.stringify(right);
+}
+
+/**
+ * Merge preserved frontmatter keys into rendered content, the way
+ * `processFrontMatter` would, so the note can be written in one go. Only the
+ * lines of keys whose value differs change; the rest keeps the template's
+ * bytes, so a note is never rewritten for formatting alone.
+ */
+function applyPreservedProperties(
+	content: string,
+	properties: Record<string, unknown>
+): string {
+	const rendered =
+		parseFrontmatterRecord(splitFrontmatter(content).frontmatter) ?? {};
+	const entries: Record<string, string> = {};
+	for (const [key, value] of Object.entries(properties)) {
+		if (!sameValue(rendered[key], value)) {
+			entries[key] = stringifyYaml({ [key]: value }).trimEnd();
+		}
+	}
+	if (Object.keys(entries).length === 0) {
+		return content;
+	}
+
+	const spliced = replaceFrontmatterEntries(content, entries);
+	const check = parseFrontmatterRecord(splitFrontmatter(spliced).frontmatter);
+	if (
+		check &&
+		Object.keys(entries).every((key) => sameValue(check[key], properties[key]))
+	) {
+		return spliced;
+	}
+	// The template's YAML is unusual enough that splicing lines broke it:
+	// rewrite the whole block instead.
+	try {
+		return replaceFrontmatter(
+			content,
+			stringifyYaml({ ...rendered, ...properties }).trimEnd()
+		);
+	} catch (error) {
+		console.warn("Dinox: Failed to reapply preserved properties", error);
+		return content;
+	}
+}
+
+// Mirrors the create/rename decisions of handleNoteProcessing without writing.
+function planNoteWrite(args: {
+	app: App;
+	noteId: string;
+	title: string;
+	desiredPath: string;
+	existingFile: TFile | null;
+}): SyncPlanItem {
+	const { app, noteId, title, desiredPath, existingFile } = args;
+	if (!existingFile) {
+		return {
+			noteId,
+			title,
+			action: "create",
+			path: resolveUniqueNotePath(app, desiredPath, noteId),
+		};
+	}
+	if (existingFile.path !== desiredPath) {
+		const candidate = resolveUniqueNotePath(
+			app,
+			desiredPath,
+			noteId,
+			existingFile.path
+		);
+		if (
+			candidate !== existingFile.path &&
+			!app.vault.getAbstractFileByPath(candidate)
+		) {
+			return {
+				noteId,
+				title,
+				action: "rename",
+				path: candidate,
+				fromPath: existingFile.path,
+			};
+		}
+	}
+	return { noteId, title, action: "modify", path: existingFile.path };
+}
+
+function getDailyNoteEntryTitle(noteData: Note, baseFilename: string): string {
+	const rawTitle = noteData.title?.trim();
+	if (rawTitle) {
+		return rawTitle;
+	}
+	return baseFilename.replace(/_/g, " ");
+}
+
+function buildDailyNotePreview(content: string): string | undefined {
+	const raw = content ?? "";
+	if (!raw) {
+		return undefined;
+	}
+	const lines = raw.split(/\r?\n/);
+	let index = 0;
+	if (lines[index]?.trim() === "---") {
+		index++;
+		while (index < lines.length && lines[index].trim() !== "---") {
+			index++;
+		}
+		if (index < lines.length) {
+			index++;
+		}
+	}
+	for (; index < lines.length; index++) {
+		const line = lines[index].trim();
+		if (!line) {
+			continue;
+		}
+		if (line.startsWith(">")) {
+			continue;
+		}
+		const cleaned = line.replace(/^#+\s*/, "").replace(/[`*_]/g, "");
+		if (!cleaned) {
+			continue;
+		}
+		return cleaned.length > 120 ? `${cleaned.slice(0, 117)}...` : cleaned;
+	}
+	return undefined;
+}
+
+/**
+ * Template a note renders with: its routing rule's, else the one for its
+ * category (audio, material or note), else the main one.
+ */
+export function resolveNoteTemplate(
+	noteData: Note,
+	settings: DinoPluginSettings
+): string {
+	const rule = findRoutingRule(noteData, settings.routingRules);
+	if (rule?.template.trim()) {
+		return rule.template;
+	}
+	const category = noteData.isAudio
+		? "audio"
+		: categorizeDinoxType(getNoteTypeForRouting(noteData)).category;
+	const typeTemplate = settings.typeTemplates[category];
+	return typeTemplate.trim() ? typeTemplate : settings.template;
+}
+
+/** Frontmatter flag set by the `mark` deletion policy. */
+export const DELETED_KEY = "dinox_deleted";
+const DELETED_AT_KEY = "dinox_deleted_at";
+
+export function resolveArchiveDir(baseDir: string, settings: DinoPluginSettings): string {
+	const folder =
+		sanitizeRelativeFolderSubpath(settings.deletionArchiveFolder) ??
+		DEFAULT_SETTINGS.deletionArchiveFolder;
+	return normalizePath(`${baseDir}/${folder}`);
+}
+
+/**
+ * Apply the configured deletion policy to the local copy of a note deleted in
+ * Dinox. Trashing forgets the note; archiving and marking keep the file (and
+ * the links pointing at it) along with its sync records, so a note restored in
+ * Dinox is updated in place again.
+ */
+async function handleRemoteDeletion(args: {
+	app: App;
+	settings: DinoPluginSettings;
+	baseDir: string;
+	sourceId: string;
+	planTitle: string;
+	existingFile: TFile | null;
+	notePathById: Record<string, string>;
+	syncedNotes: Record<string, SyncedNoteRecord>;
+	baseStore: SyncBaseStore;
+	journal: SyncJournal | null;
+	plan?: SyncPlanItem[];
+}): Promise<NoteProcessingResult> {
+	const { app, sourceId, existingFile, journal, plan } = args;
+	const policy = args.settings.deletionPolicy;
+
+	if (policy === "ignore") {
+		return { status: "skipped" };
+	}
+
+	if (!existingFile) {
+		if (policy === "trash" && !plan) {
+			journal?.recordBase(sourceId, args.baseStore.get(sourceId));
+			delete args.notePathById[sourceId];
+			delete args.syncedNotes[sourceId];
+			args.baseStore.delete(sourceId);
+		}
+		return { status: "skipped" };
+	}
+
+	if (policy === "archive") {
+		const archiveDir = resolveArchiveDir(args.baseDir, args.settings);
+		if (existingFile.path.startsWith(`${archiveDir}/`)) {
+			return { status: "skipped" };
+		}
+		const target = resolveUniqueNotePath(
+			app,
+			`${archiveDir}/${existingFile.name}`,
+			sourceId,
+			existingFile.path
+		);
+		const fromPath = existingFile.path;
+		if (plan) {
+			plan.push({
+				noteId: sourceId,
+				title: args.planTitle,
+				action: "rename",
+				path: target,
+				fromPath,
+			});
+			return { status: "planned" };
+		}
+		await ensureFolderExists(app, archiveDir);
+		await renameOwnFile(app, existingFile, target);
+		journal?.recordRename(fromPath, target);
+		args.notePathById[sourceId] = target;
+		return { status: "deleted", notePath: fromPath, archivedPath: target };
+	}
+
+	if (policy === "mark") {
+		const existingFrontmatter = await readLocalFrontmatter(app, existingFile);
+		if (existingFrontmatter?.[DELETED_KEY] === true) {
+			return { status: "skipped" };
+		}
+		if (plan) {
+			plan.push({
+				noteId: sourceId,
+				title: args.planTitle,
+				action: "modify",
+				path: existingFile.path,
+			});
+			return { status: "planned" };
+		}
+		const previous = await app.vault.read(existingFile);
+		journal?.recordModify(existingFile.path, previous);
+		await app.fileManager.processFrontMatter(
+			existingFile,
+			(frontmatter: Record<string, unknown>) => {
+				frontmatter[DELETED_KEY] = true;
+				frontmatter[DELETED_AT_KEY] = new Date().toISOString();
+			}
+		);
+		// The marker is ours, not a local edit: an unmodified file stays
+		// unmodified so restoring the note in Dinox simply overwrites it.
+		const record = args.syncedNotes[sourceId];
+		if (record) {
+			const markedHash = hashContent(await app.vault.read(existingFile));
+			if (record.localHash === hashContent(previous)) {
+				record.localHash = markedHash;
+			} else {
+				record.writtenHash = markedHash;
+			}
+		}
+		return { status: "deleted", notePath: existingFile.path };
+	}
+
+	if (plan) {
+		plan.push({
+			noteId: sourceId,
+			title: args.planTitle,
+			action: "delete",
+			path: existingFile.path,
+		});
+		return { status: "planned" };
+	}
+	journal?.recordBase(sourceId, args.baseStore.get(sourceId));
+	journal?.recordTrash(existingFile.path, await app.vault.read(existingFile));
+	await app.fileManager.trashFile(existingFile);
+	delete args.notePathById[sourceId];
+	delete args.syncedNotes[sourceId];
+	args.baseStore.delete(sourceId);
+	return { status: "deleted", notePath: existingFile.path };
+}
+
+async function handleNoteProcessing(args: {
+	app: App;
+	settings: DinoPluginSettings;
+	noteData: Note;
+	baseDir: string;
+	datePath: string;
+	notePathById: Record<string, string>;
+	localIndex: Record<string, string>;
+	syncedNotes: Record<string, SyncedNoteRecord>;
+	conflicts: SyncConflict[];
+	pinnedNoteIds: ReadonlySet<string>;
+	baseStore: SyncBaseStore;
+	journal: SyncJournal | null;
+	plan?: SyncPlanItem[];
+}): Promise<NoteProcessingResult> {
+	const {
+		app,
+		settings,
+		noteData,
+		datePath,
+		notePathById,
+		localIndex,
+		syncedNotes,
+		journal,
+	} = args;
+
+	const sourceId = (noteData.noteId ?? "").trim();
+	if (!sourceId) {
+		throw new Error("Dinox: noteId is missing in API response.");
+	}
+
+	const ignoreKey = settings.ignoreSyncKey;
+
+	const preserveKeysSetting = settings.preserveKeys || "";
+	const keysToPreserve = preserveKeysSetting
+		.split(/[,\n\r]+/)
+		.map((k) => k.trim())
+		.filter((k) => k !== "" && k !== "noteId" && k !== "source_app_id");
+
+	const baseFilename = buildNoteBaseFilename(noteData, settings);
 	const desiredPath = normalizePath(`${datePath}/${baseFilename}.md`);
 
 	let existingFile: TFile | null = null;
@@ -301,7 +599,7 @@ async function handleNoteProcessing(args: {
 			);
 			if (existingFrontmatter) {
 				if (ignoreKey && existingFrontmatter[ignoreKey] === true) {
-					return { status: "skipped" };
+					return { status: "skipped", notePath: existingFile.path };
 				}
 				for (const key of keysToPreserve) {
 					if (
@@ -323,27 +621,153 @@ async function handleNoteProcessing(args: {
 		}
 	}
 
+	const planTitle = noteData.title?.trim() || baseFilename;
+
 	if (noteData.isDel) {
-		if (existingFile) {
-			await app.fileManager.trashFile(existingFile);
-			delete notePathById[sourceId];
-			return { status: "deleted", notePath: existingFile.path };
-		}
-		delete notePathById[sourceId];
-		return { status: "skipped" };
+		return await handleRemoteDeletion({
+			app,
+			settings,
+			baseDir: args.baseDir,
+			sourceId,
+			planTitle,
+			existingFile,
+			notePathById,
+			syncedNotes,
+			baseStore: args.baseStore,
+			journal,
+			plan: args.plan,
+		});
 	}
 
 	// Content arrives as structured markdown; render the user's template here
 	// (rendering moved off the server) before writing to the vault.
-	const rendered = renderNoteTemplate(settings.template, noteData);
+	const rendered = renderNoteTemplate(
+		resolveNoteTemplate(noteData, settings),
+		noteData
+	);
 	const finalContent = stripQueryParamsFromImageUrls(rendered).content;
+	const remoteHash = hashContent(finalContent);
+
+	// Compare both sides against what this plugin last wrote. Notes synced
+	// before hashes were recorded have no baseline and are overwritten as
+	// before.
+	const syncedRecord = syncedNotes[sourceId];
+	const remoteSplit = splitFrontmatter(finalContent);
+	const localContent = existingFile ? await app.vault.read(existingFile) : null;
+	let contentToWrite = finalContent;
+	let merge: ThreeWayMergeResult | null = null;
+	if (existingFile && localContent !== null && syncedRecord) {
+		const localChanged =
+			hashContent(localContent) !== syncedRecord.localHash;
+		const remoteChanged = remoteHash !== syncedRecord.remoteHash;
+		if (localChanged && !remoteChanged) {
+			// Re-delivered but unchanged remotely (e.g. after a cursor reset):
+			// keep the local edits.
+			return { status: "skipped", notePath: existingFile.path };
+		}
+		const baseBody = args.baseStore.get(sourceId);
+		if (
+			localChanged &&
+			remoteChanged &&
+			settings.conflictStrategy === "merge" &&
+			baseBody !== undefined
+		) {
+			// Frontmatter always comes from Dinox (plus preserved keys); only
+			// the body is merged line by line.
+			merge = mergeThreeWay(
+				baseBody,
+				splitFrontmatter(localContent).body,
+				remoteSplit.body
+			);
+			contentToWrite = replaceBody(finalContent, merge.text);
+		} else if (localChanged && remoteChanged) {
+			if (args.plan) {
+				args.plan.push({
+					noteId: sourceId,
+					title: planTitle,
+					action: "conflict",
+					path: existingFile.path,
+				});
+				return { status: "planned" };
+			}
+			const previous = args.conflicts.find(
+				(entry) => entry.noteId === sourceId
+			);
+			const conflictPath = await writeConflictCopy({
+				app,
+				file: existingFile,
+				noteId: sourceId,
+				content: finalContent,
+				existingConflictPath: previous?.conflictPath,
+				journal,
+			});
+			upsertConflict(args.conflicts, {
+				kind: "copy",
+				noteId: sourceId,
+				notePath: existingFile.path,
+				conflictPath,
+				remoteHash,
+				detectedAt: new Date().toISOString(),
+			});
+			return {
+				status: "conflict",
+				notePath: existingFile.path,
+				conflictPath,
+			};
+		}
+	}
+
+	// A note the user moved stays where it is; only its content is updated.
+	// So does one outside the sync folder, which the user put there and the
+	// vault lookup found.
+	const targetPath =
+		existingFile &&
+		((settings.pinMovedNotes && args.pinnedNoteIds.has(sourceId)) ||
+			!existingFile.path.startsWith(`${args.baseDir}/`))
+			? existingFile.path
+			: desiredPath;
+
+	// Preserved keys go into the output before comparing, so an unchanged note
+	// is not touched at all and a changed one is written once.
+	if (Object.keys(propertiesToPreserve).length > 0) {
+		contentToWrite = applyPreservedProperties(
+			contentToWrite,
+			propertiesToPreserve
+		);
+	}
+	const contentUnchanged = localContent === contentToWrite;
+
+	if (existingFile && contentUnchanged && existingFile.path === targetPath) {
+		if (!args.plan) {
+			journal?.recordBase(sourceId, args.baseStore.get(sourceId));
+			args.baseStore.set(sourceId, remoteSplit.body);
+			syncedNotes[sourceId] = {
+				localHash: hashContent(contentToWrite),
+				remoteHash,
+			};
+		}
+		return { status: "unchanged", notePath: existingFile.path };
+	}
+
+	if (args.plan) {
+		args.plan.push(
+			planNoteWrite({
+				app,
+				noteId: sourceId,
+				title: planTitle,
+				desiredPath: targetPath,
+				existingFile,
+			})
+		);
+		return { status: "planned" };
+	}
 
-	let targetFile: TFile;
 	let finalPath = desiredPath;
+	let action: "created" | "updated" | "moved" = "updated";
 
 	if (existingFile) {
-		targetFile = existingFile;
-		if (targetFile.path !== desiredPath) {
+		const targetFile = existingFile;
+		if (targetFile.path !== targetPath) {
 			const candidate = resolveUniqueNotePath(
 				app,
 				desiredPath,
@@ -357,8 +781,11 @@ async function handleNoteProcessing(args: {
 				if (folder) {
 					await ensureFolderExists(app, folder);
 				}
-				await app.fileManager.renameFile(targetFile, candidate);
+				const fromPath = targetFile.path;
+				await renameOwnFile(app, targetFile, candidate);
+				journal?.recordRename(fromPath, candidate);
 				finalPath = candidate;
+				action = "moved";
 			} else {
 				finalPath = targetFile.path;
 			}
@@ -366,7 +793,10 @@ async function handleNoteProcessing(args: {
 			finalPath = targetFile.path;
 		}
 
-		await app.vault.modify(targetFile, finalContent);
+		if (!contentUnchanged) {
+			journal?.recordModify(finalPath, localContent ?? "");
+			await app.vault.modify(targetFile, contentToWrite);
+		}
 	} else {
 		const uniquePath = resolveUniqueNotePath(app, desiredPath, sourceId);
 		const folderIndex = uniquePath.lastIndexOf("/");
@@ -374,40 +804,51 @@ async function handleNoteProcessing(args: {
 		if (folder) {
 			await ensureFolderExists(app, folder);
 		}
-		targetFile = await app.vault.create(uniquePath, finalContent);
+		await app.vault.create(uniquePath, contentToWrite);
+		journal?.recordCreate(uniquePath);
 		finalPath = uniquePath;
+		action = "created";
 	}
 
 	notePathById[sourceId] = finalPath;
 
-	if (Object.keys(propertiesToPreserve).length > 0) {
-		try {
-			await app.fileManager.processFrontMatter(
-				targetFile,
-				(frontmatter: Record<string, unknown>) => {
-					for (const [key, value] of Object.entries(propertiesToPreserve)) {
-						frontmatter[key] = value;
-					}
-				}
-			);
-		} catch (frontmatterError) {
-			console.warn(
-				`Dinox: Failed to reapply preserved properties for ${targetFile.path}`,
-				frontmatterError
-			);
-		}
+	// The Dinox body becomes the base for the next merge. A merge that kept
+	// local edits leaves the file ahead of Dinox, so it must not count as an
+	// unmodified copy next time.
+	journal?.recordBase(sourceId, args.baseStore.get(sourceId));
+	args.baseStore.set(sourceId, remoteSplit.body);
+	const keepsLocalEdits = !!merge && merge.text !== remoteSplit.body;
+	const writtenHash = hashContent(contentToWrite);
+	syncedNotes[sourceId] = keepsLocalEdits
+		? { localHash: "", remoteHash, writtenHash }
+		: { localHash: writtenHash, remoteHash };
+	if (merge && merge.conflicts > 0) {
+		upsertConflict(args.conflicts, {
+			kind: "markers",
+			noteId: sourceId,
+			notePath: finalPath,
+			conflictPath: "",
+			remoteHash,
+			detectedAt: new Date().toISOString(),
+		});
 	}
 
 	return {
 		status: "processed",
+		action,
 		notePath: finalPath,
 		title: getDailyNoteEntryTitle(noteData, baseFilename),
-		preview: buildDailyNotePreview(finalContent),
+		preview: buildDailyNotePreview(contentToWrite),
+		merge: merge ? { conflicts: merge.conflicts } : undefined,
 	};
 }
 
 // Yield to the main thread so a long sync never starves the UI on mobile.
 const YIELD_EVERY = 20;
+
+// Save the checkpoint this often within a page, so an interrupted run does
+// not redo a whole page of writes.
+const CHECKPOINT_EVERY = 10;
 function yieldToMain(): Promise<void> {
 	return new Promise((resolve) => window.setTimeout(resolve, 0));
 }
@@ -423,6 +864,88 @@ function deriveDateOnly(value: string): string | null {
 	return `${year}-${month}-${day}`;
 }
 
+/**
+ * Folder a note belongs in under the current layout settings, plus the
+ * folders leading to it (outermost first) that a write has to create.
+ */
+export function resolveNoteFolders(args: {
+	noteData: Note;
+	settings: DinoPluginSettings;
+	baseDir: string;
+}): { datePath: string; folders: string[] } {
+	const { noteData, settings } = args;
+	const dailyDate = deriveDateOnly(noteData.createTime);
+	const safeDate = dailyDate ? dailyDate.replace(/[^0-9-]/g, "") : "";
+	const wantsNestedLayout = settings.fileLayout === "nested" && !!safeDate;
+
+	// A routing rule's folder replaces the type and zettel box folders.
+	const ruleFolder = findRoutingRule(noteData, settings.routingRules)?.folder;
+	if (ruleFolder) {
+		const ruleDir = normalizePath(`${args.baseDir}/${ruleFolder}`);
+		const datePath = wantsNestedLayout
+			? normalizePath(`${ruleDir}/${safeDate}`)
+			: ruleDir;
+		return {
+			datePath,
+			folders: wantsNestedLayout ? [ruleDir, datePath] : [ruleDir],
+		};
+	}
+
+	const typeValue = getNoteTypeForRouting(noteData);
+	const categorization = categorizeDinoxType(typeValue);
+	if (!categorization.isKnown && categorization.normalizedType) {
+		console.warn(
+			`Dinox: Unknown note type "${categorization.normalizedType}" for note ${noteData.noteId}. Defaulting to note folder.`
+		);
+	}
+
+	const categoryBaseDir = resolveCategoryBaseDir({
+		baseDir: args.baseDir,
+		typeFolders: settings.typeFolders,
+		category: categorization.category,
+	});
+	const folders = [categoryBaseDir];
+
+	const zettelBoxFolder = resolveZettelBoxFolderPath({
+		noteData,
+		enabled: settings.zettelBoxFolders.enabled,
+	});
+
+	const noteBaseDir = zettelBoxFolder
+		? normalizePath(`${categoryBaseDir}/${zettelBoxFolder}`)
+		: categoryBaseDir;
+	if (noteBaseDir !== categoryBaseDir) {
+		folders.push(noteBaseDir);
+	}
+
+	const datePath = wantsNestedLayout
+		? normalizePath(`${noteBaseDir}/${safeDate}`)
+		: noteBaseDir;
+	if (wantsNestedLayout) {
+		folders.push(datePath);
+	}
+
+	return { datePath, folders };
+}
+
+export type SyncReportAction =
+	| "created"
+	| "updated"
+	| "moved"
+	| "deleted"
+	| "skipped"
+	| "conflict"
+	| "failed";
+
+/** What happened to one note during a run, listed in the sync report. */
+export interface SyncReportEntry {
+	action: SyncReportAction;
+	title: string;
+	/** Null when the note has no local file, e.g. it failed before writing. */
+	notePath: string | null;
+	error?: string;
+}
+
 /**
  * Mutable state shared across all pages of a single sync run so streaming
  * pages accumulate daily-note edits and avoid re-ensuring the same folders.
@@ -431,21 +954,96 @@ export interface SyncSession {
 	dailyNoteChanges: Map<string, DailyNoteChangeSet>;
 	ensuredFolders: Set<string>;
 	processed: number;
+	/** Notes whose file already matched Dinox, so nothing was written. */
+	unchanged: number;
 	deleted: number;
 	failed: number;
+	merged: number;
+	conflicts: number;
+	/** Records file operations for undo; null for runs that are not journaled. */
+	journal: SyncJournal | null;
+	/**
+	 * Notes of the page in progress that are finished. Saved with the
+	 * checkpoint taken every few notes, so a resumed run skips them when the
+	 * page is delivered again.
+	 */
+	processedNoteIds: Set<string>;
+	/**
+	 * When set, deleted notes are collected here instead of being applied, so
+	 * the caller can check them against the deletion guard first.
+	 */
+	deferredDeletions: Note[] | null;
+	/** Per-note outcomes in the order they happened. */
+	entries: SyncReportEntry[];
 }
 
-export function createSyncSession(): SyncSession {
+export function createSyncSession(journal?: SyncJournal): SyncSession {
 	return {
 		dailyNoteChanges: new Map(),
 		ensuredFolders: new Set(),
 		processed: 0,
+		unchanged: 0,
 		deleted: 0,
 		failed: 0,
+		merged: 0,
+		conflicts: 0,
+		journal: journal ?? null,
+		processedNoteIds: new Set(),
+		deferredDeletions: null,
+		entries: [],
 	};
 }
 
-/** Process one page of synced notes, updating the shared session in place. */
+function recordReportEntry(
+	session: SyncSession,
+	noteData: Note,
+	result: NoteProcessingResult
+): void {
+	const title = noteData.title?.trim() || noteData.noteId;
+	switch (result.status) {
+		case "processed":
+			session.entries.push({
+				action: result.action,
+				title: result.title,
+				notePath: result.notePath,
+			});
+			break;
+		case "deleted":
+			session.entries.push({
+				action: "deleted",
+				title,
+				notePath: result.archivedPath ?? result.notePath,
+			});
+			break;
+		case "conflict":
+			session.entries.push({
+				action: "conflict",
+				title,
+				notePath: result.notePath,
+			});
+			break;
+		case "skipped":
+			// Skips without a file (e.g. a deletion of a note never synced)
+			// are not worth listing.
+			if (result.notePath) {
+				session.entries.push({
+					action: "skipped",
+					title,
+					notePath: result.notePath,
+				});
+			}
+			break;
+		default:
+			break;
+	}
+}
+
+/**
+ * Process one page of synced notes, updating the shared session in place.
+ * With `plan` set this is a dry run: nothing is written and every file
+ * operation is appended to the plan instead. Callers pass copies of the
+ * mutable maps in that case.
+ */
 export async function processNotesPage(args: {
 	app: App;
 	settings: DinoPluginSettings;
@@ -454,7 +1052,15 @@ export async function processNotesPage(args: {
 	baseDir: string;
 	notePathById: Record<string, string>;
 	localIndex: Record<string, string>;
+	syncedNotes: Record<string, SyncedNoteRecord>;
+	conflicts: SyncConflict[];
+	failedNotes: Record<string, FailedNoteRecord>;
+	pinnedNoteIds: ReadonlySet<string>;
+	baseStore: SyncBaseStore;
 	session: SyncSession;
+	plan?: SyncPlanItem[];
+	/** Saves the run's progress; called every few notes of the page. */
+	onCheckpoint?: () => Promise<void>;
 }): Promise<void> {
 	const { session } = args;
 	const baseDir = normalizePath(args.baseDir);
@@ -471,7 +1077,7 @@ export async function processNotesPage(args: {
 
 	const ensureFolderOnce = async (folderPath: string): Promise<void> => {
 		const normalized = normalizePath(folderPath);
-		if (session.ensuredFolders.has(normalized)) {
+		if (args.plan || session.ensuredFolders.has(normalized)) {
 			return;
 		}
 		session.ensuredFolders.add(normalized);
@@ -479,59 +1085,59 @@ export async function processNotesPage(args: {
 	};
 
 	let sinceYield = 0;
-	let failedInPage = 0;
-	let firstFailedNoteId = "";
+	let sinceCheckpoint = 0;
 	for (const noteData of args.notes) {
-		const dailyDate = deriveDateOnly(noteData.createTime);
-		const safeDate = dailyDate ? dailyDate.replace(/[^0-9-]/g, "") : "";
-		const wantsNestedLayout =
-			args.settings.fileLayout === "nested" && !!safeDate;
-
-		const typeValue = getNoteTypeForRouting(noteData);
-		const categorization = categorizeDinoxType(typeValue);
-		if (!categorization.isKnown && categorization.normalizedType) {
-			console.warn(
-				`Dinox: Unknown note type "${categorization.normalizedType}" for note ${noteData.noteId}. Defaulting to note folder.`
-			);
+		// A resumed run may be handed notes it already wrote before it was
+		// interrupted.
+		if (session.processedNoteIds.has(noteData.noteId)) {
+			continue;
 		}
-
-		const categoryBaseDir = resolveCategoryBaseDir({
-			baseDir,
-			typeFolders: args.settings.typeFolders,
-			category: categorization.category,
-		});
-		await ensureFolderOnce(categoryBaseDir);
-
-		const zettelBoxFolder = resolveZettelBoxFolderPath({
+		if (noteData.isDel && session.deferredDeletions && !args.plan) {
+			if (
+				!session.deferredDeletions.some(
+					(note) => note.noteId === noteData.noteId
+				)
+			) {
+				// A deletion does not need the body, which would only bloat
+				// the checkpoint.
+				session.deferredDeletions.push({ ...noteData, content: "" });
+			}
+			continue;
+		}
+		const dailyDate = deriveDateOnly(noteData.createTime);
+		const layout = resolveNoteFolders({
 			noteData,
-			enabled: args.settings.zettelBoxFolders.enabled,
+			settings: args.settings,
+			baseDir,
 		});
-
-		const noteBaseDir = zettelBoxFolder
-			? normalizePath(`${categoryBaseDir}/${zettelBoxFolder}`)
-			: categoryBaseDir;
-
-		if (noteBaseDir !== categoryBaseDir) {
-			await ensureFolderOnce(noteBaseDir);
-		}
-
-		const datePath = wantsNestedLayout
-			? normalizePath(`${noteBaseDir}/${safeDate}`)
-			: noteBaseDir;
-
-		if (wantsNestedLayout) {
-			await ensureFolderOnce(datePath);
+		// A deletion only looks up the existing file, so its folders (and
+		// those of the made-up deletions used for cleanups) are not created.
+		if (!noteData.isDel) {
+			for (const folder of layout.folders) {
+				await ensureFolderOnce(folder);
+			}
 		}
+		const { datePath } = layout;
 
 		try {
 			const result = await handleNoteProcessing({
 				app: args.app,
 				settings: args.settings,
 				noteData,
+				baseDir,
 				datePath,
 				notePathById: args.notePathById,
 				localIndex: args.localIndex,
+				syncedNotes: args.syncedNotes,
+				conflicts: args.conflicts,
+				pinnedNoteIds: args.pinnedNoteIds,
+				baseStore: args.baseStore,
+				journal: session.journal,
+				plan: args.plan,
 			});
+			if (!args.plan && result.status !== "planned") {
+				recordReportEntry(session, noteData, result);
+			}
 			if (result.status === "deleted") {
 				session.deleted++;
 				if (trackDailyNotes && dailyDate && result.notePath) {
@@ -542,6 +1148,12 @@ export async function processNotesPage(args: {
 				}
 			} else if (result.status === "processed") {
 				session.processed++;
+				if (result.merge) {
+					session.merged++;
+					if (result.merge.conflicts > 0) {
+						session.conflicts++;
+					}
+				}
 				if (trackDailyNotes && dailyDate) {
 					ensureChangeSet(dailyDate).added.push({
 						notePath: result.notePath,
@@ -549,12 +1161,36 @@ export async function processNotesPage(args: {
 						preview: result.preview,
 					});
 				}
+			} else if (result.status === "unchanged") {
+				session.unchanged++;
+			} else if (result.status === "conflict") {
+				session.conflicts++;
+			}
+			if (!args.plan) {
+				session.processedNoteIds.add(noteData.noteId);
+				delete args.failedNotes[noteData.noteId];
+				// A note restored in Dinox cancels a deletion held back
+				// from an earlier run.
+				const heldIndex =
+					session.deferredDeletions?.findIndex(
+						(note) => note.noteId === noteData.noteId
+					) ?? -1;
+				if (!noteData.isDel && heldIndex !== -1) {
+					session.deferredDeletions?.splice(heldIndex, 1);
+				}
 			}
 		} catch (noteError) {
 			session.failed++;
-			failedInPage++;
-			if (!firstFailedNoteId) {
-				firstFailedNoteId = noteData.noteId;
+			// Queue the note for a later retry instead of failing the page,
+			// so one broken note cannot hold back the cursor.
+			if (!args.plan) {
+				recordFailedNote(args.failedNotes, noteData, noteError);
+				session.entries.push({
+					action: "failed",
+					title: noteData.title?.trim() || noteData.noteId,
+					notePath: args.notePathById[noteData.noteId] ?? null,
+					error: getErrorMessage(noteError),
+				});
 			}
 			console.error(
 				`Dinox: Failed to process note ${noteData.noteId}:`,
@@ -567,17 +1203,15 @@ export async function processNotesPage(args: {
 			);
 		}
 
+		if (args.onCheckpoint && ++sinceCheckpoint >= CHECKPOINT_EVERY) {
+			sinceCheckpoint = 0;
+			await args.onCheckpoint();
+		}
 		if (++sinceYield >= YIELD_EVERY) {
 			sinceYield = 0;
 			await yieldToMain();
 		}
 	}
-
-	if (failedInPage > 0) {
-		throw new Error(
-			`Dinox: ${failedInPage} note(s) failed to process; sync cursor was not advanced. First failed note: ${firstFailedNoteId}.`
-		);
-	}
 }
 
 /** Apply accumulated daily-note edits once, after all pages are processed. */
@@ -627,10 +1261,14 @@ export async function flushDailyNoteChanges(args: {
 	}
 }
 
-export async function ensureBaseDir(app: App, dir: string): Promise<string> {
-	const baseDir = normalizePath(
+export function resolveBaseDir(dir: string): string {
+	return normalizePath(
 		sanitizeRelativeFolderSubpath(dir) ?? DEFAULT_SETTINGS.dir
 	);
+}
+
+export async function ensureBaseDir(app: App, dir: string): Promise<string> {
+	const baseDir = resolveBaseDir(dir);
 	await ensureFolderExists(app, baseDir);
 	return baseDir;
 }
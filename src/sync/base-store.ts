@@ -0,0 +1,64 @@
+import type { DataAdapter } from "obsidian";
+
+/**
+ * Last synced note bodies, keyed by noteId — the common ancestor for the
+ * three-way merge. Kept in its own file next to data.json because full note
+ * bodies would bloat the settings file that is rewritten on every change.
+ */
+export class SyncBaseStore {
+	private dirty = false;
+
+	private constructor(
+		private readonly adapter: DataAdapter,
+		private readonly path: string,
+		private readonly bodies: Record<string, string>
+	) {}
+
+	static async load(adapter: DataAdapter, path: string): Promise<SyncBaseStore> {
+		const bodies: Record<string, string> = {};
+		try {
+			if (await adapter.exists(path)) {
+				const parsed: unknown = JSON.parse(await adapter.read(path));
+				if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+					for (const [noteId, body] of Object.entries(parsed)) {
+						if (typeof body === "string") {
+							bodies[noteId] = body;
+						}
+					}
+				}
+			}
+		} catch (error) {
+			// A corrupt store only costs merge precision: notes without a base
+			// fall back to a conflict copy.
+			console.warn("Dinox: Failed to read sync base store:", error);
+		}
+		return new SyncBaseStore(adapter, path, bodies);
+	}
+
+	get(noteId: string): string | undefined {
+		return this.bodies[noteId];
+	}
+
+	set(noteId: string, body: string): void {
+		if (this.bodies[noteId] === body) {
+			return;
+		}
+		this.bodies[noteId] = body;
+		this.dirty = true;
+	}
+
+	delete(noteId: string): void {
+		if (noteId in this.bodies) {
+			delete this.bodies[noteId];
+			this.dirty = true;
+		}
+	}
+
+	async save(): Promise<void> {
+		if (!this.dirty) {
+			return;
+		}
+		await this.adapter.write(this.path, JSON.stringify(this.bodies));
+		this.dirty = false;
+	}
+}
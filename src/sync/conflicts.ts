@@ -0,0 +1,168 @@
+import { App, TFile } from "obsidian";
+import type { SyncConflict, SyncedNoteRecord } from "../persisted-data";
+import { splitFrontmatter } from "../markdown";
+import { hashContent } from "../utils";
+import { addSuffixToMarkdownPath } from "../vault";
+import type { SyncBaseStore } from "./base-store";
+import type { SyncJournal } from "./journal";
+import { CONFLICT_MARKER_LOCAL } from "./merge";
+
+/**
+ * Frontmatter key written to conflict copies instead of `noteId`, so the copy
+ * is never mistaken for (or indexed as a duplicate of) the synced note.
+ */
+export const CONFLICT_OF_KEY = "dinox_conflict_of";
+
+const CONFLICT_SUFFIX = " (Dinox conflict)";
+
+export type ConflictResolution = "keepLocal" | "useRemote" | "dismiss";
+
+function resolveConflictCopyPath(app: App, notePath: string): string {
+	const preferred = addSuffixToMarkdownPath(notePath, CONFLICT_SUFFIX);
+	if (!app.vault.getAbstractFileByPath(preferred)) {
+		return preferred;
+	}
+	for (let attempt = 2; attempt < 50; attempt++) {
+		const candidate = addSuffixToMarkdownPath(
+			notePath,
+			`${CONFLICT_SUFFIX}-${attempt}`
+		);
+		if (!app.vault.getAbstractFileByPath(candidate)) {
+			return candidate;
+		}
+	}
+	throw new Error(
+		`Dinox: Could not find a free conflict copy path for ${notePath}.`
+	);
+}
+
+/**
+ * Write the Dinox version of a note next to the local file. An existing copy
+ * for the same note is refreshed in place rather than piling up new copies.
+ */
+export async function writeConflictCopy(args: {
+	app: App;
+	file: TFile;
+	noteId: string;
+	content: string;
+	existingConflictPath?: string;
+	journal?: SyncJournal | null;
+}): Promise<string> {
+	const { app } = args;
+	const previous = args.existingConflictPath
+		? app.vault.getAbstractFileByPath(args.existingConflictPath)
+		: null;
+
+	let copy: TFile;
+	if (previous instanceof TFile) {
+		args.journal?.recordModify(previous.path, await app.vault.read(previous));
+		await app.vault.modify(previous, args.content);
+		copy = previous;
+	} else {
+		copy = await app.vault.create(
+			resolveConflictCopyPath(app, args.file.path),
+			args.content
+		);
+		args.journal?.recordCreate(copy.path);
+	}
+
+	await app.fileManager.processFrontMatter(
+		copy,
+		(frontmatter: Record<string, unknown>) => {
+			delete frontmatter.noteId;
+			delete frontmatter.source_app_id;
+			frontmatter[CONFLICT_OF_KEY] = args.noteId;
+		}
+	);
+	return copy.path;
+}
+
+/** Replace any previous conflict entry for the same note. */
+export function upsertConflict(
+	conflicts: SyncConflict[],
+	conflict: SyncConflict
+): void {
+	const index = conflicts.findIndex(
+		(entry) => entry.noteId === conflict.noteId
+	);
+	if (index === -1) {
+		conflicts.push(conflict);
+	} else {
+		conflicts[index] = conflict;
+	}
+}
+
+/**
+ * Apply the user's decision for a conflict. The caller removes the entry from
+ * the persisted list once this resolves.
+ */
+export async function resolveConflict(args: {
+	app: App;
+	conflict: SyncConflict;
+	resolution: ConflictResolution;
+	syncedNotes: Record<string, SyncedNoteRecord>;
+	baseStore: SyncBaseStore;
+}): Promise<void> {
+	const { app, conflict } = args;
+	if (args.resolution === "dismiss") {
+		return;
+	}
+
+	const local = app.vault.getAbstractFileByPath(conflict.notePath);
+	if (!(local instanceof TFile)) {
+		throw new Error(`Dinox: ${conflict.notePath} no longer exists.`);
+	}
+
+	if (conflict.kind === "markers") {
+		// The merged file already holds both sides; the user edits out the
+		// markers and then marks the note resolved.
+		const content = await app.vault.read(local);
+		if (content.split(/\r?\n/).includes(CONFLICT_MARKER_LOCAL)) {
+			throw new Error(
+				`Dinox: ${conflict.notePath} still contains conflict markers.`
+			);
+		}
+		args.syncedNotes[conflict.noteId] = {
+			localHash: "",
+			remoteHash: conflict.remoteHash,
+		};
+		return;
+	}
+
+	const copy = app.vault.getAbstractFileByPath(conflict.conflictPath);
+	if (copy instanceof TFile) {
+		args.baseStore.set(
+			conflict.noteId,
+			splitFrontmatter(await app.vault.read(copy)).body
+		);
+	}
+
+	if (args.resolution === "useRemote") {
+		if (!(copy instanceof TFile)) {
+			throw new Error(`Dinox: ${conflict.conflictPath} no longer exists.`);
+		}
+		await app.vault.modify(local, await app.vault.read(copy));
+		await app.fileManager.processFrontMatter(
+			local,
+			(frontmatter: Record<string, unknown>) => {
+				delete frontmatter[CONFLICT_OF_KEY];
+				frontmatter.noteId = conflict.noteId;
+			}
+		);
+	}
+
+	if (copy instanceof TFile) {
+		await app.fileManager.trashFile(copy);
+	}
+
+	// Taking the Dinox version makes the file an unmodified copy again;
+	// keeping the local one leaves edits Dinox has not seen yet, so the next
+	// remote change is merged instead of overwriting them.
+	args.syncedNotes[conflict.noteId] = {
+		localHash:
+			args.resolution === "useRemote"
+				? hashContent(await app.vault.read(local))
+				: "",
+		remoteHash: conflict.remoteHash,
+	};
+}
@@ -0,0 +1,61 @@
+import { App, TFile } from "obsidian";
+import { splitFrontmatter } from "../markdown";
+
+/** Files in one sync folder that claim the same noteId. */
+export interface DuplicateNoteGroup {
+	noteId: string;
+	/** Profile whose sync folder holds the files. */
+	profileId: string;
+	files: TFile[];
+}
+
+/**
+ * What happens to the other files of a group once one is kept:
+ * - keep: they are moved to the trash
+ * - merge: their bodies are appended to the kept file, then they are trashed
+ * - detach: they stay as plain notes without a noteId
+ */
+export type DuplicateResolution = "keep" | "merge" | "detach";
+
+export async function resolveDuplicateGroup(args: {
+	app: App;
+	group: DuplicateNoteGroup;
+	keep: TFile;
+	resolution: DuplicateResolution;
+}): Promise<void> {
+	const { app, keep, resolution } = args;
+	const others = args.group.files.filter((file) => file.path !== keep.path);
+
+	if (resolution === "detach") {
+		for (const file of others) {
+			await app.fileManager.processFrontMatter(
+				file,
+				(frontmatter: Record<string, unknown>) => {
+					delete frontmatter.noteId;
+					delete frontmatter.source_app_id;
+				}
+			);
+		}
+		return;
+	}
+
+	if (resolution === "merge") {
+		const bodies: string[] = [];
+		for (const file of others) {
+			const body = splitFrontmatter(await app.vault.read(file)).body.trim();
+			if (body) {
+				bodies.push(body);
+			}
+		}
+		if (bodies.length > 0) {
+			const content = await app.vault.read(keep);
+			await app.vault.modify(
+				keep,
+				`${content.trimEnd()}\n\n${bodies.join("\n\n")}\n`
+			);
+		}
+	}
+	for (const file of others) {
+		await app.fileManager.trashFile(file);
+	}
+}
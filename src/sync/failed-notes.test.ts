@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import type { FailedNoteRecord } from "../persisted-data";
+import type { Note } from "../types";
+import { getDueFailedNotes, recordFailedNote } from "./failed-notes";
+
+const MINUTE = 60 * 1000;
+const NOW = Date.parse("2026-01-01T00:00:00.000Z");
+
+function note(noteId: string): Note {
+	return {
+		noteId,
+		title: noteId,
+		content: "",
+		createTime: "2026-01-01 00:00",
+		isDel: false,
+	};
+}
+
+describe("recordFailedNote", () => {
+	it("queues a first failure for a retry after five minutes", () => {
+		const failedNotes: Record<string, FailedNoteRecord> = {};
+		recordFailedNote(failedNotes, note("a"), new Error("boom"), NOW);
+		expect(failedNotes.a).toEqual({
+			note: note("a"),
+			error: "boom",
+			attempts: 1,
+			firstFailedAt: new Date(NOW).toISOString(),
+			nextRetryAt: new Date(NOW + 5 * MINUTE).toISOString(),
+		});
+	});
+
+	it("doubles the delay with every attempt and keeps the first failure time", () => {
+		const failedNotes: Record<string, FailedNoteRecord> = {};
+		recordFailedNote(failedNotes, note("a"), new Error("first"), NOW);
+		const later = NOW + 10 * MINUTE;
+		recordFailedNote(failedNotes, note("a"), new Error("second"), later);
+		recordFailedNote(failedNotes, note("a"), new Error("third"), later);
+		expect(failedNotes.a).toMatchObject({
+			error: "third",
+			attempts: 3,
+			firstFailedAt: new Date(NOW).toISOString(),
+			nextRetryAt: new Date(later + 20 * MINUTE).toISOString(),
+		});
+	});
+
+	it("caps the delay at one day", () => {
+		const failedNotes: Record<string, FailedNoteRecord> = {};
+		for (let attempt = 0; attempt < 20; attempt++) {
+			recordFailedNote(failedNotes, note("a"), new Error("boom"), NOW);
+		}
+		expect(failedNotes.a.nextRetryAt).toBe(
+			new Date(NOW + 24 * 60 * MINUTE).toISOString()
+		);
+	});
+});
+
+describe("getDueFailedNotes", () => {
+	it("returns only notes whose backoff has elapsed", () => {
+		const failedNotes: Record<string, FailedNoteRecord> = {};
+		recordFailedNote(failedNotes, note("a"), new Error("boom"), NOW);
+		expect(getDueFailedNotes(failedNotes, NOW + 4 * MINUTE)).toEqual([]);
+		expect(getDueFailedNotes(failedNotes, NOW + 5 * MINUTE)).toEqual([
+			note("a"),
+		]);
+	});
+
+	it("orders due notes by when they first failed", () => {
+		const failedNotes: Record<string, FailedNoteRecord> = {};
+		const error = new Error("boom");
+		recordFailedNote(failedNotes, note("late"), error, NOW + MINUTE);
+		recordFailedNote(failedNotes, note("early"), error, NOW);
+		expect(
+			getDueFailedNotes(failedNotes, NOW + 60 * MINUTE).map(
+				(due) => due.noteId
+			)
+		).toEqual(["early", "late"]);
+	});
+
+	it("treats an unreadable retry time as due", () => {
+		const failedNotes: Record<string, FailedNoteRecord> = {
+			a: {
+				note: note("a"),
+				error: "boom",
+				attempts: 1,
+				firstFailedAt: new Date(NOW).toISOString(),
+				nextRetryAt: "",
+			},
+		};
+		expect(getDueFailedNotes(failedNotes, NOW)).toEqual([note("a")]);
+	});
+});
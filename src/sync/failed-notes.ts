@@ -0,0 +1,46 @@
+import type { FailedNoteRecord } from "../persisted-data";
+import type { Note } from "../types";
+import { getErrorMessage } from "../utils";
+
+// First retry after 5 minutes, doubling up to once a day.
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+const RETRY_MAX_DELAY_MS = 24 * 60 * 60 * 1000;
+
+function getRetryDelay(attempts: number): number {
+	return Math.min(
+		RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1),
+		RETRY_MAX_DELAY_MS
+	);
+}
+
+/** Queue a note that failed, or push back its next retry if already queued. */
+export function recordFailedNote(
+	failedNotes: Record<string, FailedNoteRecord>,
+	note: Note,
+	error: unknown,
+	now = Date.now()
+): void {
+	const previous = failedNotes[note.noteId];
+	const attempts = (previous?.attempts ?? 0) + 1;
+	failedNotes[note.noteId] = {
+		note,
+		error: getErrorMessage(error),
+		attempts,
+		firstFailedAt: previous?.firstFailedAt || new Date(now).toISOString(),
+		nextRetryAt: new Date(now + getRetryDelay(attempts)).toISOString(),
+	};
+}
+
+/** Queued notes whose backoff has elapsed, in the order they failed. */
+export function getDueFailedNotes(
+	failedNotes: Record<string, FailedNoteRecord>,
+	now = Date.now()
+): Note[] {
+	return Object.values(failedNotes)
+		.filter((entry) => {
+			const retryAt = Date.parse(entry.nextRetryAt);
+			return Number.isNaN(retryAt) || retryAt <= now;
+		})
+		.sort((a, b) => a.firstFailedAt.localeCompare(b.firstFailedAt))
+		.map((entry) => entry.note);
+}
@@ -0,0 +1,76 @@
+import type { DataAdapter } from "obsidian";
+import type { SyncTrigger } from "../auto-sync";
+import type { SyncReportEntry } from "../sync";
+
+/** One finished sync run of one profile, as shown in the history view. */
+export interface SyncHistoryRun {
+	startedAt: number;
+	finishedAt: number;
+	trigger: SyncTrigger;
+	/** Profile name when more than one profile syncs, else null. */
+	profile: string | null;
+	processed: number;
+	unchanged: number;
+	deleted: number;
+	failed: number;
+	conflicts: number;
+	/** Run-level error; per-note errors are in `notes`. */
+	error: string | null;
+	notes: SyncReportEntry[];
+	/** How many notes were left out of `notes` to keep the file small. */
+	omittedNotes: number;
+}
+
+/** Live counters of the run in progress. */
+export interface SyncProgress {
+	label: string | null;
+	processed: number;
+	deleted: number;
+	failed: number;
+}
+
+const MAX_RUNS = 30;
+const MAX_NOTES_PER_RUN = 200;
+
+/**
+ * The most recent sync runs, newest first, kept in their own file next to
+ * data.json so the list survives restarts without growing the settings file.
+ */
+export class SyncHistory {
+	private constructor(
+		private readonly adapter: DataAdapter,
+		private readonly path: string,
+		private runs: SyncHistoryRun[]
+	) {}
+
+	static async load(adapter: DataAdapter, path: string): Promise<SyncHistory> {
+		let runs: SyncHistoryRun[] = [];
+		try {
+			if (await adapter.exists(path)) {
+				const parsed: unknown = JSON.parse(await adapter.read(path));
+				if (Array.isArray(parsed)) {
+					runs = parsed as SyncHistoryRun[];
+				}
+			}
+		} catch (error) {
+			console.warn("Dinox: Failed to read sync history:", error);
+		}
+		return new SyncHistory(adapter, path, runs);
+	}
+
+	getRuns(): readonly SyncHistoryRun[] {
+		return this.runs;
+	}
+
+	async add(run: Omit<SyncHistoryRun, "omittedNotes">): Promise<void> {
+		this.runs = [
+			{
+				...run,
+				notes: run.notes.slice(0, MAX_NOTES_PER_RUN),
+				omittedNotes: Math.max(0, run.notes.length - MAX_NOTES_PER_RUN),
+			},
+			...this.runs,
+		].slice(0, MAX_RUNS);
+		await this.adapter.write(this.path, JSON.stringify(this.runs));
+	}
+}
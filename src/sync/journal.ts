@@ -0,0 +1,338 @@
+import { App, DataAdapter, TFile, normalizePath } from "obsidian";
+import type { PersistedPluginState } from "../persisted-data";
+import { ensureFolderExists, renameOwnFile } from "../vault";
+import type { SyncBaseStore } from "./base-store";
+
+export type JournalEntry =
+	| { op: "create"; path: string }
+	| { op: "modify"; path: string; previous: string }
+	| { op: "rename"; from: string; to: string }
+	| { op: "trash"; path: string; previous: string };
+
+/** Records keyed by noteId, shared by all profiles. */
+type JournaledState = Pick<PersistedPluginState, "syncedNotes" | "conflicts">;
+
+/** Sync position of one profile. */
+type JournaledPosition = Pick<
+	PersistedPluginState,
+	"lastSyncTime" | "notePathById"
+>;
+
+export interface SyncJournalRun {
+	startedAt: string;
+	entries: JournalEntry[];
+	/** Shared sync state before the run, restored on undo. */
+	previousState: JournaledState;
+	/** Position of every profile the run synced, as it was before the run. */
+	previousPositions: Record<string, JournaledPosition>;
+	/** Merge bases the run replaced; null marks a base the run added. */
+	previousBases: Record<string, string | null>;
+	/** Set when the run outgrew the size limit and can no longer be undone. */
+	truncated: boolean;
+}
+
+export interface UndoResult {
+	reverted: number;
+	failed: number;
+}
+
+// One line of the journal file. The file is appended to as the run goes, so
+// a checkpoint only writes what happened since the previous one.
+type JournalLine =
+	| { type: "run"; startedAt: string; previousState: JournaledState }
+	| { type: "position"; profileId: string; position: JournaledPosition }
+	| { type: "entry"; entry: JournalEntry }
+	| { type: "base"; noteId: string; previous: string | null }
+	| { type: "truncated" };
+
+// Previous file contents are kept in memory for the whole run; past this
+// budget recording stops instead of risking an out-of-memory on mobile.
+const MAX_JOURNAL_CHARS = 20_000_000;
+
+function parseJournal(text: string): SyncJournalRun | null {
+	let run: SyncJournalRun | null = null;
+	for (const raw of text.split("\n")) {
+		if (!raw.trim()) {
+			continue;
+		}
+		const line = JSON.parse(raw) as JournalLine;
+		if (line.type === "run") {
+			run = {
+				startedAt: line.startedAt,
+				entries: [],
+				previousState: line.previousState,
+				previousPositions: {},
+				previousBases: {},
+				truncated: false,
+			};
+		} else if (!run) {
+			return null;
+		} else if (line.type === "position") {
+			run.previousPositions[line.profileId] = line.position;
+		} else if (line.type === "entry") {
+			if (!run.truncated) {
+				run.entries.push(line.entry);
+			}
+		} else if (line.type === "base") {
+			run.previousBases[line.noteId] = line.previous;
+		} else if (line.type === "truncated") {
+			run.truncated = true;
+			run.entries = [];
+		}
+	}
+	return run;
+}
+
+/**
+ * Records every vault operation of a sync run so the most recent run can be
+ * rolled back. Only the last run that touched files is kept, in its own file
+ * next to data.json. A run covers every profile it syncs and is flushed with
+ * each checkpoint, so an interrupted run can still be undone.
+ */
+export class SyncJournal {
+	private run: SyncJournalRun | null = null;
+	private touchedPaths = new Set<string>();
+	private recordedChars = 0;
+	/** Lines recorded since the last flush. */
+	private pending: JournalLine[] = [];
+	/** Whether the next flush starts the file over for a new run. */
+	private startsNewFile = false;
+
+	private constructor(
+		private readonly adapter: DataAdapter,
+		private readonly path: string,
+		private lastRun: SyncJournalRun | null
+	) {}
+
+	static async load(adapter: DataAdapter, path: string): Promise<SyncJournal> {
+		let lastRun: SyncJournalRun | null = null;
+		try {
+			if (await adapter.exists(path)) {
+				lastRun = parseJournal(await adapter.read(path));
+			}
+		} catch (error) {
+			console.warn("Dinox: Failed to read sync journal:", error);
+		}
+		return new SyncJournal(adapter, path, lastRun);
+	}
+
+	getLastRun(): SyncJournalRun | null {
+		return this.lastRun;
+	}
+
+	/** Start recording a new run and return its id (the start time). */
+	begin(state: JournaledState): string {
+		const startedAt = new Date().toISOString();
+		const previousState = JSON.parse(JSON.stringify(state)) as JournaledState;
+		this.run = {
+			startedAt,
+			entries: [],
+			previousState,
+			previousPositions: {},
+			previousBases: {},
+			truncated: false,
+		};
+		this.pending = [{ type: "run", startedAt, previousState }];
+		this.startsNewFile = true;
+		this.touchedPaths = new Set();
+		this.recordedChars = 0;
+		return startedAt;
+	}
+
+	/**
+	 * Keep appending to the saved run with the given id, so undoing a sync
+	 * that was resumed reverts every session of it. False if that run is no
+	 * longer the last one.
+	 */
+	resume(startedAt: string): boolean {
+		if (this.lastRun?.startedAt !== startedAt) {
+			return false;
+		}
+		this.run = this.lastRun;
+		this.pending = [];
+		this.startsNewFile = false;
+		this.touchedPaths = new Set();
+		this.recordedChars = 0;
+		for (const entry of this.run.entries) {
+			if (entry.op === "modify" || entry.op === "trash") {
+				this.recordedChars += entry.previous.length;
+			}
+		}
+		return true;
+	}
+
+	/**
+	 * Remember where a profile stood before the run first touched it; undo
+	 * puts it back there.
+	 */
+	recordPosition(profileId: string, position: JournaledPosition): void {
+		if (!this.run || profileId in this.run.previousPositions) {
+			return;
+		}
+		const copy = JSON.parse(JSON.stringify(position)) as JournaledPosition;
+		this.run.previousPositions[profileId] = copy;
+		this.pending.push({ type: "position", profileId, position: copy });
+	}
+
+	recordCreate(path: string): void {
+		this.push({ op: "create", path }, 0);
+		this.touchedPaths.add(path);
+	}
+
+	/** Only the first modification of a path per run needs its content. */
+	recordModify(path: string, previous: string): void {
+		if (this.touchedPaths.has(path)) {
+			return;
+		}
+		this.touchedPaths.add(path);
+		this.push({ op: "modify", path, previous }, previous.length);
+	}
+
+	recordRename(from: string, to: string): void {
+		this.push({ op: "rename", from, to }, 0);
+		if (this.touchedPaths.has(from)) {
+			this.touchedPaths.add(to);
+		}
+	}
+
+	recordTrash(path: string, previous: string): void {
+		this.push({ op: "trash", path, previous }, previous.length);
+	}
+
+	recordBase(noteId: string, previous: string | undefined): void {
+		if (!this.run || noteId in this.run.previousBases) {
+			return;
+		}
+		this.run.previousBases[noteId] = previous ?? null;
+		this.pending.push({ type: "base", noteId, previous: previous ?? null });
+	}
+
+	private push(entry: JournalEntry, size: number): void {
+		if (!this.run || this.run.truncated) {
+			return;
+		}
+		this.recordedChars += size;
+		if (this.recordedChars > MAX_JOURNAL_CHARS) {
+			this.run.truncated = true;
+			this.run.entries = [];
+			this.pending = this.pending.filter((line) => line.type !== "entry");
+			this.pending.push({ type: "truncated" });
+			return;
+		}
+		this.run.entries.push(entry);
+		this.pending.push({ type: "entry", entry });
+	}
+
+	/**
+	 * Write what the current run recorded since the last flush and keep
+	 * recording. Until the run touches a file, the previous run stays the one
+	 * to undo.
+	 */
+	async flush(): Promise<void> {
+		const run = this.run;
+		if (!run || (run.entries.length === 0 && !run.truncated)) {
+			return;
+		}
+		const data = this.pending
+			.map((line) => `${JSON.stringify(line)}\n`)
+			.join("");
+		this.pending = [];
+		this.lastRun = run;
+		if (this.startsNewFile) {
+			this.startsNewFile = false;
+			await this.adapter.write(this.path, data);
+		} else if (data) {
+			await this.adapter.append(this.path, data);
+		}
+	}
+
+	/** Flush the current run and stop recording. */
+	async save(): Promise<void> {
+		try {
+			await this.flush();
+		} finally {
+			this.run = null;
+			this.pending = [];
+		}
+	}
+
+	async clear(): Promise<void> {
+		this.lastRun = null;
+		if (await this.adapter.exists(this.path)) {
+			await this.adapter.remove(this.path);
+		}
+	}
+}
+
+function parentFolder(path: string): string {
+	const index = path.lastIndexOf("/");
+	return index === -1 ? "" : path.slice(0, index);
+}
+
+/**
+ * Revert a journaled run, newest operation first. Individual failures are
+ * logged and counted so one missing file does not block the rest.
+ */
+export async function undoSyncRun(args: {
+	app: App;
+	run: SyncJournalRun;
+	baseStore: SyncBaseStore;
+}): Promise<UndoResult> {
+	const { app } = args;
+	const result: UndoResult = { reverted: 0, failed: 0 };
+
+	for (const entry of [...args.run.entries].reverse()) {
+		try {
+			switch (entry.op) {
+				case "create": {
+					const file = app.vault.getAbstractFileByPath(entry.path);
+					if (file instanceof TFile) {
+						await app.fileManager.trashFile(file);
+					}
+					break;
+				}
+				case "modify": {
+					const file = app.vault.getAbstractFileByPath(entry.path);
+					if (file instanceof TFile) {
+						await app.vault.modify(file, entry.previous);
+					} else {
+						await ensureFolderExists(app, parentFolder(entry.path));
+						await app.vault.create(entry.path, entry.previous);
+					}
+					break;
+				}
+				case "rename": {
+					const file = app.vault.getAbstractFileByPath(entry.to);
+					if (!(file instanceof TFile)) {
+						throw new Error(`${entry.to} no longer exists.`);
+					}
+					await ensureFolderExists(app, parentFolder(entry.from));
+					await renameOwnFile(app, file, normalizePath(entry.from));
+					break;
+				}
+				case "trash": {
+					if (app.vault.getAbstractFileByPath(entry.path)) {
+						throw new Error(`${entry.path} already exists.`);
+					}
+					await ensureFolderExists(app, parentFolder(entry.path));
+					await app.vault.create(entry.path, entry.previous);
+					break;
+				}
+			}
+			result.reverted++;
+		} catch (error) {
+			result.failed++;
+			console.error("Dinox: Failed to undo sync operation:", entry, error);
+		}
+	}
+
+	for (const [noteId, body] of Object.entries(args.run.previousBases)) {
+		if (body === null) {
+			args.baseStore.delete(noteId);
+		} else {
+			args.baseStore.set(noteId, body);
+		}
+	}
+
+	return result;
+}
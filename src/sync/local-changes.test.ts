@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { App, TFile } from "obsidian";
+import { hashContent } from "../utils";
+import { findLocalChanges, hasLocalChanges } from "./local-changes";
+
+describe("hasLocalChanges", () => {
+	it("is false while the file still matches what the plugin wrote", () => {
+		const record = { localHash: hashContent("body"), remoteHash: "r" };
+		expect(hasLocalChanges(record, "body")).toBe(false);
+	});
+
+	it("is true once the file was edited", () => {
+		const record = { localHash: hashContent("body"), remoteHash: "r" };
+		expect(hasLocalChanges(record, "body, edited")).toBe(true);
+	});
+
+	it("counts a note without a baseline hash as changed", () => {
+		expect(hasLocalChanges(undefined, "body")).toBe(true);
+		expect(hasLocalChanges({ localHash: "", remoteHash: "r" }, "")).toBe(true);
+	});
+});
+
+describe("findLocalChanges", () => {
+	function vaultWith(files: Record<string, string>): App {
+		return {
+			vault: {
+				getAbstractFileByPath: (path: string) =>
+					path in files ? Object.assign(new TFile(), { path }) : null,
+				cachedRead: (file: TFile) => Promise.resolve(files[file.path]),
+			},
+		} as unknown as App;
+	}
+
+	it("lists edited notes only, leaving out conflicted ones", async () => {
+		const app = vaultWith({
+			"Dinox/edited.md": "edited",
+			"Dinox/clean.md": "clean",
+			"Dinox/conflicted.md": "conflicted, edited",
+		});
+		const changes = await findLocalChanges({
+			app,
+			notePathById: {
+				edited: "Dinox/edited.md",
+				clean: "Dinox/clean.md",
+				missing: "Dinox/missing.md",
+				conflicted: "Dinox/conflicted.md",
+			},
+			syncedNotes: {
+				edited: { localHash: hashContent("original"), remoteHash: "" },
+				clean: { localHash: hashContent("clean"), remoteHash: "" },
+				conflicted: { localHash: hashContent("conflicted"), remoteHash: "" },
+			},
+			conflicts: [
+				{
+					kind: "markers",
+					noteId: "conflicted",
+					notePath: "Dinox/conflicted.md",
+					conflictPath: "Dinox/conflicted.md",
+					remoteHash: "",
+					detectedAt: "",
+				},
+			],
+		});
+		expect(changes.map(({ noteId, file }) => [noteId, file.path])).toEqual([
+			["edited", "Dinox/edited.md"],
+		]);
+	});
+});
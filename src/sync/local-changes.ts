@@ -0,0 +1,44 @@
+import { App, TFile } from "obsidian";
+import type { SyncConflict, SyncedNoteRecord } from "../persisted-data";
+import { hashContent } from "../utils";
+
+/**
+ * Whether a linked note was edited since the plugin last wrote or pushed it.
+ * Without a record there is no baseline to compare with, so the note counts
+ * as changed, the same way auto push treats it.
+ */
+export function hasLocalChanges(
+	record: SyncedNoteRecord | undefined,
+	content: string
+): boolean {
+	return !record || record.localHash !== hashContent(content);
+}
+
+/**
+ * Linked notes whose file content differs from what was last pulled or
+ * pushed. Notes with an open conflict are left out; their file holds markers
+ * or the user still has to pick a side.
+ */
+export async function findLocalChanges(args: {
+	app: App;
+	notePathById: Record<string, string>;
+	syncedNotes: Record<string, SyncedNoteRecord>;
+	conflicts: SyncConflict[];
+}): Promise<Array<{ noteId: string; file: TFile }>> {
+	const conflicted = new Set(args.conflicts.map((conflict) => conflict.noteId));
+	const changes: Array<{ noteId: string; file: TFile }> = [];
+	for (const [noteId, path] of Object.entries(args.notePathById)) {
+		if (conflicted.has(noteId)) {
+			continue;
+		}
+		const file = args.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) {
+			continue;
+		}
+		const content = await args.app.vault.cachedRead(file);
+		if (hasLocalChanges(args.syncedNotes[noteId], content)) {
+			changes.push({ noteId, file });
+		}
+	}
+	return changes;
+}
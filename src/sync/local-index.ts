@@ -1,4 +1,12 @@
-import { App, TFile, TFolder, normalizePath, parseYaml } from "obsidian";
+import {
+	App,
+	TFile,
+	TFolder,
+	normalizePath,
+	parseYaml,
+	type DataAdapter,
+} from "obsidian";
+import type { VaultLookupSettings } from "../types";
 import { getNoteIdFromFrontmatter } from "../utils";
 import { splitFrontmatter } from "../markdown";
 
@@ -59,19 +67,143 @@ export async function readNoteIdFromFile(
 	return getNoteIdFromFrontmatter(await readLocalFrontmatter(app, file));
 }
 
-export async function buildLocalNoteIdIndex(
+interface CachedNoteId {
+	mtime: number;
+	size: number;
+	noteId: string | null;
+}
+
+/**
+ * noteIds of markdown files keyed by path, with the mtime and size they were
+ * read at. Kept in its own file next to data.json so building the index only
+ * reads the files that changed since the last sync, which matters with cold
+ * caches on mobile.
+ */
+export class LocalNoteIdCache {
+	private dirty = false;
+
+	private constructor(
+		private readonly adapter: DataAdapter,
+		private readonly path: string,
+		private readonly entries: Record<string, CachedNoteId>
+	) {}
+
+	static async load(
+		adapter: DataAdapter,
+		path: string
+	): Promise<LocalNoteIdCache> {
+		const entries: Record<string, CachedNoteId> = {};
+		try {
+			if (await adapter.exists(path)) {
+				const parsed: unknown = JSON.parse(await adapter.read(path));
+				if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+					for (const [filePath, value] of Object.entries(
+						parsed as Record<string, Partial<CachedNoteId>>
+					)) {
+						if (
+							typeof value?.mtime === "number" &&
+							typeof value.size === "number"
+						) {
+							entries[filePath] = {
+								mtime: value.mtime,
+								size: value.size,
+								noteId: typeof value.noteId === "string" ? value.noteId : null,
+							};
+						}
+					}
+				}
+			}
+		} catch (error) {
+			// A corrupt cache only costs one full scan.
+			console.warn("Dinox: Failed to read local note index:", error);
+		}
+		return new LocalNoteIdCache(adapter, path, entries);
+	}
+
+	/** The cached noteId (null when the file has none), or undefined when stale. */
+	get(file: TFile): string | null | undefined {
+		const entry = this.entries[file.path];
+		if (
+			!entry ||
+			entry.mtime !== file.stat.mtime ||
+			entry.size !== file.stat.size
+		) {
+			return undefined;
+		}
+		return entry.noteId;
+	}
+
+	set(file: TFile, noteId: string | undefined): void {
+		this.entries[file.path] = {
+			mtime: file.stat.mtime,
+			size: file.stat.size,
+			noteId: noteId ?? null,
+		};
+		this.dirty = true;
+	}
+
+	/** Forget a file so the next scan reads it again. */
+	delete(path: string): void {
+		if (path in this.entries) {
+			delete this.entries[path];
+			this.dirty = true;
+		}
+	}
+
+	rename(oldPath: string, newPath: string): void {
+		const entry = this.entries[oldPath];
+		if (!entry) {
+			return;
+		}
+		delete this.entries[oldPath];
+		this.entries[newPath] = entry;
+		this.dirty = true;
+	}
+
+	/** Drop entries under `baseDir` for files the last scan did not see. */
+	prune(baseDir: string, seen: Set<string>): void {
+		const prefix = `${normalizePath(baseDir)}/`;
+		for (const path of Object.keys(this.entries)) {
+			if (path.startsWith(prefix) && !seen.has(path)) {
+				delete this.entries[path];
+				this.dirty = true;
+			}
+		}
+	}
+
+	async save(): Promise<void> {
+		if (!this.dirty) {
+			return;
+		}
+		await this.adapter.write(this.path, JSON.stringify(this.entries));
+		this.dirty = false;
+	}
+}
+
+/**
+ * Walk `baseDir` and map noteIds to files. The first file found for a noteId
+ * wins; the rest are collected as duplicates. With a cache, only files whose
+ * mtime or size changed since they were last read are opened.
+ */
+async function scanLocalNoteIds(
 	app: App,
-	baseDir: string
-): Promise<Record<string, string>> {
+	baseDir: string,
+	cache?: LocalNoteIdCache
+): Promise<{
+	index: Record<string, string>;
+	/** All paths per noteId that more than one file claims. */
+	duplicates: Map<string, string[]>;
+}> {
 	const normalizedBaseDir = normalizePath(baseDir);
 	const baseFolder = app.vault.getAbstractFileByPath(normalizedBaseDir);
+	const index: Record<string, string> = {};
+	const duplicates = new Map<string, string[]>();
 	if (!(baseFolder instanceof TFolder)) {
-		return {};
+		return { index, duplicates };
 	}
 
-	const index: Record<string, string> = {};
-	const duplicates = new Map<string, string[]>();
-	let scannedMarkdownFiles = 0;
+	const seen = new Set<string>();
+	let readMarkdownFiles = 0;
 
 	// Avoid scanning the entire vault on every sync (large vaults can be slow).
 	const stack: TFolder[] = [baseFolder];
@@ -93,10 +225,15 @@ export async function buildLocalNoteIdIndex(
 			}
 
 			const file = child;
-			const noteId = await readNoteIdFromFile(app, file);
-			if (++scannedMarkdownFiles >= INDEX_YIELD_EVERY) {
-				scannedMarkdownFiles = 0;
-				await yieldToMain();
+			seen.add(file.path);
+			let noteId = cache?.get(file);
+			if (noteId === undefined) {
+				noteId = await readNoteIdFromFile(app, file);
+				cache?.set(file, noteId);
+				if (++readMarkdownFiles >= INDEX_YIELD_EVERY) {
+					readMarkdownFiles = 0;
+					await yieldToMain();
+				}
 			}
 			if (!noteId) {
 				continue;
@@ -113,6 +250,21 @@ export async function buildLocalNoteIdIndex(
 		}
 	}
 
+	if (cache) {
+		cache.prune(normalizedBaseDir, seen);
+		await cache.save().catch((error) =>
+			console.warn("Dinox: Failed to save local note index:", error)
+		);
+	}
+	return { index, duplicates };
+}
+
+export async function buildLocalNoteIdIndex(
+	app: App,
+	baseDir: string,
+	cache?: LocalNoteIdCache
+): Promise<Record<string, string>> {
+	const { index, duplicates } = await scanLocalNoteIds(app, baseDir, cache);
 	if (duplicates.size > 0) {
 		const sample = Array.from(duplicates.entries()).slice(0, 5);
 		console.warn(
@@ -123,3 +275,48 @@ export async function buildLocalNoteIdIndex(
 
 	return index;
 }
+
+/** Every noteId claimed by more than one file under `baseDir`, with their paths. */
+export async function findDuplicateNoteIds(
+	app: App,
+	baseDir: string,
+	cache?: LocalNoteIdCache
+): Promise<Map<string, string[]>> {
+	return (await scanLocalNoteIds(app, baseDir, cache)).duplicates;
+}
+
+function isInFolder(path: string, folder: string): boolean {
+	return path.startsWith(`${folder}/`);
+}
+
+/**
+ * noteIds of markdown files outside `baseDir`, within the configured include
+ * and exclude folders. Reads the metadata cache only, so it never opens a
+ * file; notes Obsidian has not indexed yet are not found.
+ */
+export function buildVaultNoteIdIndex(
+	app: App,
+	baseDir: string,
+	settings: VaultLookupSettings
+): Record<string, string> {
+	const normalizedBaseDir = normalizePath(baseDir);
+	const index: Record<string, string> = {};
+	for (const file of app.vault.getMarkdownFiles()) {
+		const path = file.path;
+		if (
+			isInFolder(path, normalizedBaseDir) ||
+			(settings.includeFolders.length > 0 &&
+				!settings.includeFolders.some((folder) => isInFolder(path, folder))) ||
+			settings.excludeFolders.some((folder) => isInFolder(path, folder))
+		) {
+			continue;
+		}
+		const noteId = getNoteIdFromFrontmatter(
+			app.metadataCache.getFileCache(file)?.frontmatter
+		);
+		if (noteId && !index[noteId]) {
+			index[noteId] = path;
+		}
+	}
+	return index;
+}
@@ -0,0 +1,425 @@
+import { Notice, TFile } from "obsidian";
+import { DEFAULT_SETTINGS, SYNC_PAGE_SIZE } from "../constants";
+import {
+	getProfileSyncState,
+	normalizePersistedData,
+	type SyncConflict,
+} from "../persisted-data";
+import { iterateNotesPages } from "../api";
+import { buildLocalNoteIdIndex, ensureBaseDir, resolveBaseDir } from "../sync";
+import {
+	buildReconcileReport,
+	hasLocalCopy,
+	type ReconcileReport,
+} from "./reconcile";
+import { resolveConflict, type ConflictResolution } from "./conflicts";
+import { relayoutSyncedNotes } from "./relayout";
+import { findDuplicateNoteIds } from "./local-index";
+import {
+	resolveDuplicateGroup,
+	type DuplicateNoteGroup,
+	type DuplicateResolution,
+} from "./duplicates";
+import {
+	beginJournalRun,
+	confirmDeletions,
+	getSyncQuery,
+	loadNoteLocations,
+	saveRunState,
+} from "./run";
+import { applySelectedNotes } from "./preview";
+import { ConfirmModal } from "../confirm-modal";
+import {
+	ScopeCleanupModal,
+	type ScopeCleanupChoice,
+} from "../scope-cleanup-modal";
+import { ConflictsModal } from "../conflicts-modal";
+import { DuplicatesModal } from "../duplicates-modal";
+import { ReconcileModal } from "../reconcile-modal";
+import { getErrorMessage } from "../utils";
+import type { DinoSyncHost } from "../plugin-types";
+import type { Note } from "../types";
+import type { SyncProfile } from "../profiles";
+import type { TranslationKey, TranslationVars } from "../../i18n";
+
+type TFunction = (key: TranslationKey, vars?: TranslationVars) => string;
+
+/**
+ * Page through the whole remote library (ignoring the incremental cursor)
+ * and report how the vault has drifted from it.
+ */
+export async function reconcileWithDinox(
+	host: DinoSyncHost,
+	profile: SyncProfile
+): Promise<void> {
+	const { app } = host;
+	const { settings } = profile;
+	if (!host.canStartSync(settings)) {
+		return;
+	}
+
+	host.setStatusBarSyncingState(true);
+	const notice = new Notice(host.t("notice.reconcileStarting"), 0);
+	let report: ReconcileReport;
+	let localIndex: Record<string, string>;
+
+	try {
+		const persisted = normalizePersistedData(
+			await host.loadData(),
+			DEFAULT_SETTINGS
+		);
+		const profileState = getProfileSyncState(persisted, profile.id);
+		const baseDir = resolveBaseDir(settings.dir);
+		localIndex = await buildLocalNoteIdIndex(
+			app,
+			baseDir,
+			await host.getLocalNoteIdCache()
+		);
+		const notePathById = profileState.notePathById;
+		const remoteIds = new Set<string>();
+		const missing: Note[] = [];
+
+		for await (const page of iterateNotesPages({
+			token: settings.token,
+			since: null,
+			includeDeleted: false,
+			boxIds: getSyncQuery(profileState, settings).boxIds,
+			limit: SYNC_PAGE_SIZE,
+		})) {
+			for (const note of page.notes) {
+				remoteIds.add(note.noteId);
+				if (!hasLocalCopy(app, note.noteId, localIndex, notePathById)) {
+					missing.push(note);
+				}
+			}
+			notice.setMessage(
+				`${host.t("notice.reconcileStarting")} (${remoteIds.size})`
+			);
+		}
+
+		report = await buildReconcileReport({
+			app,
+			settings,
+			baseDir,
+			localIndex,
+			notePathById,
+			remoteIds,
+			missing,
+		});
+		notice.hide();
+	} catch (error) {
+		console.error("Dinox: Reconcile failed:", error);
+		notice.setMessage(
+			host.t("notice.reconcileFailed", { error: getErrorMessage(error) })
+		);
+		window.setTimeout(() => notice.hide(), 10000);
+		return;
+	} finally {
+		host.setStatusBarSyncingState(false);
+	}
+
+	new ReconcileModal(app, {
+		t: (key, vars) => host.t(key, vars),
+		report,
+		onFixOrphaned: () =>
+			fixOrphanedNotes(host, {
+				profile,
+				orphaned: report.orphaned,
+				localIndex,
+			}),
+		onFixMissing: () =>
+			applySelectedNotes(host, {
+				notes: report.missing,
+				settings,
+				profileId: profile.id,
+			}),
+		onFixStale: () => fixStaleMappings(host, report.staleMappings, profile.id),
+	}).open();
+}
+
+/**
+ * Orphans go through the deletion policy like a remote delete, and through
+ * the deletion guard like a sync. With a policy that leaves deleted notes
+ * alone the fix would do nothing, so the user picks what happens instead.
+ */
+async function fixOrphanedNotes(
+	host: DinoSyncHost,
+	args: {
+		profile: SyncProfile;
+		orphaned: ReconcileReport["orphaned"];
+		localIndex: Record<string, string>;
+	}
+): Promise<boolean> {
+	if (host.isSyncing) {
+		new Notice(host.t("notice.syncInProgress"));
+		return false;
+	}
+	const t: TFunction = (key, vars) => host.t(key, vars);
+	let settings = args.profile.settings;
+	if (settings.deletionPolicy === "ignore") {
+		const choice = await new Promise<ScopeCleanupChoice>((resolve) => {
+			new ScopeCleanupModal(host.app, {
+				t,
+				title: t("reconcile.orphaned.fix"),
+				desc: t("reconcile.orphaned.choose", {
+					count: args.orphaned.length,
+				}),
+				paths: args.orphaned.map((entry) => entry.path),
+				onResolve: resolve,
+			}).open();
+		});
+		if (choice === "keep") {
+			return false;
+		}
+		settings = { ...settings, deletionPolicy: choice };
+	}
+
+	const notes: Note[] = args.orphaned.map((entry) => ({
+		noteId: entry.noteId,
+		title: "",
+		content: "",
+		createTime: "",
+		isDel: true,
+	}));
+	const persisted = normalizePersistedData(
+		await host.loadData(),
+		DEFAULT_SETTINGS
+	);
+	const profileState = getProfileSyncState(persisted, args.profile.id);
+	const approved = await confirmDeletions(host, {
+		settings,
+		notes,
+		baseDir: resolveBaseDir(settings.dir),
+		localIndex: args.localIndex,
+		notePathById: profileState.notePathById,
+		persisted,
+		failedNotes: profileState.failedNotes,
+		baseStore: await host.getSyncBaseStore(),
+	});
+	if (!approved) {
+		return false;
+	}
+	return await applySelectedNotes(host, {
+		notes,
+		settings,
+		profileId: args.profile.id,
+	});
+}
+
+async function fixStaleMappings(
+	host: DinoSyncHost,
+	staleMappings: ReconcileReport["staleMappings"],
+	profileId: string
+): Promise<boolean> {
+	await host.updatePersistedData((persisted) => {
+		const { notePathById } = getProfileSyncState(persisted, profileId);
+		for (const entry of staleMappings) {
+			if (entry.actualPath) {
+				notePathById[entry.noteId] = entry.actualPath;
+			} else {
+				delete notePathById[entry.noteId];
+			}
+		}
+		return true;
+	});
+	new Notice(
+		host.t("notice.reconcileMappingsFixed", { count: staleMappings.length })
+	);
+	return true;
+}
+
+export function confirmRelayout(host: DinoSyncHost, profile: SyncProfile): void {
+	if (host.isSyncing) {
+		new Notice(host.t("notice.syncInProgress"));
+		return;
+	}
+	new ConfirmModal(host.app, host.t("relayout.confirm"), () =>
+		relayoutNotes(host, profile)
+	).open();
+}
+
+// Moves already-synced files to where the current filename and folder
+// settings put them. The moves are journaled, so "Undo last sync" can
+// revert them.
+async function relayoutNotes(
+	host: DinoSyncHost,
+	profile: SyncProfile
+): Promise<void> {
+	if (host.isSyncing) {
+		new Notice(host.t("notice.syncInProgress"));
+		return;
+	}
+
+	host.setStatusBarSyncingState(true);
+	const notice = new Notice(host.t("notice.relayoutStarting"), 0);
+	const persisted = normalizePersistedData(
+		await host.loadData(),
+		DEFAULT_SETTINGS
+	);
+	const profileState = getProfileSyncState(persisted, profile.id);
+	const journal = await host.getSyncJournal();
+	beginJournalRun(journal, persisted, profile.id);
+	let errorOccurred = false;
+
+	try {
+		const baseDir = await ensureBaseDir(host.app, profile.settings.dir);
+		const { notePathById } = await loadNoteLocations(
+			host,
+			profileState,
+			baseDir
+		);
+		const result = await relayoutSyncedNotes({
+			app: host.app,
+			settings: profile.settings,
+			baseDir,
+			notePathById,
+			pinnedNoteIds: new Set(persisted.state.pinnedNoteIds),
+			conflicts: persisted.state.conflicts,
+			journal,
+			onProgress: (done, total) => {
+				notice.setMessage(
+					host.t("notice.relayoutProgress", { done, total })
+				);
+			},
+		});
+
+		profileState.notePathById = notePathById;
+		await saveRunState(host, persisted, profile.id);
+
+		notice.setMessage(host.t("notice.relayoutComplete", { ...result }));
+		errorOccurred = result.failed > 0;
+	} catch (error) {
+		errorOccurred = true;
+		console.error("Dinox: Re-applying the layout failed:", error);
+		notice.setMessage(
+			host.t("notice.relayoutFailed", { error: getErrorMessage(error) })
+		);
+	} finally {
+		await journal.save().catch((error) =>
+			console.error("Dinox: Failed to save sync journal:", error)
+		);
+		host.setStatusBarSyncingState(false);
+		window.setTimeout(() => notice.hide(), errorOccurred ? 10000 : 5000);
+	}
+}
+
+export async function openDuplicateNotes(host: DinoSyncHost): Promise<void> {
+	const { app } = host;
+	const groups: DuplicateNoteGroup[] = [];
+	const scannedDirs = new Set<string>();
+	try {
+		const cache = await host.getLocalNoteIdCache();
+		for (const profile of host.getSyncProfiles()) {
+			const baseDir = resolveBaseDir(profile.settings.dir);
+			if (scannedDirs.has(baseDir)) {
+				continue;
+			}
+			scannedDirs.add(baseDir);
+			const duplicates = await findDuplicateNoteIds(app, baseDir, cache);
+			for (const [noteId, paths] of duplicates) {
+				const files = paths
+					.map((path) => app.vault.getAbstractFileByPath(path))
+					.filter((file): file is TFile => file instanceof TFile);
+				if (files.length > 1) {
+					groups.push({ noteId, profileId: profile.id, files });
+				}
+			}
+		}
+	} catch (error) {
+		console.error("Dinox: Failed to scan for duplicate notes:", error);
+		new Notice(
+			host.t("notice.duplicatesFailed", { error: getErrorMessage(error) })
+		);
+		return;
+	}
+
+	new DuplicatesModal(app, {
+		t: (key, vars) => host.t(key, vars),
+		groups,
+		onResolve: (group, keepPath, resolution) =>
+			resolveDuplicateNotes(host, group, keepPath, resolution),
+	}).open();
+}
+
+// Resolves one group and points the mapping at the kept file, so the
+// next sync updates that one. Resolves false when nothing was changed.
+async function resolveDuplicateNotes(
+	host: DinoSyncHost,
+	group: DuplicateNoteGroup,
+	keepPath: string,
+	resolution: DuplicateResolution
+): Promise<boolean> {
+	if (host.isSyncing) {
+		new Notice(host.t("notice.syncInProgress"));
+		return false;
+	}
+	try {
+		const keep = host.app.vault.getAbstractFileByPath(keepPath);
+		if (!(keep instanceof TFile)) {
+			throw new Error(`File not found: ${keepPath}`);
+		}
+		await resolveDuplicateGroup({ app: host.app, group, keep, resolution });
+		await host.updatePersistedData((persisted) => {
+			getProfileSyncState(persisted, group.profileId).notePathById[
+				group.noteId
+			] = keep.path;
+			return true;
+		});
+		return true;
+	} catch (error) {
+		console.error("Dinox: Failed to resolve duplicate notes:", error);
+		new Notice(
+			host.t("notice.duplicatesFailed", { error: getErrorMessage(error) })
+		);
+		return false;
+	}
+}
+
+export function openSyncConflicts(host: DinoSyncHost): void {
+	new ConflictsModal(host.app, {
+		t: (key, vars) => host.t(key, vars),
+		loadConflicts: async () =>
+			normalizePersistedData(
+				await host.loadData(),
+				DEFAULT_SETTINGS
+			).state.conflicts,
+		onResolve: (conflict, resolution) =>
+			resolveSyncConflict(host, conflict, resolution),
+	}).open();
+}
+
+async function resolveSyncConflict(
+	host: DinoSyncHost,
+	conflict: SyncConflict,
+	resolution: ConflictResolution
+): Promise<void> {
+	if (host.isSyncing) {
+		new Notice(host.t("notice.syncInProgress"));
+		return;
+	}
+	const baseStore = await host.getSyncBaseStore();
+	await host.updatePersistedData(async (persisted) => {
+		try {
+			await resolveConflict({
+				app: host.app,
+				conflict,
+				resolution,
+				syncedNotes: persisted.state.syncedNotes,
+				baseStore,
+			});
+		} catch (error) {
+			console.error("Dinox: Failed to resolve conflict:", error);
+			new Notice(
+				host.t("notice.conflictResolveFailed", {
+					error: getErrorMessage(error),
+				})
+			);
+			return false;
+		}
+		persisted.state.conflicts = persisted.state.conflicts.filter(
+			(entry) => entry.noteId !== conflict.noteId
+		);
+		return true;
+	});
+	await baseStore.save();
+}
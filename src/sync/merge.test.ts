@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+	CONFLICT_MARKER_LOCAL,
+	CONFLICT_MARKER_REMOTE,
+	CONFLICT_MARKER_SEPARATOR,
+	mergeThreeWay,
+} from "./merge";
+
+const lines = (...parts: string[]) => parts.join("\n");
+
+describe("mergeThreeWay", () => {
+	it("returns the text unchanged when neither side edited it", () => {
+		const base = lines("a", "b", "c");
+		expect(mergeThreeWay(base, base, base)).toEqual({
+			text: base,
+			conflicts: 0,
+		});
+	});
+
+	it("takes the edit of whichever side changed", () => {
+		const base = lines("a", "b", "c");
+		const edited = lines("a", "B", "c");
+		expect(mergeThreeWay(base, edited, base).text).toBe(edited);
+		expect(mergeThreeWay(base, base, edited).text).toBe(edited);
+	});
+
+	it("combines edits to different lines", () => {
+		const result = mergeThreeWay(
+			lines("a", "b", "c", "d"),
+			lines("A", "b", "c", "d"),
+			lines("a", "b", "c", "D", "e")
+		);
+		expect(result).toEqual({
+			text: lines("A", "b", "c", "D", "e"),
+			conflicts: 0,
+		});
+	});
+
+	it("merges identical edits on both sides cleanly", () => {
+		const base = lines("a", "b");
+		const edited = lines("a", "x");
+		expect(mergeThreeWay(base, edited, edited)).toEqual({
+			text: edited,
+			conflicts: 0,
+		});
+	});
+
+	it("keeps a line deleted on one side and untouched on the other deleted", () => {
+		const result = mergeThreeWay(
+			lines("a", "b", "c"),
+			lines("a", "c"),
+			lines("a", "b", "c")
+		);
+		expect(result.text).toBe(lines("a", "c"));
+	});
+
+	it("marks overlapping edits as a conflict", () => {
+		const result = mergeThreeWay(
+			lines("a", "b", "c"),
+			lines("a", "local", "c"),
+			lines("a", "remote", "c")
+		);
+		expect(result).toEqual({
+			text: lines(
+				"a",
+				CONFLICT_MARKER_LOCAL,
+				"local",
+				CONFLICT_MARKER_SEPARATOR,
+				"remote",
+				CONFLICT_MARKER_REMOTE,
+				"c"
+			),
+			conflicts: 1,
+		});
+	});
+
+	it("counts every conflicting hunk", () => {
+		const result = mergeThreeWay(
+			lines("a", "b", "c", "d", "e"),
+			lines("a1", "b", "c", "d", "e1"),
+			lines("a2", "b", "c", "d", "e2")
+		);
+		expect(result.conflicts).toBe(2);
+	});
+
+	it("treats CRLF and LF line endings alike", () => {
+		const result = mergeThreeWay("a\r\nb", "a\nb", "a\r\nB");
+		expect(result).toEqual({ text: lines("a", "B"), conflicts: 0 });
+	});
+});
@@ -0,0 +1,164 @@
+// Line-based three-way merge (diff3) used when a note changed both in Obsidian
+// and in Dinox since the last sync.
+
+export const CONFLICT_MARKER_LOCAL = "<<<<<<< Obsidian";
+export const CONFLICT_MARKER_SEPARATOR = "=======";
+export const CONFLICT_MARKER_REMOTE = ">>>>>>> Dinox";
+
+// Above this many DP cells the LCS table gets too heavy for mobile; the
+// differing middle is then treated as a single changed block.
+const MAX_LCS_CELLS = 4_000_000;
+
+export interface ThreeWayMergeResult {
+	text: string;
+	/** Number of overlapping hunks written with conflict markers. */
+	conflicts: number;
+}
+
+function splitLines(text: string): string[] {
+	return (text ?? "").split(/\r?\n/);
+}
+
+/**
+ * For every line of `a`, the index of the matching line in `b` (or -1), taken
+ * from a longest common subsequence. Matches are strictly increasing.
+ */
+function matchLines(a: string[], b: string[]): Int32Array {
+	const matches = new Int32Array(a.length).fill(-1);
+
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) {
+		matches[start] = start;
+		start++;
+	}
+	let endA = a.length;
+	let endB = b.length;
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--;
+		endB--;
+		matches[endA] = endB;
+	}
+
+	const rows = endA - start;
+	const cols = endB - start;
+	if (rows === 0 || cols === 0 || rows * cols > MAX_LCS_CELLS) {
+		return matches;
+	}
+
+	// lengths[i][j] = LCS length of a[start + i..endA) and b[start + j..endB).
+	const width = cols + 1;
+	const lengths = new Uint32Array((rows + 1) * width);
+	for (let i = rows - 1; i >= 0; i--) {
+		for (let j = cols - 1; j >= 0; j--) {
+			lengths[i * width + j] =
+				a[start + i] === b[start + j]
+					? lengths[(i + 1) * width + j + 1] + 1
+					: Math.max(
+							lengths[(i + 1) * width + j],
+							lengths[i * width + j + 1]
+						);
+		}
+	}
+
+	let i = 0;
+	let j = 0;
+	while (i < rows && j < cols) {
+		if (a[start + i] === b[start + j]) {
+			matches[start + i] = start + j;
+			i++;
+			j++;
+		} else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+			i++;
+		} else {
+			j++;
+		}
+	}
+	return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+	return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Merge `local` and `remote`, both derived from `base`. Hunks changed on only
+ * one side (or identically on both) merge cleanly; overlapping hunks are kept
+ * with git-style conflict markers.
+ */
+export function mergeThreeWay(
+	base: string,
+	local: string,
+	remote: string
+): ThreeWayMergeResult {
+	const baseLines = splitLines(base);
+	const localLines = splitLines(local);
+	const remoteLines = splitLines(remote);
+	const toLocal = matchLines(baseLines, localLines);
+	const toRemote = matchLines(baseLines, remoteLines);
+
+	const output: string[] = [];
+	let conflicts = 0;
+	let i = 0;
+	let j = 0;
+	let k = 0;
+
+	while (
+		i < baseLines.length ||
+		j < localLines.length ||
+		k < remoteLines.length
+	) {
+		if (
+			i < baseLines.length &&
+			toLocal[i] === j &&
+			toRemote[i] === k
+		) {
+			output.push(baseLines[i]);
+			i++;
+			j++;
+			k++;
+			continue;
+		}
+
+		// Find the next base line kept by both sides; everything before it
+		// is one unstable chunk.
+		let nextI = i;
+		while (
+			nextI < baseLines.length &&
+			(toLocal[nextI] === -1 || toRemote[nextI] === -1)
+		) {
+			nextI++;
+		}
+		const nextJ =
+			nextI < baseLines.length ? toLocal[nextI] : localLines.length;
+		const nextK =
+			nextI < baseLines.length ? toRemote[nextI] : remoteLines.length;
+
+		const baseChunk = baseLines.slice(i, nextI);
+		const localChunk = localLines.slice(j, nextJ);
+		const remoteChunk = remoteLines.slice(k, nextK);
+
+		if (sameLines(localChunk, baseChunk)) {
+			output.push(...remoteChunk);
+		} else if (
+			sameLines(remoteChunk, baseChunk) ||
+			sameLines(localChunk, remoteChunk)
+		) {
+			output.push(...localChunk);
+		} else {
+			conflicts++;
+			output.push(
+				CONFLICT_MARKER_LOCAL,
+				...localChunk,
+				CONFLICT_MARKER_SEPARATOR,
+				...remoteChunk,
+				CONFLICT_MARKER_REMOTE
+			);
+		}
+
+		i = nextI;
+		j = nextJ;
+		k = nextK;
+	}
+
+	return { text: output.join("\n"), conflicts };
+}
@@ -0,0 +1,348 @@
+import { Notice } from "obsidian";
+import { DEFAULT_SETTINGS, SYNC_PAGE_SIZE } from "../constants";
+import { getProfileSyncState, normalizePersistedData } from "../persisted-data";
+import { iterateNotesPages } from "../api";
+import {
+	createSyncSession,
+	ensureBaseDir,
+	processNotesPage,
+	resolveBaseDir,
+	type SyncPlanItem,
+} from "../sync";
+import { getDueFailedNotes } from "./failed-notes";
+import {
+	beginJournalRun,
+	getResumableCheckpoint,
+	getSyncQuery,
+	loadNoteLocations,
+	saveRunState,
+	showSyncSummary,
+} from "./run";
+import { ConfirmModal } from "../confirm-modal";
+import { SyncPreviewModal } from "../sync-preview-modal";
+import { getErrorMessage } from "../utils";
+import type { DinoSyncHost } from "../plugin-types";
+import type { DinoPluginSettings, Note, NotesSyncQuery } from "../types";
+import type { SyncProfile } from "../profiles";
+import type { TranslationKey, TranslationVars } from "../../i18n";
+
+type TFunction = (key: TranslationKey, vars?: TranslationVars) => string;
+
+/**
+ * What a preview keeps to apply its plan later. Note bodies are dropped once
+ * planned, so a large preview does not hold the whole changed set in memory.
+ */
+interface PreviewedRun {
+	profile: SyncProfile;
+	query: NotesSyncQuery;
+	cursor: string | null;
+	/** First note the preview fetched, to notice that Dinox changed since. */
+	first: { noteId: string; updateTime: string | null } | null;
+}
+
+/**
+ * Dry run of a sync for one profile: fetch the same pages and route every
+ * note, but only collect the planned file operations.
+ */
+export async function previewSync(
+	host: DinoSyncHost,
+	profile: SyncProfile
+): Promise<void> {
+	const { app } = host;
+	const { settings } = profile;
+	if (!host.canStartSync(settings)) {
+		return;
+	}
+
+	const t: TFunction = (key, vars) => host.t(key, vars);
+	host.setStatusBarSyncingState(true);
+	const notice = new Notice(t("notice.previewStarting"), 0);
+	const plan: SyncPlanItem[] = [];
+	let previewed: PreviewedRun;
+
+	try {
+		const persisted = normalizePersistedData(
+			await host.loadData(),
+			DEFAULT_SETTINGS
+		);
+		const profileState = getProfileSyncState(persisted, profile.id);
+		const baseDir = resolveBaseDir(settings.dir);
+		const { localIndex, notePathById } = await loadNoteLocations(
+			host,
+			profileState,
+			baseDir
+		);
+		const baseStore = await host.getSyncBaseStore();
+		const session = createSyncSession();
+		// Preview what the next sync would really do, which continues an
+		// interrupted run rather than starting over.
+		const query = getSyncQuery(profileState, settings);
+		const resumeFrom = getResumableCheckpoint(profileState, query);
+		for (const noteId of resumeFrom?.processedNoteIds ?? []) {
+			session.processedNoteIds.add(noteId);
+		}
+		previewed = {
+			profile,
+			query,
+			cursor: resumeFrom?.cursor ?? null,
+			first: null,
+		};
+
+		const planNotes = async (pageNotes: Note[]): Promise<void> => {
+			// Copies keep the dry run from touching persisted state.
+			await processNotesPage({
+				app,
+				settings,
+				t,
+				notes: pageNotes,
+				baseDir,
+				notePathById,
+				localIndex,
+				syncedNotes: { ...persisted.state.syncedNotes },
+				conflicts: [...persisted.state.conflicts],
+				failedNotes: { ...profileState.failedNotes },
+				pinnedNoteIds: new Set(persisted.state.pinnedNoteIds),
+				baseStore,
+				session,
+				plan,
+			});
+		};
+
+		const fetchedIds = new Set<string>();
+		for await (const page of iterateNotesPages({
+			token: settings.token,
+			...query,
+			limit: SYNC_PAGE_SIZE,
+			cursor: previewed.cursor,
+		})) {
+			if (!previewed.first && page.notes.length > 0) {
+				previewed.first = {
+					noteId: page.notes[0].noteId,
+					updateTime: page.notes[0].updateTime ?? null,
+				};
+			}
+			for (const note of page.notes) {
+				fetchedIds.add(note.noteId);
+			}
+			await planNotes(page.notes);
+		}
+		// Like the sync, retries come last and yield to any newer
+		// version of the note in the pages.
+		await planNotes(
+			getDueFailedNotes(profileState.failedNotes).filter(
+				(note) => !fetchedIds.has(note.noteId)
+			)
+		);
+		notice.hide();
+	} catch (error) {
+		console.error("Dinox: Sync preview failed:", error);
+		notice.setMessage(
+			t("notice.previewFailed", { error: getErrorMessage(error) })
+		);
+		window.setTimeout(() => notice.hide(), 10000);
+		return;
+	} finally {
+		host.setStatusBarSyncingState(false);
+	}
+
+	new SyncPreviewModal(app, {
+		t,
+		plan,
+		onApplyAll: () => applyPreviewedRun(host, previewed),
+		onApplySelected: (noteIds) =>
+			applyPreviewedNotes(host, previewed, noteIds),
+	}).open();
+}
+
+// Newest first: a note changed since the preview is fetched before the one
+// the preview started with.
+async function remoteChangedSince(previewed: PreviewedRun): Promise<boolean> {
+	for await (const page of iterateNotesPages({
+		token: previewed.profile.settings.token,
+		...previewed.query,
+		limit: 1,
+		cursor: previewed.cursor,
+	})) {
+		const first = page.notes[0];
+		return (
+			first?.noteId !== previewed.first?.noteId ||
+			(first?.updateTime ?? null) !== (previewed.first?.updateTime ?? null)
+		);
+	}
+	return previewed.first !== null;
+}
+
+/**
+ * "Apply all" is a regular sync, which also moves the cursor on. When Dinox
+ * changed since the preview, that sync would not do what was shown, so the
+ * user confirms first.
+ */
+async function applyPreviewedRun(
+	host: DinoSyncHost,
+	previewed: PreviewedRun
+): Promise<void> {
+	const sync = async (): Promise<void> => {
+		await host.syncNotes("manual", previewed.profile.id);
+	};
+	let changed = false;
+	try {
+		changed = await remoteChangedSince(previewed);
+	} catch (error) {
+		// The sync reports the failure if Dinox cannot be reached.
+		console.warn(
+			"Dinox: Failed to check for changes since the preview",
+			error
+		);
+	}
+	if (changed) {
+		new ConfirmModal(host.app, host.t("preview.remoteChanged"), sync).open();
+		return;
+	}
+	await sync();
+}
+
+/**
+ * Fetch the selected notes again from the pages the preview read (and the
+ * retry queue), then apply them. A note changed since the preview is applied
+ * as it is now, as a sync would.
+ */
+async function applyPreviewedNotes(
+	host: DinoSyncHost,
+	previewed: PreviewedRun,
+	noteIds: Set<string>
+): Promise<void> {
+	if (host.isSyncing) {
+		new Notice(host.t("notice.syncInProgress"));
+		return;
+	}
+	const { settings } = previewed.profile;
+	const t: TFunction = (key, vars) => host.t(key, vars);
+	const notice = new Notice(t("notice.syncStarting"), 0);
+	const notes: Note[] = [];
+	try {
+		for await (const page of iterateNotesPages({
+			token: settings.token,
+			...previewed.query,
+			limit: SYNC_PAGE_SIZE,
+			cursor: previewed.cursor,
+		})) {
+			notes.push(...page.notes.filter((note) => noteIds.has(note.noteId)));
+		}
+		const persisted = normalizePersistedData(
+			await host.loadData(),
+			DEFAULT_SETTINGS
+		);
+		const fetchedIds = new Set(notes.map((note) => note.noteId));
+		const { failedNotes } = getProfileSyncState(
+			persisted,
+			previewed.profile.id
+		);
+		notes.push(
+			...getDueFailedNotes(failedNotes).filter(
+				(note) => noteIds.has(note.noteId) && !fetchedIds.has(note.noteId)
+			)
+		);
+	} catch (error) {
+		console.error("Dinox: Fetching the selected notes failed:", error);
+		notice.setMessage(
+			t("notice.syncFailed", { error: getErrorMessage(error) })
+		);
+		window.setTimeout(() => notice.hide(), 10000);
+		return;
+	}
+	notice.hide();
+	await applySelectedNotes(host, {
+		notes,
+		settings,
+		profileId: previewed.profile.id,
+	});
+}
+
+/**
+ * Applies a subset of a preview. The cursor stays put, so everything that
+ * was left out is fetched again by the next sync. Unless `journaled` is
+ * false, the changes become the run "Undo last sync" reverts. Resolves false
+ * when nothing was applied because a sync was running or the run failed.
+ */
+export async function applySelectedNotes(
+	host: DinoSyncHost,
+	args: {
+		notes: Note[];
+		settings: DinoPluginSettings;
+		profileId: string;
+		journaled?: boolean;
+	}
+): Promise<boolean> {
+	const { app } = host;
+	const { settings } = args;
+	if (host.isSyncing) {
+		new Notice(host.t("notice.syncInProgress"));
+		return false;
+	}
+
+	const t: TFunction = (key, vars) => host.t(key, vars);
+	host.setStatusBarSyncingState(true);
+	host.statusBarItemEl.addClass("is-syncing");
+	const notice = new Notice(t("notice.syncStarting"), 0);
+
+	let errorOccurred = false;
+	const persisted = normalizePersistedData(
+		await host.loadData(),
+		DEFAULT_SETTINGS
+	);
+	const profileState = getProfileSyncState(persisted, args.profileId);
+	const baseStore = await host.getSyncBaseStore();
+	const journal =
+		args.journaled === false ? null : await host.getSyncJournal();
+	if (journal) {
+		beginJournalRun(journal, persisted, args.profileId);
+	}
+
+	try {
+		const baseDir = await ensureBaseDir(app, settings.dir);
+		const { localIndex, notePathById } = await loadNoteLocations(
+			host,
+			profileState,
+			baseDir
+		);
+		const session = createSyncSession(journal ?? undefined);
+		await processNotesPage({
+			app,
+			settings,
+			t,
+			notes: args.notes,
+			baseDir,
+			notePathById,
+			localIndex,
+			syncedNotes: persisted.state.syncedNotes,
+			conflicts: persisted.state.conflicts,
+			failedNotes: profileState.failedNotes,
+			pinnedNoteIds: new Set(persisted.state.pinnedNoteIds),
+			baseStore,
+			session,
+		});
+		await host.flushSessionDailyNotes(session);
+
+		profileState.notePathById = notePathById;
+		await saveRunState(host, persisted, args.profileId);
+
+		showSyncSummary(host, notice, session);
+	} catch (error) {
+		errorOccurred = true;
+		console.error("Dinox: Applying selected notes failed:", error);
+		notice.setMessage(
+			t("notice.syncFailed", { error: getErrorMessage(error) })
+		);
+	} finally {
+		await baseStore.save().catch((error) =>
+			console.error("Dinox: Failed to save sync base store:", error)
+		);
+		await journal?.save().catch((error) =>
+			console.error("Dinox: Failed to save sync journal:", error)
+		);
+		host.setStatusBarSyncingState(false);
+		host.statusBarItemEl.removeClass("is-syncing");
+		window.setTimeout(() => notice.hide(), errorOccurred ? 10000 : 5000);
+	}
+	return !errorOccurred;
+}
@@ -0,0 +1,215 @@
+import { Notice, TFile } from "obsidian";
+import { DEFAULT_SETTINGS } from "../constants";
+import {
+	getProfileSyncState,
+	normalizePersistedData,
+	type PersistedPluginData,
+} from "../persisted-data";
+import { pushFileToDinox } from "../push";
+import { DELETED_KEY, resolveBaseDir } from "../sync";
+import { findLocalChanges } from "./local-changes";
+import { loadNoteLocations } from "./run";
+import { PushChangesModal } from "../push-changes-modal";
+import {
+	getErrorMessage,
+	getNoteIdFromFrontmatter,
+	hashContent,
+} from "../utils";
+import type { DinoSyncHost } from "../plugin-types";
+import type { AutoPushOutcome } from "../auto-push";
+
+/** `body` is the text sent to Dinox, `content` the whole file. */
+interface PushedNote {
+	noteId: string;
+	body: string;
+	content: string;
+}
+
+// Collects the linked notes edited since their last pull or push across
+// all profiles and asks before pushing them.
+export async function openPushLocalChanges(host: DinoSyncHost): Promise<void> {
+	if (host.isSyncing) {
+		new Notice(host.t("notice.syncInProgress"));
+		return;
+	}
+	const changes: Array<{ file: TFile; token: string }> = [];
+	try {
+		const persisted = normalizePersistedData(
+			await host.loadData(),
+			DEFAULT_SETTINGS
+		);
+		for (const profile of host.getSyncProfiles()) {
+			if (!profile.settings.token) {
+				continue;
+			}
+			const { notePathById } = await loadNoteLocations(
+				host,
+				getProfileSyncState(persisted, profile.id),
+				resolveBaseDir(profile.settings.dir)
+			);
+			const found = await findLocalChanges({
+				app: host.app,
+				notePathById,
+				syncedNotes: persisted.state.syncedNotes,
+				conflicts: persisted.state.conflicts,
+			});
+			for (const { file } of found) {
+				changes.push({ file, token: profile.settings.token });
+			}
+		}
+	} catch (error) {
+		console.error("Dinox: Failed to look for local changes:", error);
+		new Notice(
+			host.t("notice.pushChangesFailed", { error: getErrorMessage(error) })
+		);
+		return;
+	}
+	if (changes.length === 0) {
+		new Notice(host.t("notice.pushChangesNone"));
+		return;
+	}
+
+	new PushChangesModal(host.app, {
+		t: (key, vars) => host.t(key, vars),
+		paths: changes.map((change) => change.file.path),
+		onPush: (onResult) => pushLocalChanges(host, changes, onResult),
+	}).open();
+}
+
+// Resolves false when a sync is running and nothing was pushed.
+async function pushLocalChanges(
+	host: DinoSyncHost,
+	changes: Array<{ file: TFile; token: string }>,
+	onResult: (index: number, error: string | null) => void
+): Promise<boolean> {
+	if (host.isSyncing) {
+		new Notice(host.t("notice.syncInProgress"));
+		return false;
+	}
+	// Holds off syncs and auto push while the batch runs.
+	host.setStatusBarSyncingState(true);
+	try {
+		for (const [index, { file, token }] of changes.entries()) {
+			try {
+				const pushed = await pushFileToDinox({
+					app: host.app,
+					token,
+					file,
+					content: await host.app.vault.read(file),
+				});
+				if (!pushed) {
+					throw new Error(host.t("notice.syncNoId"));
+				}
+				await recordPushedNote(host, pushed);
+				onResult(index, null);
+			} catch (error) {
+				console.error(`Dinox: Failed to push ${file.path}:`, error);
+				onResult(index, getErrorMessage(error));
+			}
+		}
+	} finally {
+		host.setStatusBarSyncingState(false);
+	}
+	return true;
+}
+
+/**
+ * Background push of an edited note. Files without a noteId, with an open
+ * conflict or marked as deleted in Dinox are left alone, and so is
+ * content the plugin itself wrote during a pull or pushed last, so a pull
+ * is never echoed back to Dinox. The push runs in the data update queue,
+ * which a sync waits for, and gives way to a sync that has started.
+ */
+export async function autoPushNote(
+	host: DinoSyncHost,
+	path: string
+): Promise<AutoPushOutcome> {
+	if (host.isSyncing || !navigator.onLine) {
+		return "deferred";
+	}
+	const { app } = host;
+	const file = app.vault.getAbstractFileByPath(path);
+	if (!(file instanceof TFile)) {
+		return "done";
+	}
+	const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+	const noteId = getNoteIdFromFrontmatter(frontmatter);
+	const profile = host.getProfileForPath(path);
+	if (
+		!noteId ||
+		!profile.settings.token ||
+		frontmatter?.[DELETED_KEY] === true
+	) {
+		return "done";
+	}
+
+	let outcome: AutoPushOutcome = "done";
+	await host.updatePersistedData(async (persisted) => {
+		if (host.isSyncing) {
+			outcome = "deferred";
+			return false;
+		}
+		try {
+			const content = await app.vault.read(file);
+			const record = persisted.state.syncedNotes[noteId];
+			const contentHash = hashContent(content);
+			if (
+				record?.localHash === contentHash ||
+				record?.writtenHash === contentHash ||
+				persisted.state.conflicts.some(
+					(conflict) => conflict.noteId === noteId
+				)
+			) {
+				return false;
+			}
+			const pushed = await pushFileToDinox({
+				app,
+				token: profile.settings.token,
+				file,
+				content,
+			});
+			if (!pushed) {
+				return false;
+			}
+			await applyPushedNote(host, persisted, pushed);
+			return true;
+		} catch (error) {
+			console.error(`Dinox: Auto push of ${path} failed:`, error);
+			new Notice(
+				host.t("notice.autoPushFailed", {
+					title: file.basename,
+					error: getErrorMessage(error),
+				})
+			);
+			return false;
+		}
+	});
+	return outcome;
+}
+
+// A successful push makes the pushed body the new merge base and the
+// pushed file the unmodified baseline, so the echo on the next pull
+// simply overwrites it instead of looking like a conflict.
+export function recordPushedNote(
+	host: DinoSyncHost,
+	pushed: PushedNote
+): Promise<void> {
+	return host.updatePersistedData(async (persisted) => {
+		await applyPushedNote(host, persisted, pushed);
+		return true;
+	});
+}
+
+async function applyPushedNote(
+	host: DinoSyncHost,
+	persisted: PersistedPluginData,
+	pushed: PushedNote
+): Promise<void> {
+	persisted.state.syncedNotes[pushed.noteId] = {
+		localHash: hashContent(pushed.content),
+		remoteHash: persisted.state.syncedNotes[pushed.noteId]?.remoteHash ?? "",
+	};
+	const baseStore = await host.getSyncBaseStore();
+	baseStore.set(pushed.noteId, pushed.body);
+	await baseStore.save();
+}
@@ -0,0 +1,94 @@
+import { App, TFile } from "obsidian";
+import { DELETED_KEY, resolveArchiveDir } from "../sync";
+import type { DinoPluginSettings, Note } from "../types";
+import { readLocalFrontmatter } from "./local-index";
+
+export interface ReconcileReport {
+	remoteCount: number;
+	localCount: number;
+	/** Local files whose noteId is not in the remote library (within the sync scope). */
+	orphaned: Array<{ noteId: string; path: string }>;
+	/** Remote notes without a local file. */
+	missing: Note[];
+	/** Mapping entries pointing at a missing file or at a different note. */
+	staleMappings: Array<{
+		noteId: string;
+		path: string;
+		/** Where the note actually lives, if it was found elsewhere. */
+		actualPath: string | null;
+	}>;
+}
+
+/** Whether a note already has a file in the vault, by index or mapping. */
+export function hasLocalCopy(
+	app: App,
+	noteId: string,
+	localIndex: Record<string, string>,
+	notePathById: Record<string, string>
+): boolean {
+	if (localIndex[noteId]) {
+		return true;
+	}
+	const mapped = notePathById[noteId];
+	return !!mapped && app.vault.getAbstractFileByPath(mapped) instanceof TFile;
+}
+
+/**
+ * Compare the local index and the persisted mapping with the full set of
+ * remote noteIds. Notes that the deletion policy already archived or marked
+ * are not reported as orphans again.
+ */
+export async function buildReconcileReport(args: {
+	app: App;
+	settings: DinoPluginSettings;
+	baseDir: string;
+	localIndex: Record<string, string>;
+	notePathById: Record<string, string>;
+	remoteIds: Set<string>;
+	missing: Note[];
+}): Promise<ReconcileReport> {
+	const { app, localIndex } = args;
+	const archiveDir = resolveArchiveDir(args.baseDir, args.settings);
+
+	const orphaned: ReconcileReport["orphaned"] = [];
+	for (const [noteId, path] of Object.entries(localIndex)) {
+		if (args.remoteIds.has(noteId) || path.startsWith(`${archiveDir}/`)) {
+			continue;
+		}
+		const file = app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) {
+			continue;
+		}
+		const frontmatter = await readLocalFrontmatter(app, file);
+		if (frontmatter?.[DELETED_KEY] === true) {
+			continue;
+		}
+		orphaned.push({ noteId, path });
+	}
+
+	const noteIdByPath: Record<string, string> = {};
+	for (const [noteId, path] of Object.entries(localIndex)) {
+		noteIdByPath[path] = noteId;
+	}
+	const staleMappings: ReconcileReport["staleMappings"] = [];
+	for (const [noteId, path] of Object.entries(args.notePathById)) {
+		const exists = app.vault.getAbstractFileByPath(path) instanceof TFile;
+		const indexedPath = localIndex[noteId] ?? null;
+		const pathOwner = noteIdByPath[path];
+		if (
+			!exists ||
+			(pathOwner && pathOwner !== noteId) ||
+			(indexedPath && indexedPath !== path)
+		) {
+			staleMappings.push({ noteId, path, actualPath: indexedPath });
+		}
+	}
+
+	return {
+		remoteCount: args.remoteIds.size,
+		localCount: Object.keys(localIndex).length,
+		orphaned,
+		missing: args.missing,
+		staleMappings,
+	};
+}
@@ -0,0 +1,76 @@
+import { Notice, TFile } from "obsidian";
+import { SYNC_PAGE_SIZE } from "../constants";
+import { fetchNote } from "../api";
+import { applySelectedNotes } from "./preview";
+import {
+	getErrorMessage,
+	getNoteIdFromFrontmatter,
+	parseDate,
+} from "../utils";
+import type { DinoSyncHost } from "../plugin-types";
+import type { Note } from "../types";
+
+// Covers the seconds the stored times are rounded to.
+const SINCE_SLACK_MS = 60 * 1000;
+
+// Dinox pages through the notes changed since a point in time, so the
+// search starts just before the last change the file knows of.
+function resolveRefreshSince(
+	frontmatter: Record<string, unknown> | undefined
+): string | null {
+	const known =
+		parseDate(frontmatter?.updateTime) ?? parseDate(frontmatter?.createTime);
+	return known
+		? new Date(known.getTime() - SINCE_SLACK_MS).toISOString()
+		: null;
+}
+
+/**
+ * Pull one note and run it through the regular sync path, so preserved
+ * keys, the ignore key, conflicts and the deletion policy behave as in a
+ * full sync. It is not journaled, which keeps the last sync undoable.
+ */
+export async function refreshNoteFromDinox(
+	host: DinoSyncHost,
+	file: TFile
+): Promise<void> {
+	const fileCache = host.app.metadataCache.getFileCache(file);
+	const noteId = getNoteIdFromFrontmatter(fileCache?.frontmatter);
+	if (!noteId) {
+		new Notice(host.t("notice.syncNoId"));
+		return;
+	}
+	const profile = host.getProfileForPath(file.path);
+	if (!host.canStartSync(profile.settings)) {
+		return;
+	}
+
+	let note: Note | null;
+	const notice = new Notice(host.t("notice.refreshNoteSearching"), 0);
+	try {
+		note = await fetchNote({
+			token: profile.settings.token,
+			noteId,
+			since: resolveRefreshSince(fileCache?.frontmatter),
+			limit: SYNC_PAGE_SIZE,
+		});
+	} catch (error) {
+		console.error(`Dinox: Failed to fetch note ${noteId}:`, error);
+		new Notice(
+			host.t("notice.refreshNoteFailed", { error: getErrorMessage(error) })
+		);
+		return;
+	} finally {
+		notice.hide();
+	}
+	if (!note) {
+		new Notice(host.t("notice.refreshNoteNotFound"));
+		return;
+	}
+	await applySelectedNotes(host, {
+		notes: [note],
+		settings: profile.settings,
+		profileId: profile.id,
+		journaled: false,
+	});
+}
@@ -0,0 +1,222 @@
+import { App, TFile, TFolder, normalizePath } from "obsidian";
+import {
+	DELETED_KEY,
+	buildNoteBaseFilename,
+	resolveArchiveDir,
+	resolveNoteFolders,
+	resolveUniqueNotePath,
+} from "../sync";
+import { extractFrontmatterScalar, splitFrontmatter } from "../markdown";
+import type { SyncConflict } from "../persisted-data";
+import type { DinoPluginSettings, Note } from "../types";
+import { ensureFolderExists, renameOwnFile } from "../vault";
+import type { SyncJournal } from "./journal";
+import { readLocalFrontmatter } from "./local-index";
+
+export interface RelayoutResult {
+	moved: number;
+	unchanged: number;
+	/** Pinned, ignored, archived or deleted notes, and files without enough frontmatter. */
+	skipped: number;
+	failed: number;
+	removedFolders: number;
+}
+
+const YIELD_EVERY = 20;
+function yieldToMain(): Promise<void> {
+	return new Promise((resolve) => window.setTimeout(resolve, 0));
+}
+
+function parentFolder(path: string): string {
+	const index = path.lastIndexOf("/");
+	return index === -1 ? "" : path.slice(0, index);
+}
+
+/**
+ * Rebuild the routing fields of a note from its file. The raw frontmatter
+ * text is used rather than the parsed YAML so `createTime` keeps the exact
+ * string Dinox sent; `type` and `zettelBoxes` are read back from the content
+ * by the same fallbacks the sync uses.
+ */
+function noteFromContent(noteId: string, content: string): Note | null {
+	const { frontmatter } = splitFrontmatter(content);
+	const createTime = extractFrontmatterScalar(frontmatter, "createTime");
+	if (!createTime) {
+		return null;
+	}
+	return {
+		noteId,
+		title: extractFrontmatterScalar(frontmatter, "title") ?? "",
+		createTime,
+		content,
+		isDel: false,
+	};
+}
+
+/**
+ * Folder the current layout settings put a synced note in, rebuilt from its
+ * file. Null when the file lacks the frontmatter to route it.
+ */
+export async function resolveLayoutFolder(args: {
+	app: App;
+	settings: DinoPluginSettings;
+	baseDir: string;
+	noteId: string;
+	file: TFile;
+}): Promise<string | null> {
+	const note = noteFromContent(
+		args.noteId,
+		await args.app.vault.cachedRead(args.file)
+	);
+	if (!note) {
+		return null;
+	}
+	return resolveNoteFolders({
+		noteData: note,
+		settings: args.settings,
+		baseDir: normalizePath(args.baseDir),
+	}).datePath;
+}
+
+// Remove folders a move left empty, walking up but never past the sync folder.
+async function removeEmptyFolders(
+	app: App,
+	baseDir: string,
+	candidates: Set<string>
+): Promise<number> {
+	let removed = 0;
+	const deepestFirst = Array.from(candidates).sort(
+		(a, b) => b.split("/").length - a.split("/").length
+	);
+	for (const start of deepestFirst) {
+		let path = start;
+		while (path && path !== baseDir && path.startsWith(`${baseDir}/`)) {
+			const folder = app.vault.getAbstractFileByPath(path);
+			if (!(folder instanceof TFolder) || folder.children.length > 0) {
+				break;
+			}
+			await app.fileManager.trashFile(folder);
+			removed++;
+			path = parentFolder(path);
+		}
+	}
+	return removed;
+}
+
+/**
+ * Move every synced note to the path the current filename and folder settings
+ * would give it. Notes the user pinned or moved out of the sync folder, notes
+ * excluded with the ignore key and notes the deletion policy archived or
+ * marked stay where they are.
+ */
+export async function relayoutSyncedNotes(args: {
+	app: App;
+	settings: DinoPluginSettings;
+	baseDir: string;
+	notePathById: Record<string, string>;
+	pinnedNoteIds: ReadonlySet<string>;
+	conflicts: SyncConflict[];
+	journal: SyncJournal | null;
+	onProgress?: (done: number, total: number) => void;
+}): Promise<RelayoutResult> {
+	const { app, settings, notePathById } = args;
+	const baseDir = normalizePath(args.baseDir);
+	const archiveDir = resolveArchiveDir(baseDir, settings);
+	const result: RelayoutResult = {
+		moved: 0,
+		unchanged: 0,
+		skipped: 0,
+		failed: 0,
+		removedFolders: 0,
+	};
+	const vacatedFolders = new Set<string>();
+
+	const entries = Object.entries(notePathById);
+	let done = 0;
+	for (const [noteId, path] of entries) {
+		if (++done % YIELD_EVERY === 0) {
+			args.onProgress?.(done, entries.length);
+			await yieldToMain();
+		}
+
+		const file = app.vault.getAbstractFileByPath(path);
+		if (
+			!(file instanceof TFile) ||
+			(settings.pinMovedNotes && args.pinnedNoteIds.has(noteId)) ||
+			!path.startsWith(`${baseDir}/`) ||
+			path.startsWith(`${archiveDir}/`)
+		) {
+			result.skipped++;
+			continue;
+		}
+
+		try {
+			const frontmatter = await readLocalFrontmatter(app, file);
+			const ignoreKey = settings.ignoreSyncKey;
+			if (
+				!frontmatter ||
+				frontmatter[DELETED_KEY] === true ||
+				(ignoreKey && frontmatter[ignoreKey] === true)
+			) {
+				result.skipped++;
+				continue;
+			}
+			const note = noteFromContent(noteId, await app.vault.cachedRead(file));
+			if (!note) {
+				result.skipped++;
+				continue;
+			}
+
+			const { datePath } = resolveNoteFolders({
+				noteData: note,
+				settings,
+				baseDir,
+			});
+			const desiredPath = normalizePath(
+				`${datePath}/${buildNoteBaseFilename(note, settings)}.md`
+			);
+			const candidate = resolveUniqueNotePath(
+				app,
+				desiredPath,
+				noteId,
+				file.path
+			);
+			if (
+				candidate === file.path ||
+				app.vault.getAbstractFileByPath(candidate)
+			) {
+				result.unchanged++;
+				continue;
+			}
+
+			await ensureFolderExists(app, parentFolder(candidate));
+			const fromPath = file.path;
+			await renameOwnFile(app, file, candidate);
+			args.journal?.recordRename(fromPath, candidate);
+			notePathById[noteId] = candidate;
+			for (const conflict of args.conflicts) {
+				if (conflict.notePath === fromPath) {
+					conflict.notePath = candidate;
+				}
+			}
+			vacatedFolders.add(parentFolder(fromPath));
+			result.moved++;
+		} catch (error) {
+			result.failed++;
+			console.error(`Dinox: Failed to move ${path}:`, error);
+		}
+	}
+	args.onProgress?.(entries.length, entries.length);
+
+	try {
+		result.removedFolders = await removeEmptyFolders(
+			app,
+			baseDir,
+			vacatedFolders
+		);
+	} catch (error) {
+		console.warn("Dinox: Failed to remove empty folders:", error);
+	}
+
+	return result;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { TFile } from "obsidian";
+import { DEFAULT_SETTINGS, MAIN_PROFILE_ID } from "../constants";
+import { getProfileSyncState, normalizePersistedData } from "../persisted-data";
+import { renameOwnFile } from "../vault";
+import { handleVaultRename, replayHeldRenames } from "./renames";
+import { createSyncFixture, dinoxNote, syncPage } from "../../test/sync";
+import { createTestHost, type TestHost } from "../../test/host";
+
+const SYNCED = "Dinox/note/n1.md";
+
+async function setup(): Promise<{ host: TestHost; file: TFile }> {
+	const fixture = await createSyncFixture();
+	await syncPage(fixture, [dinoxNote("n1", "body")]);
+	const host = createTestHost(fixture.app, fixture.settings);
+	await host.updatePersistedData((persisted) => {
+		getProfileSyncState(persisted, MAIN_PROFILE_ID).notePathById = {
+			...fixture.notePathById,
+		};
+		return true;
+	});
+	const file = fixture.app.vault.getAbstractFileByPath(SYNCED);
+	if (!(file instanceof TFile)) {
+		throw new Error("The note was not written.");
+	}
+	await fixture.app.vault.createFolder("Projects");
+	return { host, file };
+}
+
+async function mappedPath(host: TestHost): Promise<string | undefined> {
+	const persisted = normalizePersistedData(
+		await host.loadData(),
+		DEFAULT_SETTINGS
+	);
+	return getProfileSyncState(persisted, MAIN_PROFILE_ID).notePathById.n1;
+}
+
+async function move(host: TestHost, file: TFile, path: string): Promise<void> {
+	const oldPath = file.path;
+	await host.app.fileManager.renameFile(file, path);
+	await handleVaultRename(host, file, oldPath);
+}
+
+describe("handleVaultRename", () => {
+	it("follows a note the user moved", async () => {
+		const { host, file } = await setup();
+		await move(host, file, "Projects/n1.md");
+		expect(await mappedPath(host)).toBe("Projects/n1.md");
+	});
+
+	it("holds a move made during a run until the run ends", async () => {
+		const { host, file } = await setup();
+		host.setStatusBarSyncingState(true);
+		await move(host, file, "Projects/n1.md");
+		expect(await mappedPath(host)).toBe(SYNCED);
+
+		host.setStatusBarSyncingState(false);
+		await replayHeldRenames(host);
+		expect(await mappedPath(host)).toBe("Projects/n1.md");
+	});
+
+	it("leaves the plugin's own renames to the code making them", async () => {
+		const { host, file } = await setup();
+		let oldPath = "";
+		host.app.fileManager.renameFile = (target, path) => {
+			oldPath = target.path;
+			return host.app.vault.rename(target, path).then(() =>
+				// Obsidian fires the event before the rename resolves.
+				handleVaultRename(host, target, oldPath)
+			);
+		};
+		await renameOwnFile(host.app, file, "Projects/n1.md");
+		expect(oldPath).toBe(SYNCED);
+		expect(await mappedPath(host)).toBe(SYNCED);
+	});
+});
@@ -0,0 +1,119 @@
+import { Notice, TAbstractFile, TFile } from "obsidian";
+import { getProfileSyncState } from "../persisted-data";
+import { resolveBaseDir } from "../sync";
+import { resolveLayoutFolder } from "./relayout";
+import { findProfileForPath, type SyncProfile } from "../profiles";
+import { getNoteIdFromFrontmatter } from "../utils";
+import { isOwnRename } from "../vault";
+import type { DinoSyncHost } from "../plugin-types";
+
+// Moves made while a run writes notes: the run saves the mappings it holds
+// when it ends, which would undo what these recorded.
+const heldRenames: Array<{ file: TFile; oldPath: string }> = [];
+
+/**
+ * Follow a note the user moved. The plugin's own renames are tracked where
+ * they are made and skipped here; the user's moves during a run are held
+ * until it ends. A note is pinned only when it leaves the folder the layout
+ * settings give it; renaming it in place lets the next sync restore its
+ * filename.
+ */
+export function handleVaultRename(
+	host: DinoSyncHost,
+	file: TAbstractFile,
+	oldPath: string
+): Promise<void> {
+	if (
+		!(file instanceof TFile) ||
+		file.extension !== "md" ||
+		isOwnRename(oldPath, file.path)
+	) {
+		return Promise.resolve();
+	}
+	if (host.isSyncing) {
+		heldRenames.push({ file, oldPath });
+		return Promise.resolve();
+	}
+	return host.updatePersistedData(async (persisted) => {
+		if (host.isSyncing) {
+			heldRenames.push({ file, oldPath });
+			return false;
+		}
+		let changed = false;
+		for (const conflict of persisted.state.conflicts) {
+			if (conflict.notePath === oldPath) {
+				conflict.notePath = file.path;
+				changed = true;
+			}
+			if (conflict.conflictPath === oldPath) {
+				conflict.conflictPath = file.path;
+				changed = true;
+			}
+		}
+
+		// The mapping that knows the old path wins; otherwise the note
+		// belongs to the profile whose folder it was moved out of.
+		const profiles = host.getSyncProfiles();
+		let owner: SyncProfile | undefined;
+		let noteId: string | undefined;
+		for (const profile of profiles) {
+			const paths = getProfileSyncState(persisted, profile.id).notePathById;
+			noteId = Object.keys(paths).find((id) => paths[id] === oldPath);
+			if (noteId) {
+				owner = profile;
+				break;
+			}
+		}
+		if (!noteId) {
+			noteId = getNoteIdFromFrontmatter(
+				host.app.metadataCache.getFileCache(file)?.frontmatter
+			);
+			owner = findProfileForPath(profiles, oldPath) ?? profiles[0];
+		}
+		if (!noteId || !owner) {
+			return changed;
+		}
+		getProfileSyncState(persisted, owner.id).notePathById[noteId] =
+			file.path;
+		if (
+			owner.settings.pinMovedNotes &&
+			!persisted.state.pinnedNoteIds.includes(noteId)
+		) {
+			const layoutFolder = await resolveLayoutFolder({
+				app: host.app,
+				settings: owner.settings,
+				baseDir: resolveBaseDir(owner.settings.dir),
+				noteId,
+				file,
+			});
+			if (layoutFolder !== null && layoutFolder !== file.parent?.path) {
+				persisted.state.pinnedNoteIds.push(noteId);
+			}
+		}
+		return true;
+	});
+}
+
+/** Record the moves held back during a run, in the order they were made. */
+export async function replayHeldRenames(host: DinoSyncHost): Promise<void> {
+	for (const { file, oldPath } of heldRenames.splice(0)) {
+		// A note moved twice is at its latest path already; one deleted
+		// since has nothing left to follow.
+		if (host.app.vault.getAbstractFileByPath(file.path) === file) {
+			await handleVaultRename(host, file, oldPath);
+		}
+	}
+}
+
+export async function unpinNoteLocation(
+	host: DinoSyncHost,
+	noteId: string
+): Promise<void> {
+	await host.updatePersistedData((persisted) => {
+		persisted.state.pinnedNoteIds = persisted.state.pinnedNoteIds.filter(
+			(id) => id !== noteId
+		);
+		return true;
+	});
+	new Notice(host.t("notice.noteLocationUnpinned"));
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { appendSyncReportRun, MAX_REPORT_RUNS } from "./report";
+
+function run(index: number): string {
+	return `## Run ${index}\n\n- Created 1\n`;
+}
+
+describe("appendSyncReportRun", () => {
+	it("adds the run below the earlier ones", () => {
+		const report = `# Report\n\n${run(1)}`;
+		expect(appendSyncReportRun(report, run(2))).toBe(
+			`# Report\n\n${run(1)}\n${run(2)}`
+		);
+	});
+
+	it("starts a report that has no runs yet", () => {
+		expect(appendSyncReportRun("# Report\n\n", run(1))).toBe(
+			`# Report\n\n${run(1)}`
+		);
+	});
+
+	it("drops the oldest runs past the limit and keeps the title", () => {
+		let report = "# Report\n\n";
+		for (let i = 1; i <= MAX_REPORT_RUNS + 5; i++) {
+			report = appendSyncReportRun(report, run(i));
+		}
+		const headings = report.match(/^## .*$/gm) ?? [];
+		expect(headings).toHaveLength(MAX_REPORT_RUNS);
+		expect(headings[0]).toBe("## Run 6");
+		expect(headings[headings.length - 1]).toBe(`## Run ${MAX_REPORT_RUNS + 5}`);
+		expect(report.startsWith(`# Report\n\n${run(6)}\n${run(7)}`)).toBe(true);
+	});
+});
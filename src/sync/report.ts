@@ -0,0 +1,118 @@
+import { App, TFile } from "obsidian";
+import type { TranslationKey, TranslationVars } from "../../i18n";
+import type { SyncReportAction, SyncReportEntry, SyncSession } from "../sync";
+import type { SyncReportSettings } from "../types";
+import { formatDate } from "../utils";
+import { ensureFolderExists } from "../vault";
+
+type TFunction = (key: TranslationKey, vars?: TranslationVars) => string;
+
+const SECTIONS: Array<[SyncReportAction, TranslationKey]> = [
+	["created", "report.section.created"],
+	["updated", "report.section.updated"],
+	["moved", "report.section.moved"],
+	["deleted", "report.section.deleted"],
+	["conflict", "report.section.conflicts"],
+	["skipped", "report.section.skipped"],
+	["failed", "report.section.failed"],
+];
+
+/** Runs kept in an appended report; older ones are dropped from the top. */
+export const MAX_REPORT_RUNS = 50;
+
+function singleLine(text: string): string {
+	return text.replace(/\s+/g, " ").trim();
+}
+
+function formatEntry(entry: SyncReportEntry): string {
+	let label = singleLine(entry.title);
+	if (entry.notePath) {
+		const target = entry.notePath.replace(/\.md$/i, "");
+		// Brackets and pipes would end the wikilink early.
+		const alias = label.replace(/[[\]|]/g, " ").trim();
+		label = alias ? `[[${target}|${alias}]]` : `[[${target}]]`;
+	}
+	return entry.error ? `- ${label}: ${singleLine(entry.error)}` : `- ${label}`;
+}
+
+/** One run as a markdown section: summary line, then a list per action. */
+export function buildSyncReport(args: {
+	t: TFunction;
+	session: SyncSession;
+	/** Profile name, shown when more than one profile syncs. */
+	label: string | null;
+	startedAt: number;
+	finishedAt: number;
+	error: string | null;
+}): string {
+	const { t, session } = args;
+	const count = (action: SyncReportAction): number =>
+		session.entries.filter((entry) => entry.action === action).length;
+
+	const lines = [
+		`## ${formatDate(new Date(args.startedAt))}${args.label ? ` · ${args.label}` : ""}`,
+		"",
+		`- ${t("report.duration", {
+			seconds: Math.max(0, Math.round((args.finishedAt - args.startedAt) / 1000)),
+		})}`,
+		`- ${t("report.summary", {
+			created: count("created"),
+			updated: count("updated"),
+			moved: count("moved"),
+			unchanged: session.unchanged,
+			deleted: count("deleted"),
+			skipped: count("skipped"),
+			conflicts: count("conflict"),
+			failed: count("failed"),
+		})}`,
+	];
+	if (args.error) {
+		lines.push(`- ${t("report.error", { error: singleLine(args.error) })}`);
+	}
+	for (const [action, key] of SECTIONS) {
+		const entries = session.entries.filter((entry) => entry.action === action);
+		if (entries.length === 0) {
+			continue;
+		}
+		lines.push("", `### ${t(key)}`, "", ...entries.map(formatEntry));
+	}
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * The report with `run` added at the end, keeping the title above the first
+ * run and only the latest MAX_REPORT_RUNS runs.
+ */
+export function appendSyncReportRun(report: string, run: string): string {
+	const parts = report.split(/^(?=## )/m);
+	const head = parts[0].startsWith("## ") ? "" : parts.shift() ?? "";
+	const kept = parts.slice(Math.max(0, parts.length - MAX_REPORT_RUNS + 1));
+	const previous = kept.join("");
+	return previous ? `${head}${previous}\n${run}` : `${head}${run}`;
+}
+
+/** Add a run to the report note, creating the note on first use. */
+export async function writeSyncReport(args: {
+	app: App;
+	t: TFunction;
+	settings: SyncReportSettings;
+	baseDir: string;
+	run: string;
+}): Promise<void> {
+	const { app, settings, run } = args;
+	const path = `${args.baseDir}/${settings.path}`;
+	const header = `# ${args.t("report.title")}\n\n`;
+	const existing = app.vault.getAbstractFileByPath(path);
+	if (existing instanceof TFile) {
+		if (settings.mode === "append") {
+			const report = await app.vault.read(existing);
+			await app.vault.modify(existing, appendSyncReportRun(report, run));
+		} else {
+			await app.vault.modify(existing, `${header}${run}`);
+		}
+		return;
+	}
+	const folderIndex = path.lastIndexOf("/");
+	await ensureFolderExists(app, path.slice(0, folderIndex));
+	await app.vault.create(path, `${header}${run}`);
+}
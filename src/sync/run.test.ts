@@ -0,0 +1,150 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_SETTINGS, MAIN_PROFILE_ID } from "../constants";
+import { getProfileSyncState, normalizePersistedData } from "../persisted-data";
+import type { DinoPluginSettings, Note } from "../types";
+import { getResumableCheckpoint } from "./run";
+import {
+	createSyncHost,
+	loadMainState,
+	runMainSync,
+	type TestHost,
+} from "../../test/host";
+import { remote, resetRemote } from "../../test/api";
+import { deletionGuard } from "../../test/modals";
+import { deletedNote, dinoxNote } from "../../test/sync";
+import { readTestFile } from "../../test/vault";
+
+vi.mock("../api", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../api")>()),
+	iterateNotesPages: (await import("../../test/api")).iterateNotesPages,
+}));
+vi.mock("../deletion-guard-modal", () => import("../../test/modals"));
+
+function note(noteId: string, updateTime: string): Note {
+	return { ...dinoxNote(noteId, noteId), updateTime };
+}
+
+beforeEach(() => {
+	vi.restoreAllMocks();
+	resetRemote();
+	deletionGuard.answer = true;
+	deletionGuard.shown = [];
+});
+
+describe("getResumableCheckpoint", () => {
+	const query = { since: "2026-01-01", includeDeleted: true, boxIds: null };
+	const state = {
+		...getProfileSyncState(
+			normalizePersistedData(null, DEFAULT_SETTINGS),
+			MAIN_PROFILE_ID
+		),
+		checkpoint: {
+			startedAt: "run",
+			...query,
+			cursor: "c1",
+			highWaterMark: null,
+			processedNoteIds: ["n1"],
+			deferredDeletions: [],
+		},
+	};
+
+	it("resumes a run of the same query", () => {
+		expect(getResumableCheckpoint(state, query)?.cursor).toBe("c1");
+	});
+
+	it("starts over when the query changed since", () => {
+		expect(
+			getResumableCheckpoint(state, { ...query, since: "2026-02-01" })
+		).toBeNull();
+		expect(
+			getResumableCheckpoint(state, { ...query, boxIds: ["box"] })
+		).toBeNull();
+	});
+});
+
+describe("syncProfile", () => {
+	it("resumes an interrupted run at the page it stopped on", async () => {
+		const host = await createSyncHost();
+		resetRemote([
+			[note("n1", "2026-01-03 09:00:00"), note("n2", "2026-01-02 09:00:00")],
+			[note("n3", "2026-01-01 09:00:00")],
+		]);
+		remote.failAt = 1;
+		const { lastSyncTime } = await loadMainState(host);
+		vi.spyOn(console, "error").mockImplementation(() => {});
+
+		expect(await runMainSync(host)).toBe(false);
+		let state = await loadMainState(host);
+		expect(state.checkpoint?.cursor).toBe("c1");
+		expect(state.lastSyncTime).toBe(lastSyncTime);
+		expect(await readTestFile(host.app, "Dinox/note/n2.md")).not.toBeNull();
+		expect(await readTestFile(host.app, "Dinox/note/n3.md")).toBeNull();
+
+		expect(await runMainSync(host)).toBe(true);
+		state = await loadMainState(host);
+		expect(remote.requests).toEqual([null, "c1"]);
+		expect(state.checkpoint).toBeNull();
+		expect(state.lastSyncTime).toBe("2026-01-03 09:00:00");
+		expect(await readTestFile(host.app, "Dinox/note/n3.md")).not.toBeNull();
+	});
+
+	describe("deletion guard", () => {
+		async function syncedHost(
+			settings: Partial<DinoPluginSettings> = {}
+		): Promise<TestHost> {
+			const host = await createSyncHost(settings);
+			resetRemote([
+				["n1", "n2", "n3"].map((id) => note(id, "2026-01-01 09:00:00")),
+			]);
+			await runMainSync(host);
+			return host;
+		}
+
+		it("holds back deletions over the limits until they are confirmed", async () => {
+			const host = await syncedHost();
+			resetRemote([[deletedNote("n1"), deletedNote("n2")]]);
+			deletionGuard.answer = false;
+
+			expect(await runMainSync(host)).toBe(true);
+			expect(deletionGuard.shown).toEqual([2]);
+			expect(await readTestFile(host.app, "Dinox/note/n1.md")).not.toBeNull();
+			expect(
+				(await loadMainState(host)).heldDeletions.map((held) => held.noteId)
+			).toEqual(["n1", "n2"]);
+
+			// The next sync offers the held deletions again.
+			resetRemote([]);
+			deletionGuard.answer = true;
+			expect(await runMainSync(host)).toBe(true);
+			expect(deletionGuard.shown).toEqual([2, 2]);
+			expect(await readTestFile(host.app, "Dinox/note/n1.md")).toBeNull();
+			expect(await readTestFile(host.app, "Dinox/note/n2.md")).toBeNull();
+			expect((await loadMainState(host)).heldDeletions).toEqual([]);
+		});
+
+		it("applies deletions within the limits without asking", async () => {
+			const host = await syncedHost({
+				deletionGuard: { enabled: true, maxCount: 1, maxPercent: 0 },
+			});
+			resetRemote([[deletedNote("n1")]]);
+
+			await runMainSync(host);
+			expect(deletionGuard.shown).toEqual([]);
+			expect(await readTestFile(host.app, "Dinox/note/n1.md")).toBeNull();
+		});
+
+		it("does not count notes that stay in place", async () => {
+			const host = await syncedHost({
+				deletionPolicy: "mark",
+				deletionGuard: { enabled: true, maxCount: 1, maxPercent: 0 },
+			});
+			resetRemote([[deletedNote("n1"), deletedNote("n2")]]);
+
+			await runMainSync(host);
+			expect(deletionGuard.shown).toEqual([]);
+			expect(await readTestFile(host.app, "Dinox/note/n1.md")).toContain(
+				"dinox_deleted: true"
+			);
+		});
+	});
+});
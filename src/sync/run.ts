@@ -0,0 +1,752 @@
+import { Notice, TFile } from "obsidian";
+import {
+	DEFAULT_LAST_SYNC_TIME,
+	DEFAULT_SETTINGS,
+	SYNC_PAGE_SIZE,
+} from "../constants";
+import {
+	getProfileSyncState,
+	normalizePersistedData,
+	type FailedNoteRecord,
+	type PersistedPluginData,
+	type ProfileSyncState,
+	type SyncCheckpoint,
+} from "../persisted-data";
+import { iterateNotesPages } from "../api";
+import {
+	buildLocalNoteIdIndex,
+	createSyncSession,
+	ensureBaseDir,
+	processNotesPage,
+	resolveBaseDir,
+	type SyncPlanItem,
+	type SyncSession,
+} from "../sync";
+import type { SyncBaseStore } from "./base-store";
+import type { SyncJournal } from "./journal";
+import { buildSyncReport, writeSyncReport } from "./report";
+import type { SyncHistoryRun, SyncProgress } from "./history";
+import { getDueFailedNotes } from "./failed-notes";
+import { buildVaultNoteIdIndex } from "./local-index";
+import { buildReconcileReport } from "./reconcile";
+import { diffSyncScope } from "./scope";
+import { DeletionGuardModal } from "../deletion-guard-modal";
+import {
+	ScopeCleanupModal,
+	type ScopeCleanupChoice,
+} from "../scope-cleanup-modal";
+import { getErrorMessage, parseDate } from "../utils";
+import type { DinoSyncHost } from "../plugin-types";
+import type { DinoPluginSettings, Note, NotesSyncQuery } from "../types";
+import type { ProfileSyncResult, SyncProfile } from "../profiles";
+import type { SyncTrigger } from "../auto-sync";
+import type { TranslationKey, TranslationVars } from "../../i18n";
+
+type TFunction = (key: TranslationKey, vars?: TranslationVars) => string;
+
+// Convert the stored sync cursor into an unambiguous ISO timestamp the
+// server can compare with `::timestamptz`. Returns null for a first/full
+// sync so older stored formats can never cause a timezone-shifted query.
+function resolveSince(stored: string | undefined): string | null {
+	if (!stored || stored === DEFAULT_LAST_SYNC_TIME) {
+		return null;
+	}
+	const parsed = parseDate(stored);
+	if (!parsed) {
+		return null;
+	}
+	return parsed.toISOString();
+}
+
+export function getSyncQuery(
+	state: ProfileSyncState,
+	settings: DinoPluginSettings
+): NotesSyncQuery {
+	// `since` is an unambiguous ISO timestamp; null means a first/full
+	// sync (also skips deletions, since there is nothing local to remove
+	// yet).
+	const since = resolveSince(state.lastSyncTime);
+	return {
+		since,
+		includeDeleted: since !== null,
+		// null => sync everything; array => only the selected boxes + sub-boxes.
+		boxIds: settings.syncScope.enabled
+			? settings.syncScope.selectedBoxIds
+			: null,
+	};
+}
+
+// A checkpoint only applies to the query it was taken for; after a reset
+// or a scope change the run starts over.
+export function getResumableCheckpoint(
+	state: ProfileSyncState,
+	query: NotesSyncQuery
+): SyncCheckpoint | null {
+	const checkpoint = state.checkpoint;
+	if (
+		!checkpoint ||
+		checkpoint.since !== query.since ||
+		checkpoint.includeDeleted !== query.includeDeleted ||
+		JSON.stringify(checkpoint.boxIds) !== JSON.stringify(query.boxIds)
+	) {
+		return null;
+	}
+	return checkpoint;
+}
+
+// Stable noteId -> path mapping: persisted entries win, the on-disk scan
+// fills the gaps. With vault lookup on, notes moved out of the sync
+// folder are found too, so a lost mapping does not lead to a duplicate.
+export async function loadNoteLocations(
+	host: DinoSyncHost,
+	state: ProfileSyncState,
+	baseDir: string
+): Promise<{
+	localIndex: Record<string, string>;
+	notePathById: Record<string, string>;
+}> {
+	const { app } = host;
+	const localIndex = await buildLocalNoteIdIndex(
+		app,
+		baseDir,
+		await host.getLocalNoteIdCache()
+	);
+	const notePathById = state.notePathById;
+	for (const [noteId, path] of Object.entries(localIndex)) {
+		if (!notePathById[noteId]) {
+			notePathById[noteId] = path;
+		}
+	}
+	const { vaultLookup } = host.settings;
+	if (vaultLookup.enabled) {
+		const vaultIndex = buildVaultNoteIdIndex(app, baseDir, vaultLookup);
+		for (const [noteId, path] of Object.entries(vaultIndex)) {
+			const mapped = notePathById[noteId];
+			if (
+				!mapped ||
+				!(app.vault.getAbstractFileByPath(mapped) instanceof TFile)
+			) {
+				notePathById[noteId] = path;
+			}
+		}
+	}
+	return { localIndex, notePathById };
+}
+
+// With several profiles, notices name the profile they belong to.
+export function labelMessage(label: string | null, message: string): string {
+	return label ? `[${label}] ${message}` : message;
+}
+
+export function showSyncSummary(
+	host: DinoSyncHost,
+	notice: Notice,
+	session: SyncSession,
+	label: string | null = null
+): void {
+	notice.setMessage(
+		labelMessage(
+			label,
+			host.t("notice.syncComplete", {
+				processed: session.processed,
+				unchanged: session.unchanged,
+				deleted: session.deleted,
+			})
+		)
+	);
+	if (session.merged > 0) {
+		new Notice(
+			labelMessage(
+				label,
+				host.t("notice.syncMerged", { count: session.merged })
+			)
+		);
+	}
+	if (session.conflicts > 0) {
+		new Notice(
+			labelMessage(
+				label,
+				host.t("notice.syncConflicts", { count: session.conflicts })
+			),
+			10000
+		);
+	}
+	if (session.failed > 0) {
+		new Notice(
+			labelMessage(
+				label,
+				host.t("notice.syncNotesQueued", { count: session.failed })
+			),
+			10000
+		);
+	}
+}
+
+function recordJournalPosition(
+	journal: SyncJournal,
+	persisted: PersistedPluginData,
+	profileId: string
+): void {
+	const { lastSyncTime, notePathById } = getProfileSyncState(
+		persisted,
+		profileId
+	);
+	journal.recordPosition(profileId, { lastSyncTime, notePathById });
+}
+
+/**
+ * Save what a run changed, the shared note records and the position of its
+ * profile, onto a fresh copy of data.json through the update queue. Pins,
+ * settings and other profiles saved in the meantime are kept.
+ */
+export function saveRunState(
+	host: DinoSyncHost,
+	persisted: PersistedPluginData,
+	profileId: string
+): Promise<void> {
+	const position = getProfileSyncState(persisted, profileId);
+	return host.updatePersistedData((latest) => {
+		latest.state.syncedNotes = persisted.state.syncedNotes;
+		latest.state.conflicts = persisted.state.conflicts;
+		const target = getProfileSyncState(latest, profileId);
+		target.lastSyncTime = position.lastSyncTime;
+		target.notePathById = position.notePathById;
+		target.checkpoint = position.checkpoint;
+		target.failedNotes = position.failedNotes;
+		target.heldDeletions = position.heldDeletions;
+		target.scopeBoxIds = position.scopeBoxIds;
+		return true;
+	});
+}
+
+// Starts a journal run over the shared records and the given profile's
+// position. Syncs use beginSyncJournalRun, which covers every profile.
+export function beginJournalRun(
+	journal: SyncJournal,
+	persisted: PersistedPluginData,
+	profileId: string
+): string {
+	const runId = journal.begin({
+		syncedNotes: persisted.state.syncedNotes,
+		conflicts: persisted.state.conflicts,
+	});
+	recordJournalPosition(journal, persisted, profileId);
+	return runId;
+}
+
+// One journal run covers all profiles of a sync. A sync that continues
+// an interrupted one keeps appending to that run, so undo reverts all of
+// it.
+export async function beginSyncJournalRun(
+	host: DinoSyncHost,
+	journal: SyncJournal,
+	profiles: SyncProfile[]
+): Promise<string> {
+	const persisted = normalizePersistedData(
+		await host.loadData(),
+		DEFAULT_SETTINGS
+	);
+	const lastRunId = journal.getLastRun()?.startedAt;
+	if (
+		lastRunId &&
+		profiles.some(
+			(profile) =>
+				getProfileSyncState(persisted, profile.id).checkpoint?.startedAt ===
+				lastRunId
+		) &&
+		journal.resume(lastRunId)
+	) {
+		return lastRunId;
+	}
+	return journal.begin({
+		syncedNotes: persisted.state.syncedNotes,
+		conflicts: persisted.state.conflicts,
+	});
+}
+
+// Dry-runs the held-back deletions against the guard limits and only asks
+// when they are exceeded. Resolves false when the user declines.
+export async function confirmDeletions(
+	host: DinoSyncHost,
+	args: {
+		settings: DinoPluginSettings;
+		notes: Note[];
+		baseDir: string;
+		localIndex: Record<string, string>;
+		notePathById: Record<string, string>;
+		persisted: PersistedPluginData;
+		failedNotes: Record<string, FailedNoteRecord>;
+		baseStore: SyncBaseStore;
+	}
+): Promise<boolean> {
+	const guard = args.settings.deletionGuard;
+	if (!guard.enabled || args.notes.length === 0) {
+		return true;
+	}
+
+	const t: TFunction = (key, vars) => host.t(key, vars);
+	const plan: SyncPlanItem[] = [];
+	await processNotesPage({
+		app: host.app,
+		settings: args.settings,
+		t,
+		notes: args.notes,
+		baseDir: args.baseDir,
+		notePathById: { ...args.notePathById },
+		localIndex: args.localIndex,
+		syncedNotes: { ...args.persisted.state.syncedNotes },
+		conflicts: [...args.persisted.state.conflicts],
+		failedNotes: { ...args.failedNotes },
+		pinnedNoteIds: new Set(args.persisted.state.pinnedNoteIds),
+		baseStore: args.baseStore,
+		session: createSyncSession(),
+		plan,
+	});
+	// Trashed and archived notes leave their folder; marked ones stay.
+	const removals = plan.filter(
+		(item) => item.action === "delete" || item.action === "rename"
+	);
+	const indexedCount = Object.keys(args.localIndex).length;
+	const overCount = guard.maxCount > 0 && removals.length > guard.maxCount;
+	const overPercent =
+		guard.maxPercent > 0 &&
+		indexedCount > 0 &&
+		(removals.length / indexedCount) * 100 > guard.maxPercent;
+	if (!overCount && !overPercent) {
+		return true;
+	}
+
+	return await new Promise<boolean>((resolve) => {
+		new DeletionGuardModal(host.app, {
+			t,
+			items: removals,
+			indexedCount,
+			onResolve: resolve,
+		}).open();
+	});
+}
+
+/**
+ * The incremental cursor skips the older notes of a box added to the
+ * scope, so those boxes are pulled in full. When boxes left the scope,
+ * local notes no longer in it are listed and the user picks whether to
+ * archive, trash or keep them.
+ */
+async function applyScopeChange(
+	host: DinoSyncHost,
+	args: {
+		settings: DinoPluginSettings;
+		query: NotesSyncQuery;
+		previousBoxIds: string[] | null | undefined;
+		baseDir: string;
+		localIndex: Record<string, string>;
+		notePathById: Record<string, string>;
+		persisted: PersistedPluginData;
+		failedNotes: Record<string, FailedNoteRecord>;
+		pinnedNoteIds: Set<string>;
+		baseStore: SyncBaseStore;
+		session: SyncSession;
+		notice: Notice;
+		label: string | null;
+	}
+): Promise<void> {
+	const { settings, query } = args;
+	const t: TFunction = (key, vars) => host.t(key, vars);
+	const change = diffSyncScope(args.previousBoxIds, query.boxIds);
+	const processNotes = (
+		notes: Note[],
+		pageSettings: DinoPluginSettings = settings
+	): Promise<void> =>
+		processNotesPage({
+			app: host.app,
+			settings: pageSettings,
+			t,
+			notes,
+			baseDir: args.baseDir,
+			notePathById: args.notePathById,
+			localIndex: args.localIndex,
+			syncedNotes: args.persisted.state.syncedNotes,
+			conflicts: args.persisted.state.conflicts,
+			failedNotes: args.failedNotes,
+			pinnedNoteIds: args.pinnedNoteIds,
+			baseStore: args.baseStore,
+			session: args.session,
+		});
+
+	// A full sync already covered the whole scope.
+	if (change.backfill && query.since !== null) {
+		let fetched = 0;
+		for await (const page of iterateNotesPages({
+			token: settings.token,
+			since: null,
+			includeDeleted: false,
+			boxIds: change.backfill.boxIds,
+			limit: SYNC_PAGE_SIZE,
+		})) {
+			await processNotes(page.notes);
+			fetched += page.notes.length;
+			args.notice.setMessage(
+				labelMessage(
+					args.label,
+					t("notice.scopeBackfill", { count: fetched })
+				)
+			);
+		}
+	}
+
+	if (!change.narrowed) {
+		return;
+	}
+	const remoteIds = new Set<string>();
+	for await (const page of iterateNotesPages({
+		token: settings.token,
+		since: null,
+		includeDeleted: false,
+		boxIds: query.boxIds,
+		limit: SYNC_PAGE_SIZE,
+	})) {
+		for (const note of page.notes) {
+			remoteIds.add(note.noteId);
+		}
+	}
+	const { orphaned } = await buildReconcileReport({
+		app: host.app,
+		settings,
+		baseDir: args.baseDir,
+		localIndex: args.localIndex,
+		notePathById: args.notePathById,
+		remoteIds,
+		missing: [],
+	});
+	if (orphaned.length === 0) {
+		return;
+	}
+	const choice = await new Promise<ScopeCleanupChoice>((resolve) => {
+		new ScopeCleanupModal(host.app, {
+			t,
+			title: t("scopeCleanup.title"),
+			desc: t("scopeCleanup.desc", { count: orphaned.length }),
+			paths: orphaned.map((entry) => entry.path),
+			onResolve: resolve,
+		}).open();
+	});
+	if (choice === "keep") {
+		return;
+	}
+	// Out-of-scope notes go through the deletion policy like a remote delete.
+	await processNotes(
+		orphaned.map((entry) => ({
+			noteId: entry.noteId,
+			title: "",
+			content: "",
+			createTime: "",
+			isDel: true,
+		})),
+		{ ...settings, deletionPolicy: choice }
+	);
+}
+
+/**
+ * Sync one profile from its cursor, checkpointing every page. Resolves with
+ * the outcome for the status bar and the run for the history view; a failed
+ * run is reported there rather than thrown.
+ */
+export async function syncProfile(
+	host: DinoSyncHost,
+	args: {
+		profile: SyncProfile;
+		label: string | null;
+		trigger: SyncTrigger;
+		journal: SyncJournal;
+		runId: string;
+		onProgress: (progress: SyncProgress) => void;
+	}
+): Promise<{
+	result: ProfileSyncResult;
+	run: Omit<SyncHistoryRun, "omittedNotes">;
+}> {
+	const { app } = host;
+	const { profile, label, journal } = args;
+	const { settings } = profile;
+	const t: TFunction = (key, vars) => host.t(key, vars);
+	const notice = new Notice(labelMessage(label, t("notice.syncStarting")), 0);
+
+	const startedAt = Date.now();
+	const persisted = normalizePersistedData(
+		await host.loadData(),
+		DEFAULT_SETTINGS
+	);
+	const profileState = getProfileSyncState(persisted, profile.id);
+	const baseStore = await host.getSyncBaseStore();
+	recordJournalPosition(journal, persisted, profile.id);
+
+	// 1. Resolve the incremental cursor and scope, continuing an
+	//    interrupted run of the same query where it stopped.
+	const query = getSyncQuery(profileState, settings);
+	const resumeFrom = getResumableCheckpoint(profileState, query);
+	const result: ProfileSyncResult = {
+		name: profile.name,
+		ok: false,
+		processed: 0,
+		deleted: 0,
+		error: null,
+		finishedAt: 0,
+	};
+	const checkpoint: SyncCheckpoint = {
+		startedAt: args.runId,
+		...query,
+		cursor: resumeFrom?.cursor ?? null,
+		highWaterMark: resumeFrom?.highWaterMark ?? null,
+		processedNoteIds: [],
+		deferredDeletions: [],
+	};
+	const session = createSyncSession(journal);
+	for (const noteId of resumeFrom?.processedNoteIds ?? []) {
+		session.processedNoteIds.add(noteId);
+	}
+	// Deletions declined last time go to the guard again with the new ones.
+	session.deferredDeletions = [...(resumeFrom?.deferredDeletions ?? [])];
+	for (const note of profileState.heldDeletions) {
+		if (
+			!session.deferredDeletions.some(
+				(deferred) => deferred.noteId === note.noteId
+			)
+		) {
+			session.deferredDeletions.push(note);
+		}
+	}
+	const reportProgress = (): void =>
+		args.onProgress({
+			label,
+			processed: session.processed,
+			deleted: session.deleted,
+			failed: session.failed,
+		});
+	reportProgress();
+	let notePathById: Record<string, string> | null = null;
+	const pinnedNoteIds = new Set(persisted.state.pinnedNoteIds);
+
+	const saveProgress = async (paths: Record<string, string>): Promise<void> => {
+		profileState.notePathById = paths;
+		profileState.checkpoint = {
+			...checkpoint,
+			processedNoteIds: [...session.processedNoteIds],
+			deferredDeletions: session.deferredDeletions ?? [],
+		};
+		await saveRunState(host, persisted, profile.id);
+		await baseStore.save();
+		await journal.flush();
+	};
+
+	try {
+		// 2. Resolve base dir and build stable noteId -> path mapping.
+		const baseDir = await ensureBaseDir(app, settings.dir);
+		const locations = await loadNoteLocations(host, profileState, baseDir);
+		const paths = locations.notePathById;
+		notePathById = paths;
+		const processNotes = (
+			notes: Note[],
+			onCheckpoint?: () => Promise<void>
+		): Promise<void> =>
+			processNotesPage({
+				app,
+				settings,
+				t,
+				notes,
+				baseDir,
+				notePathById: paths,
+				localIndex: locations.localIndex,
+				syncedNotes: persisted.state.syncedNotes,
+				conflicts: persisted.state.conflicts,
+				failedNotes: profileState.failedNotes,
+				pinnedNoteIds,
+				baseStore,
+				session,
+				onCheckpoint,
+			});
+		if (resumeFrom) {
+			notice.setMessage(labelMessage(label, t("notice.syncResuming")));
+		}
+
+		// 3. Stream pages: fetch -> process -> release, so memory stays
+		//    bounded regardless of how many notes changed.
+		for await (const page of iterateNotesPages({
+			token: settings.token,
+			...query,
+			limit: SYNC_PAGE_SIZE,
+			cursor: checkpoint.cursor,
+		})) {
+			// Notes are ordered newest-first, so the very first note of the
+			// first page carries the high-water mark for the next sync.
+			if (checkpoint.highWaterMark === null && page.notes.length > 0) {
+				checkpoint.highWaterMark = page.notes[0].updateTime ?? null;
+			}
+
+			await processNotes(page.notes, () => saveProgress(paths));
+
+			// 4. Checkpoint every page so an interrupted run resumes with the
+			//    next one. Within the page, the ids of finished notes were
+			//    saved as it went; they are dropped once the page is done, so
+			//    a checkpoint stays small however far the run has come.
+			checkpoint.cursor = page.hasMore ? page.nextCursor : null;
+			session.processedNoteIds.clear();
+			await saveProgress(paths);
+			reportProgress();
+
+			if (page.hasMore) {
+				notice.setMessage(
+					labelMessage(
+						label,
+						`${t("notice.syncStarting")} (${session.processed})`
+					)
+				);
+			}
+		}
+
+		// 5. Retry queued notes whose backoff has elapsed. They go after
+		//    the pages: a note the pages wrote has left the queue and one
+		//    that failed again is not due yet, so a newer version always
+		//    wins over the queued copy. A deletion waiting for the guard
+		//    below supersedes it as well.
+		const pendingDeletions = new Set(
+			(session.deferredDeletions ?? []).map((note) => note.noteId)
+		);
+		const dueNotes = getDueFailedNotes(profileState.failedNotes).filter(
+			(note) => !pendingDeletions.has(note.noteId)
+		);
+		if (dueNotes.length > 0) {
+			await processNotes(dueNotes);
+		}
+
+		// 6. Apply the held-back deletions, asking first when there are
+		//    more than the deletion guard allows.
+		const deletions = session.deferredDeletions ?? [];
+		session.deferredDeletions = null;
+		const deletionsApproved = await confirmDeletions(host, {
+			settings,
+			notes: deletions,
+			baseDir,
+			localIndex: locations.localIndex,
+			notePathById: paths,
+			persisted,
+			failedNotes: profileState.failedNotes,
+			baseStore,
+		});
+		profileState.heldDeletions = deletionsApproved ? [] : deletions;
+		if (deletionsApproved) {
+			await processNotes(deletions);
+		}
+
+		// 7. Pull boxes that joined the scope in full, and offer to clean
+		//    up the notes of boxes that left it.
+		await applyScopeChange(host, {
+			settings,
+			query,
+			previousBoxIds: profileState.scopeBoxIds,
+			baseDir,
+			localIndex: locations.localIndex,
+			notePathById: paths,
+			persisted,
+			failedNotes: profileState.failedNotes,
+			pinnedNoteIds,
+			baseStore,
+			session,
+			notice,
+			label,
+		});
+
+		// 8. Apply accumulated daily-note edits once.
+		await host.flushSessionDailyNotes(session);
+
+		// 9. The run is complete: advance the cursor only if we saw notes
+		//    (otherwise keep the previous high-water mark) and drop the
+		//    checkpoint. Declined deletions were kept above, so the cursor
+		//    moves on and the next sync offers only them again.
+		if (checkpoint.highWaterMark) {
+			profileState.lastSyncTime = checkpoint.highWaterMark;
+		}
+		profileState.scopeBoxIds = query.boxIds;
+		profileState.notePathById = paths;
+		profileState.checkpoint = null;
+		await saveRunState(host, persisted, profile.id);
+
+		showSyncSummary(host, notice, session, label);
+		if (!deletionsApproved) {
+			new Notice(
+				labelMessage(
+					label,
+					t("notice.deletionsHeldBack", { count: deletions.length })
+				),
+				10000
+			);
+		}
+		result.ok = true;
+	} catch (error) {
+		console.error(`Dinox: Sync of profile "${profile.name}" failed:`, error);
+		result.error = getErrorMessage(error);
+		notice.setMessage(
+			labelMessage(label, t("notice.syncFailed", { error: result.error }))
+		);
+		// Do NOT update lastSyncTime on error. The checkpoint still points
+		// at the failed page; the notes of it that did succeed are skipped
+		// when the next run resumes there.
+		if (notePathById) {
+			await host.flushSessionDailyNotes(session).catch((flushError) =>
+				console.error("Dinox: Failed to update daily notes:", flushError)
+			);
+			await saveProgress(notePathById).catch((saveError) =>
+				console.error("Dinox: Failed to save sync checkpoint:", saveError)
+			);
+		}
+	} finally {
+		// Bases match files already written, so keep them even on failure.
+		await baseStore.save().catch((error) =>
+			console.error("Dinox: Failed to save sync base store:", error)
+		);
+		await journal.flush().catch((error) =>
+			console.error("Dinox: Failed to save sync journal:", error)
+		);
+		window.setTimeout(() => notice.hide(), result.ok ? 5000 : 10000);
+	}
+	result.processed = session.processed;
+	result.deleted = session.deleted;
+	result.finishedAt = Date.now();
+	// Runs that found nothing to do would only bury the useful ones.
+	if (
+		settings.syncReport.enabled &&
+		(session.entries.length > 0 || result.error)
+	) {
+		await writeSyncReport({
+			app,
+			t,
+			settings: settings.syncReport,
+			baseDir: resolveBaseDir(settings.dir),
+			run: buildSyncReport({
+				t,
+				session,
+				label,
+				startedAt,
+				finishedAt: result.finishedAt,
+				error: result.error,
+			}),
+		}).catch((error) =>
+			console.error("Dinox: Failed to write sync report:", error)
+		);
+	}
+	return {
+		result,
+		run: {
+			startedAt,
+			finishedAt: result.finishedAt,
+			trigger: args.trigger,
+			profile: label,
+			processed: session.processed,
+			unchanged: session.unchanged,
+			deleted: session.deleted,
+			failed: session.failed,
+			conflicts: session.conflicts,
+			error: result.error,
+			notes: session.entries,
+		},
+	};
+}
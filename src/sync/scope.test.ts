@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { diffSyncScope } from "./scope";
+
+describe("diffSyncScope", () => {
+	it("treats a scope no run recorded yet as unchanged", () => {
+		expect(diffSyncScope(undefined, ["a"])).toEqual({
+			backfill: null,
+			narrowed: false,
+		});
+	});
+
+	it("reports nothing when the scope stayed the same", () => {
+		expect(diffSyncScope(["a", "b"], ["b", "a"])).toEqual({
+			backfill: null,
+			narrowed: false,
+		});
+		expect(diffSyncScope(null, null)).toEqual({
+			backfill: null,
+			narrowed: false,
+		});
+	});
+
+	it("backfills only the boxes that were added", () => {
+		expect(diffSyncScope(["a"], ["a", "b", "c"])).toEqual({
+			backfill: { boxIds: ["b", "c"] },
+			narrowed: false,
+		});
+	});
+
+	it("flags boxes that left the scope", () => {
+		expect(diffSyncScope(["a", "b"], ["a"])).toEqual({
+			backfill: null,
+			narrowed: true,
+		});
+	});
+
+	it("backfills and narrows when boxes were swapped", () => {
+		expect(diffSyncScope(["a"], ["b"])).toEqual({
+			backfill: { boxIds: ["b"] },
+			narrowed: true,
+		});
+	});
+
+	it("backfills the whole library when the scope is widened to everything", () => {
+		expect(diffSyncScope(["a"], null)).toEqual({
+			backfill: { boxIds: null },
+			narrowed: false,
+		});
+	});
+
+	it("narrows without a backfill when the whole library becomes some boxes", () => {
+		expect(diffSyncScope(null, ["a"])).toEqual({
+			backfill: null,
+			narrowed: true,
+		});
+	});
+});
@@ -0,0 +1,34 @@
+/** How the card-box scope changed since the run that set the cursor. */
+export interface SyncScopeChange {
+	/** Boxes to pull in full (null means the whole library), or null when none were added. */
+	backfill: { boxIds: string[] | null } | null;
+	/** Whether boxes left the scope, so some local notes may be outside it now. */
+	narrowed: boolean;
+}
+
+/**
+ * Compare the scope the cursor covers with the current one. `previous` is
+ * undefined when no run recorded it yet; that is treated as unchanged.
+ */
+export function diffSyncScope(
+	previous: string[] | null | undefined,
+	current: string[] | null
+): SyncScopeChange {
+	if (previous === undefined) {
+		return { backfill: null, narrowed: false };
+	}
+	if (current === null) {
+		return {
+			backfill: previous === null ? null : { boxIds: null },
+			narrowed: false,
+		};
+	}
+	if (previous === null) {
+		return { backfill: null, narrowed: true };
+	}
+	const added = current.filter((boxId) => !previous.includes(boxId));
+	return {
+		backfill: added.length > 0 ? { boxIds: added } : null,
+		narrowed: previous.some((boxId) => !current.includes(boxId)),
+	};
+}
@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { confirmUndoLastSync } from "./undo";
+import {
+	createSyncHost,
+	loadMainState,
+	runMainSync,
+} from "../../test/host";
+import { resetRemote } from "../../test/api";
+import { confirmed } from "../../test/modals";
+import { deletedNote, dinoxNote, renderedNote } from "../../test/sync";
+import { readTestFile } from "../../test/vault";
+
+vi.mock("../api", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../api")>()),
+	iterateNotesPages: (await import("../../test/api")).iterateNotesPages,
+}));
+vi.mock("../confirm-modal", () => import("../../test/modals"));
+
+beforeEach(() => {
+	confirmed.length = 0;
+});
+
+describe("confirmUndoLastSync", () => {
+	it("reverts the files and the sync position of the last run", async () => {
+		const host = await createSyncHost({
+			deletionGuard: { enabled: false, maxCount: 0, maxPercent: 0 },
+		});
+		resetRemote([
+			[
+				{ ...dinoxNote("n1", "first"), updateTime: "2026-01-01 09:00:00" },
+				{ ...dinoxNote("n2", "kept"), updateTime: "2026-01-01 08:00:00" },
+			],
+		]);
+		await runMainSync(host);
+		const before = await loadMainState(host);
+
+		resetRemote([
+			[
+				{ ...dinoxNote("n1", "second"), updateTime: "2026-01-02 09:00:00" },
+				{ ...deletedNote("n2"), updateTime: "2026-01-02 08:00:00" },
+				{ ...dinoxNote("n3", "new"), updateTime: "2026-01-02 07:00:00" },
+			],
+		]);
+		await runMainSync(host);
+		expect(await readTestFile(host.app, "Dinox/note/n2.md")).toBeNull();
+
+		await confirmUndoLastSync(host);
+		await Promise.all(confirmed);
+
+		expect(await readTestFile(host.app, "Dinox/note/n1.md")).toBe(
+			renderedNote("n1", "first")
+		);
+		expect(await readTestFile(host.app, "Dinox/note/n2.md")).toBe(
+			renderedNote("n2", "kept")
+		);
+		expect(await readTestFile(host.app, "Dinox/note/n3.md")).toBeNull();
+		const after = await loadMainState(host);
+		expect(after.lastSyncTime).toBe(before.lastSyncTime);
+		expect(after.notePathById).toEqual(before.notePathById);
+		expect((await host.getSyncJournal()).getLastRun()).toBeNull();
+	});
+
+	it("leaves nothing to undo once the last run is reverted", async () => {
+		const host = await createSyncHost();
+		resetRemote([[dinoxNote("n1", "first")]]);
+		await runMainSync(host);
+
+		await confirmUndoLastSync(host);
+		await Promise.all(confirmed);
+		expect(await readTestFile(host.app, "Dinox/note/n1.md")).toBeNull();
+
+		confirmed.length = 0;
+		await confirmUndoLastSync(host);
+		expect(confirmed).toEqual([]);
+	});
+});
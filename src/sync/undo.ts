@@ -0,0 +1,82 @@
+import { Notice } from "obsidian";
+import { getProfileSyncState } from "../persisted-data";
+import { undoSyncRun } from "./journal";
+import { ConfirmModal } from "../confirm-modal";
+import { getErrorMessage } from "../utils";
+import type { DinoSyncHost } from "../plugin-types";
+
+/** Asks before reverting the last journaled run. */
+export async function confirmUndoLastSync(host: DinoSyncHost): Promise<void> {
+	if (host.isSyncing) {
+		new Notice(host.t("notice.syncInProgress"));
+		return;
+	}
+	const run = (await host.getSyncJournal()).getLastRun();
+	if (!run) {
+		new Notice(host.t("notice.undoNothing"));
+		return;
+	}
+	if (run.truncated) {
+		new Notice(host.t("notice.undoTooLarge"), 10000);
+		return;
+	}
+	new ConfirmModal(
+		host.app,
+		host.t("undo.confirm", {
+			count: run.entries.length,
+			time: new Date(run.startedAt).toLocaleString(),
+		}),
+		() => undoLastSync(host)
+	).open();
+}
+
+// Reverts the files first and then puts back the sync state captured
+// before the run, so the next sync fetches the same notes again.
+async function undoLastSync(host: DinoSyncHost): Promise<void> {
+	if (host.isSyncing) {
+		new Notice(host.t("notice.syncInProgress"));
+		return;
+	}
+	const journal = await host.getSyncJournal();
+	const run = journal.getLastRun();
+	if (!run) {
+		return;
+	}
+
+	host.setStatusBarSyncingState(true);
+	const notice = new Notice(host.t("notice.undoStarting"), 0);
+	try {
+		const baseStore = await host.getSyncBaseStore();
+		const result = await undoSyncRun({ app: host.app, run, baseStore });
+
+		await host.updatePersistedData((persisted) => {
+			persisted.state.syncedNotes = run.previousState.syncedNotes;
+			persisted.state.conflicts = run.previousState.conflicts;
+			for (const [profileId, position] of Object.entries(
+				run.previousPositions
+			)) {
+				const profileState = getProfileSyncState(persisted, profileId);
+				profileState.lastSyncTime = position.lastSyncTime;
+				profileState.notePathById = position.notePathById;
+				profileState.checkpoint = null;
+			}
+			return true;
+		});
+		await baseStore.save();
+		await journal.clear();
+
+		notice.setMessage(
+			result.failed > 0
+				? host.t("notice.undoPartial", { ...result })
+				: host.t("notice.undoComplete", { count: result.reverted })
+		);
+	} catch (error) {
+		console.error("Dinox: Undo failed:", error);
+		notice.setMessage(
+			host.t("notice.undoFailed", { error: getErrorMessage(error) })
+		);
+	} finally {
+		host.setStatusBarSyncingState(false);
+		window.setTimeout(() => notice.hide(), 10000);
+	}
+}
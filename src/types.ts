@@ -21,6 +21,13 @@ export interface Note {
 	zettelBoxes?: Array<string | ZettelBoxRef>;
 }
 
+/** Scope of an incremental sync; the cursor pages through its results. */
+export interface NotesSyncQuery {
+	since: string | null;
+	includeDeleted: boolean;
+	boxIds: string[] | null;
+}
+
 /** A single page of incrementally-synced notes returned by the sync endpoint. */
 export interface NotesSyncPage {
 	notes: Note[];
@@ -53,6 +60,15 @@ export interface TypeFoldersSettings {
 	material: string;
 }
 
+/** Templates per note category; an empty one falls back to the main template. */
+export interface TypeTemplatesSettings {
+	note: string;
+	/** Web clips (`type: crawl`). */
+	material: string;
+	/** Notes with `isAudio`, whatever their type. */
+	audio: string;
+}
+
 export interface ZettelBoxFoldersSettings {
 	enabled: boolean;
 }
@@ -72,19 +88,122 @@ export interface ZettelBoxNode {
 	priority: number;
 }
 
+/**
+ * An additional Dinox account synced into its own folder. The top-level
+ * token, dir, template and sync scope form the main profile; every other
+ * setting is shared.
+ */
+export interface DinoxProfile {
+	id: string;
+	name: string;
+	token: string;
+	dir: string;
+	/** Empty to use the main template. */
+	template: string;
+	syncScope: SyncScopeSettings;
+}
+
+export type RoutingRuleField = "tag" | "type" | "zettelBox" | "title" | "content";
+
+/**
+ * Sends matching notes to their own folder, template and filename pattern.
+ * Rules are checked in order and the first enabled match wins; empty fields
+ * keep the regular settings.
+ */
+export interface RoutingRule {
+	enabled: boolean;
+	field: RoutingRuleField;
+	/**
+	 * Tag, type or zettel box path (sub-tags and sub-boxes match too), or a
+	 * regular expression for `title` and `content`.
+	 */
+	pattern: string;
+	/** Relative to the sync folder; replaces the type and zettel box folders. */
+	folder: string;
+	template: string;
+	/** Same placeholders as `filenameTemplate`. */
+	filenameTemplate: string;
+}
+
+/** Scheduled sync, active while `isAutoSync` is on. */
+export interface AutoSyncSettings {
+	intervalMinutes: number;
+	syncOnStartup: boolean;
+	/** Sync when the Obsidian window regains focus. */
+	syncOnFocus: boolean;
+}
+
+/**
+ * Push notes with a noteId to Dinox after they have been idle for
+ * `delaySeconds`. Files whose content matches what the plugin last wrote or
+ * pushed are skipped.
+ */
+export interface AutoPushSettings {
+	enabled: boolean;
+	delaySeconds: number;
+}
+
+/** Markdown note in the sync folder listing what each sync run did. */
+export interface SyncReportSettings {
+	enabled: boolean;
+	/** Relative to the sync folder. */
+	path: string;
+	/** `append` keeps every run; `overwrite` keeps only the latest one. */
+	mode: "append" | "overwrite";
+}
+
+/**
+ * Also look for synced notes outside the sync folder, through the metadata
+ * cache, so a note moved elsewhere is found even without a mapping entry.
+ */
+export interface VaultLookupSettings {
+	enabled: boolean;
+	/** Vault folders to search; empty means the whole vault. */
+	includeFolders: string[];
+	excludeFolders: string[];
+}
+
+export type DeletionPolicy = "trash" | "archive" | "mark" | "ignore";
+
+/**
+ * Ask before a sync removes more than `maxCount` notes or `maxPercent` of the
+ * locally indexed notes. A limit of 0 turns that check off.
+ */
+export interface DeletionGuardSettings {
+	enabled: boolean;
+	maxCount: number;
+	maxPercent: number;
+}
+
 export interface DinoPluginSettings {
 	token: string;
 	isAutoSync: boolean;
+	autoSync: AutoSyncSettings;
+	autoPush: AutoPushSettings;
 	dir: string;
 	typeFolders: TypeFoldersSettings;
 	zettelBoxFolders: ZettelBoxFoldersSettings;
 	syncScope: SyncScopeSettings;
+	profiles: DinoxProfile[];
+	routingRules: RoutingRule[];
 	template: string;
+	typeTemplates: TypeTemplatesSettings;
 	filenameFormat: "noteId" | "title" | "time" | "titleDate" | "template";
 	filenameTemplate: string;
 	fileLayout: "flat" | "nested";
 	ignoreSyncKey: string;
 	preserveKeys: string;
+	/** What to do when a note changed both locally and in Dinox. */
+	conflictStrategy: "merge" | "copy";
+	/** What to do with the local file when a note is deleted in Dinox. */
+	deletionPolicy: DeletionPolicy;
+	/** Archive folder for the `archive` policy, relative to `dir`. */
+	deletionArchiveFolder: string;
+	deletionGuard: DeletionGuardSettings;
+	syncReport: SyncReportSettings;
+	/** Keep notes the user moved or renamed at their new path on later syncs. */
+	pinMovedNotes: boolean;
+	vaultLookup: VaultLookupSettings;
 	commandHotkeys: DinoHotkeyMap;
 	dailyNotes: DailyNotesSettings;
 }
@@ -189,3 +189,25 @@ export function sanitizeFolderSegment(value: string): string | null {
 
 	return sanitized;
 }
+
+/**
+ * Fast, non-cryptographic content fingerprint (cyrb53). Only used to detect
+ * whether a synced file changed since the plugin last wrote it.
+ */
+export function hashContent(content: string): string {
+	const text = content ?? "";
+	let h1 = 0xdeadbeef;
+	let h2 = 0x41c6ce57;
+	for (let i = 0; i < text.length; i++) {
+		const code = text.charCodeAt(i);
+		h1 = Math.imul(h1 ^ code, 2654435761);
+		h2 = Math.imul(h2 ^ code, 1597334677);
+	}
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+	h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+	h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+	const high = (h2 >>> 0).toString(16).padStart(8, "0");
+	const low = (h1 >>> 0).toString(16).padStart(8, "0");
+	return `${high}${low}`;
+}
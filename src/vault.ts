@@ -1,4 +1,49 @@
-import { normalizePath, TFolder, type App } from "obsidian";
+import {
+	normalizePath,
+	TFolder,
+	type App,
+	type TAbstractFile,
+} from "obsidian";
+
+// Renames the plugin is making, as "from\nto", so the vault event each one
+// fires is not taken for a move by the user.
+const ownRenames = new Set<string>();
+
+/** Rename a file for the plugin; see {@link isOwnRename}. */
+export async function renameOwnFile(
+	app: App,
+	file: TAbstractFile,
+	newPath: string
+): Promise<void> {
+	const key = `${file.path}\n${normalizePath(newPath)}`;
+	ownRenames.add(key);
+	try {
+		await app.fileManager.renameFile(file, newPath);
+	} finally {
+		ownRenames.delete(key);
+	}
+}
+
+/** Whether a vault rename event comes from {@link renameOwnFile}. */
+export function isOwnRename(oldPath: string, newPath: string): boolean {
+	return ownRenames.has(`${oldPath}\n${newPath}`);
+}
+
+export function addSuffixToMarkdownPath(path: string, suffix: string): string {
+	const normalized = normalizePath(path);
+	const slashIndex = normalized.lastIndexOf("/");
+	const dir = slashIndex === -1 ? "" : normalized.slice(0, slashIndex);
+	const filename =
+		slashIndex === -1 ? normalized : normalized.slice(slashIndex + 1);
+
+	const lower = filename.toLowerCase();
+	const isMarkdown = lower.endsWith(".md");
+	const base = isMarkdown ? filename.slice(0, -3) : filename;
+	const ext = isMarkdown ? ".md" : "";
+
+	const next = `${base}${suffix}${ext}`;
+	return dir ? normalizePath(`${dir}/${next}`) : normalizePath(next);
+}
 
 export async function ensureFolderExists(
 	app: App,
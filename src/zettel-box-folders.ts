@@ -90,6 +90,24 @@ function extractFirstBoxSegments(value: unknown): string[] | null {
 	return null;
 }
 
+/** Every zettel box of a note as a "/"-joined path, e.g. "研究/AI/LLM". */
+export function listZettelBoxPaths(noteData: Note): string[] {
+	const record = noteData as unknown as UnknownRecord;
+	let entries = Array.isArray(record.zettelBoxes) ? record.zettelBoxes : [];
+	if (entries.length === 0) {
+		const split = splitFrontmatter(noteData.content ?? "");
+		entries = extractFrontmatterList(split.frontmatter, "zettelBoxes");
+	}
+	const paths: string[] = [];
+	for (const entry of entries) {
+		const segments = extractPathSegmentsFromBoxEntry(entry);
+		if (segments && segments.length > 0) {
+			paths.push(segments.join("/"));
+		}
+	}
+	return paths;
+}
+
 function extractFirstZettelBoxSegments(noteData: Note): string[] | null {
 	const record = noteData as unknown as UnknownRecord;
 	const topLevel = extractFirstBoxSegments(record.zettelBoxes);
@@ -0,0 +1,43 @@
+import type { Note, NotesSyncPage } from "../src/types";
+
+/**
+ * What the notes endpoint serves in a test. Page `i` is fetched with the
+ * cursor `c<i>` (the first one without a cursor), and fetching `failAt`
+ * fails once, as an interrupted run would.
+ */
+export const remote = {
+	pages: [] as Note[][],
+	failAt: null as number | null,
+	/** Cursor each walk through the pages started from. */
+	requests: [] as Array<string | null>,
+};
+
+export function resetRemote(pages: Note[][] = []): void {
+	remote.pages = pages;
+	remote.failAt = null;
+	remote.requests = [];
+}
+
+/** Stand-in for `iterateNotesPages`, serving {@link remote}. */
+export async function* iterateNotesPages(args: {
+	cursor?: string | null;
+}): AsyncGenerator<NotesSyncPage, void, undefined> {
+	const cursor = args.cursor ?? null;
+	remote.requests.push(cursor);
+	for (
+		let index = cursor ? Number(cursor.slice(1)) : 0;
+		index < remote.pages.length;
+		index++
+	) {
+		if (remote.failAt === index) {
+			remote.failAt = null;
+			throw new Error("Network error.");
+		}
+		const hasMore = index + 1 < remote.pages.length;
+		yield Promise.resolve({
+			notes: remote.pages[index],
+			nextCursor: hasMore ? `c${index + 1}` : null,
+			hasMore,
+		});
+	}
+}
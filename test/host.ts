@@ -0,0 +1,123 @@
+import type { App } from "obsidian";
+import { DEFAULT_SETTINGS, MAIN_PROFILE_ID } from "../src/constants";
+import {
+	getProfileSyncState,
+	normalizePersistedData,
+	type PersistedPluginData,
+	type ProfileSyncState,
+} from "../src/persisted-data";
+import type { DinoSyncHost } from "../src/plugin-types";
+import { findProfileForPath, resolveSyncProfiles } from "../src/profiles";
+import { SyncBaseStore } from "../src/sync/base-store";
+import { SyncJournal } from "../src/sync/journal";
+import { LocalNoteIdCache } from "../src/sync/local-index";
+import { beginSyncJournalRun, syncProfile } from "../src/sync/run";
+import type { DinoPluginSettings } from "../src/types";
+import { createSyncFixture } from "./sync";
+
+/**
+ * The parts of the plugin the modules in src/sync run on. data.json is kept
+ * in memory, and updates to it run one at a time as in the plugin.
+ */
+export type TestHost = DinoSyncHost & { data: unknown };
+
+export function createTestHost(
+	app: App,
+	settings: DinoPluginSettings
+): TestHost {
+	let updates: Promise<void> = Promise.resolve();
+	let baseStore: Promise<SyncBaseStore> | null = null;
+	let journal: Promise<SyncJournal> | null = null;
+	let localIndex: Promise<LocalNoteIdCache> | null = null;
+	const t = (key: string): string => key;
+	const host = {
+		app,
+		settings,
+		data: null as unknown,
+		isSyncing: false,
+		statusBarItemEl: { addClass: () => {}, removeClass: () => {} },
+		t,
+		loadData(): Promise<unknown> {
+			return Promise.resolve(
+				host.data === null ? null : JSON.parse(JSON.stringify(host.data))
+			);
+		},
+		saveData(data: unknown): Promise<void> {
+			host.data = JSON.parse(JSON.stringify(data));
+			return Promise.resolve();
+		},
+		setStatusBarSyncingState(isSyncing: boolean): void {
+			host.isSyncing = isSyncing;
+		},
+		canStartSync: () => !host.isSyncing,
+		getSyncProfiles: () => resolveSyncProfiles(host.settings, t),
+		getProfileForPath(path: string | undefined) {
+			const profiles = resolveSyncProfiles(host.settings, t);
+			return (path && findProfileForPath(profiles, path)) || profiles[0];
+		},
+		updatePersistedData(
+			update: (persisted: PersistedPluginData) => Promise<boolean> | boolean
+		): Promise<void> {
+			updates = updates.then(async () => {
+				const persisted = normalizePersistedData(
+					await host.loadData(),
+					DEFAULT_SETTINGS
+				);
+				if (await update(persisted)) {
+					persisted.settings = host.settings;
+					await host.saveData(persisted);
+				}
+			});
+			return updates;
+		},
+		getSyncBaseStore: () =>
+			(baseStore ??= SyncBaseStore.load(app.vault.adapter, "sync-base.json")),
+		getSyncJournal: () =>
+			(journal ??= SyncJournal.load(app.vault.adapter, "sync-journal.json")),
+		getLocalNoteIdCache: () =>
+			(localIndex ??= LocalNoteIdCache.load(
+				app.vault.adapter,
+				"local-index.json"
+			)),
+		flushSessionDailyNotes: () => Promise.resolve(),
+	};
+	return host as unknown as TestHost;
+}
+
+/** A host on the vault of a fresh sync fixture, with a token set. */
+export async function createSyncHost(
+	settings: Partial<DinoPluginSettings> = {}
+): Promise<TestHost> {
+	const fixture = await createSyncFixture({}, { token: "token", ...settings });
+	return createTestHost(fixture.app, fixture.settings);
+}
+
+/** One sync of the main profile, journaled the way the plugin runs it. */
+export async function runMainSync(host: TestHost): Promise<boolean> {
+	const profile = host.getSyncProfiles()[0];
+	const journal = await host.getSyncJournal();
+	host.setStatusBarSyncingState(true);
+	try {
+		const runId = await beginSyncJournalRun(host, journal, [profile]);
+		const { result } = await syncProfile(host, {
+			profile,
+			label: null,
+			trigger: "manual",
+			journal,
+			runId,
+			onProgress: () => {},
+		});
+		return result.ok;
+	} finally {
+		await journal.save();
+		host.setStatusBarSyncingState(false);
+	}
+}
+
+export async function loadMainState(host: TestHost): Promise<ProfileSyncState> {
+	const persisted = normalizePersistedData(
+		await host.loadData(),
+		DEFAULT_SETTINGS
+	);
+	return getProfileSyncState(persisted, MAIN_PROFILE_ID);
+}
@@ -0,0 +1,38 @@
+// Modals that answer as soon as they open. Tests mock the plugin's modals
+// with these, since the stand-in Obsidian API renders nothing.
+
+/** Answer the deletion guard gives, and how many removals it was shown. */
+export const deletionGuard = {
+	answer: true,
+	shown: [] as number[],
+};
+
+export class DeletionGuardModal {
+	constructor(
+		_app: unknown,
+		private readonly args: {
+			items: unknown[];
+			onResolve: (approved: boolean) => void;
+		}
+	) {}
+
+	open(): void {
+		deletionGuard.shown.push(this.args.items.length);
+		this.args.onResolve(deletionGuard.answer);
+	}
+}
+
+/** Confirmed actions, to be awaited by the test. */
+export const confirmed: Array<Promise<void>> = [];
+
+export class ConfirmModal {
+	constructor(
+		_app: unknown,
+		_message: string,
+		private readonly onConfirm: () => void | Promise<void>
+	) {}
+
+	open(): void {
+		confirmed.push(Promise.resolve(this.onConfirm()));
+	}
+}
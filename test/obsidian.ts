@@ -0,0 +1,301 @@
+// Runtime stand-ins for the parts of the Obsidian API the tested modules
+// touch; the package itself only ships type declarations. The vault keeps
+// its files in memory and behaves like Obsidian's where the sync relies on
+// it: renames need the target folder to exist and never overwrite a file.
+import { parse, stringify } from "yaml";
+
+export function normalizePath(path: string): string {
+	return path
+		.replace(/[\\/]+/g, "/")
+		.replace(/^\/+|\/+$/g, "")
+		.normalize("NFC");
+}
+
+export function parseYaml(text: string): unknown {
+	return parse(text);
+}
+
+export function stringifyYaml(value: unknown): string {
+	return stringify(value);
+}
+
+export function requestUrl(): Promise<never> {
+	return Promise.reject(new Error("No network in tests."));
+}
+
+export class Notice {
+	constructor(public message: string = "", public duration?: number) {}
+
+	setMessage(message: string): this {
+		this.message = message;
+		return this;
+	}
+
+	hide(): void {}
+}
+
+export class Modal {
+	constructor(public app: App) {}
+
+	open(): void {}
+
+	close(): void {}
+}
+
+export class Setting {}
+
+export class TAbstractFile {
+	path = "";
+	name = "";
+	parent: TFolder | null = null;
+}
+
+export class TFile extends TAbstractFile {
+	basename = "";
+	extension = "md";
+	stat = { ctime: 0, mtime: 0, size: 0 };
+}
+
+export class TFolder extends TAbstractFile {
+	children: TAbstractFile[] = [];
+
+	isRoot(): boolean {
+		return this.path === "";
+	}
+}
+
+function parentPath(path: string): string {
+	const index = path.lastIndexOf("/");
+	return index === -1 ? "" : path.slice(0, index);
+}
+
+function setPath(file: TAbstractFile, path: string): void {
+	file.path = path;
+	file.name = path.slice(path.lastIndexOf("/") + 1);
+	if (file instanceof TFile) {
+		const dot = file.name.lastIndexOf(".");
+		file.basename = dot === -1 ? file.name : file.name.slice(0, dot);
+		file.extension = dot === -1 ? "" : file.name.slice(dot + 1);
+	}
+}
+
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+
+/** Plugin data files such as the sync journal, kept in memory. */
+export class DataAdapter {
+	readonly files = new Map<string, string>();
+
+	exists(path: string): Promise<boolean> {
+		return Promise.resolve(this.files.has(path));
+	}
+
+	read(path: string): Promise<string> {
+		const data = this.files.get(path);
+		return data === undefined
+			? Promise.reject(new Error(`${path} does not exist.`))
+			: Promise.resolve(data);
+	}
+
+	write(path: string, data: string): Promise<void> {
+		this.files.set(path, data);
+		return Promise.resolve();
+	}
+
+	append(path: string, data: string): Promise<void> {
+		this.files.set(path, (this.files.get(path) ?? "") + data);
+		return Promise.resolve();
+	}
+
+	remove(path: string): Promise<void> {
+		this.files.delete(path);
+		return Promise.resolve();
+	}
+}
+
+export class Vault {
+	readonly adapter = new DataAdapter();
+	private readonly root = new TFolder();
+	private readonly nodes = new Map<string, TAbstractFile>([["", this.root]]);
+	private readonly contents = new Map<TFile, string>();
+	private clock = 0;
+
+	getAbstractFileByPath(path: string): TAbstractFile | null {
+		return this.nodes.get(normalizePath(path)) ?? null;
+	}
+
+	getMarkdownFiles(): TFile[] {
+		return Array.from(this.contents.keys()).filter(
+			(file) => file.extension === "md"
+		);
+	}
+
+	read(file: TFile): Promise<string> {
+		const data = this.contents.get(file);
+		return data === undefined
+			? Promise.reject(new Error(`${file.path} does not exist.`))
+			: Promise.resolve(data);
+	}
+
+	cachedRead(file: TFile): Promise<string> {
+		return this.read(file);
+	}
+
+	/** Synchronous read for the metadata cache. */
+	peek(file: TFile): string | undefined {
+		return this.contents.get(file);
+	}
+
+	create(path: string, data: string): Promise<TFile> {
+		const file = new TFile();
+		this.attach(file, normalizePath(path));
+		this.write(file, data);
+		return Promise.resolve(file);
+	}
+
+	createFolder(path: string): Promise<TFolder> {
+		const folder = new TFolder();
+		this.attach(folder, normalizePath(path));
+		return Promise.resolve(folder);
+	}
+
+	modify(file: TFile, data: string): Promise<void> {
+		if (!this.contents.has(file)) {
+			return Promise.reject(new Error(`${file.path} does not exist.`));
+		}
+		this.write(file, data);
+		return Promise.resolve();
+	}
+
+	rename(file: TAbstractFile, newPath: string): Promise<void> {
+		const target = normalizePath(newPath);
+		const error = this.checkTarget(target);
+		if (error) {
+			return Promise.reject(error);
+		}
+		this.detach(file);
+		this.attach(file, target);
+		if (file instanceof TFolder) {
+			const moveChildren = (folder: TFolder): void => {
+				for (const child of folder.children) {
+					this.nodes.delete(child.path);
+					setPath(child, `${folder.path}/${child.name}`);
+					this.nodes.set(child.path, child);
+					if (child instanceof TFolder) {
+						moveChildren(child);
+					}
+				}
+			};
+			moveChildren(file);
+		}
+		return Promise.resolve();
+	}
+
+	/** What the file manager's trash does to the vault. */
+	remove(file: TAbstractFile): void {
+		if (file instanceof TFolder) {
+			for (const child of [...file.children]) {
+				this.remove(child);
+			}
+		}
+		this.detach(file);
+		if (file instanceof TFile) {
+			this.contents.delete(file);
+		}
+	}
+
+	private write(file: TFile, data: string): void {
+		this.contents.set(file, data);
+		file.stat = {
+			ctime: file.stat.ctime,
+			mtime: ++this.clock,
+			size: data.length,
+		};
+	}
+
+	private checkTarget(path: string): Error | null {
+		if (this.nodes.has(path)) {
+			return new Error(`${path} already exists.`);
+		}
+		if (!(this.nodes.get(parentPath(path)) instanceof TFolder)) {
+			return new Error(`Folder of ${path} does not exist.`);
+		}
+		return null;
+	}
+
+	private attach(file: TAbstractFile, path: string): void {
+		const error = this.checkTarget(path);
+		const parent = this.nodes.get(parentPath(path));
+		if (error || !(parent instanceof TFolder)) {
+			throw error ?? new Error(`Folder of ${path} does not exist.`);
+		}
+		setPath(file, path);
+		file.parent = parent;
+		parent.children.push(file);
+		this.nodes.set(path, file);
+	}
+
+	private detach(file: TAbstractFile): void {
+		this.nodes.delete(file.path);
+		if (file.parent) {
+			file.parent.children = file.parent.children.filter(
+				(child) => child !== file
+			);
+			file.parent = null;
+		}
+	}
+}
+
+export class FileManager {
+	constructor(private readonly vault: Vault) {}
+
+	renameFile(file: TAbstractFile, newPath: string): Promise<void> {
+		return this.vault.rename(file, newPath);
+	}
+
+	trashFile(file: TAbstractFile): Promise<void> {
+		this.vault.remove(file);
+		return Promise.resolve();
+	}
+
+	async processFrontMatter(
+		file: TFile,
+		fn: (frontmatter: Record<string, unknown>) => void
+	): Promise<void> {
+		const content = await this.vault.read(file);
+		const match = FRONTMATTER.exec(content);
+		const parsed = match ? (parse(match[1]) as unknown) : null;
+		const frontmatter =
+			parsed && typeof parsed === "object"
+				? (parsed as Record<string, unknown>)
+				: {};
+		fn(frontmatter);
+		const body = match ? content.slice(match[0].length) : content;
+		await this.vault.modify(
+			file,
+			`---\n${stringify(frontmatter)}---\n${body}`
+		);
+	}
+}
+
+/** Parses the frontmatter on every lookup, so it is never stale. */
+export class MetadataCache {
+	constructor(private readonly vault: Vault) {}
+
+	getFileCache(file: TFile): { frontmatter?: Record<string, unknown> } | null {
+		const content = this.vault.peek(file);
+		if (content === undefined) {
+			return null;
+		}
+		const match = FRONTMATTER.exec(content);
+		const frontmatter = match
+			? (parse(match[1]) as Record<string, unknown> | null)
+			: null;
+		return frontmatter ? { frontmatter } : {};
+	}
+}
+
+export class App {
+	readonly vault = new Vault();
+	readonly fileManager = new FileManager(this.vault);
+	readonly metadataCache = new MetadataCache(this.vault);
+}
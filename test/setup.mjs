@@ -0,0 +1,2 @@
+// The plugin schedules its timers through `window`, which Node lacks.
+globalThis.window ??= globalThis;
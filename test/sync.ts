@@ -0,0 +1,97 @@
+import type { App } from "obsidian";
+import { DEFAULT_SETTINGS } from "../src/constants";
+import type {
+	FailedNoteRecord,
+	SyncConflict,
+	SyncedNoteRecord,
+} from "../src/persisted-data";
+import {
+	createSyncSession,
+	processNotesPage,
+	type SyncPlanItem,
+	type SyncSession,
+} from "../src/sync";
+import { SyncBaseStore } from "../src/sync/base-store";
+import type { DinoPluginSettings, Note } from "../src/types";
+import { createTestApp } from "./vault";
+
+export const BASE_DIR = "Dinox";
+
+/** Everything a sync page reads and updates, as one profile keeps it. */
+export interface SyncFixture {
+	app: App;
+	settings: DinoPluginSettings;
+	notePathById: Record<string, string>;
+	localIndex: Record<string, string>;
+	syncedNotes: Record<string, SyncedNoteRecord>;
+	conflicts: SyncConflict[];
+	failedNotes: Record<string, FailedNoteRecord>;
+	pinnedNoteIds: Set<string>;
+	baseStore: SyncBaseStore;
+}
+
+export async function createSyncFixture(
+	files: Record<string, string> = {},
+	settings: Partial<DinoPluginSettings> = {}
+): Promise<SyncFixture> {
+	const app = await createTestApp(files);
+	return {
+		app,
+		settings: {
+			...DEFAULT_SETTINGS,
+			dir: BASE_DIR,
+			fileLayout: "flat",
+			template: "---\nnoteId: {{noteId}}\n---\n{{content}}",
+			...settings,
+		},
+		notePathById: {},
+		localIndex: {},
+		syncedNotes: {},
+		conflicts: [],
+		failedNotes: {},
+		pinnedNoteIds: new Set(),
+		baseStore: await SyncBaseStore.load(app.vault.adapter, "bases.json"),
+	};
+}
+
+export function dinoxNote(noteId: string, content: string): Note {
+	return {
+		noteId,
+		title: noteId,
+		content,
+		createTime: "2026-01-01 09:00:00",
+		isDel: false,
+	};
+}
+
+export function deletedNote(noteId: string): Note {
+	return { ...dinoxNote(noteId, ""), isDel: true };
+}
+
+/** What the default test template writes for a note. */
+export function renderedNote(noteId: string, content: string): string {
+	return `---\nnoteId: ${noteId}\n---\n${content}`;
+}
+
+/** Runs one page through the sync, or a dry run of it when `plan` is set. */
+export async function syncPage(
+	fixture: SyncFixture,
+	notes: Note[],
+	options: {
+		session?: SyncSession;
+		plan?: SyncPlanItem[];
+		onCheckpoint?: () => Promise<void>;
+	} = {}
+): Promise<SyncSession> {
+	const session = options.session ?? createSyncSession();
+	await processNotesPage({
+		...fixture,
+		t: (key) => key,
+		notes,
+		baseDir: BASE_DIR,
+		session,
+		plan: options.plan,
+		onCheckpoint: options.onCheckpoint,
+	});
+	return session;
+}
@@ -0,0 +1,25 @@
+import { TFile, type App } from "obsidian";
+import { ensureFolderExists } from "../src/vault";
+import { App as TestApp } from "./obsidian";
+
+/** An in-memory vault holding `files`, keyed by path. */
+export async function createTestApp(
+	files: Record<string, string> = {}
+): Promise<App> {
+	const app = new TestApp() as unknown as App;
+	for (const [path, content] of Object.entries(files)) {
+		const folder = path.slice(0, Math.max(0, path.lastIndexOf("/")));
+		await ensureFolderExists(app, folder);
+		await app.vault.create(path, content);
+	}
+	return app;
+}
+
+/** Content of the file at `path`, or null when there is none. */
+export async function readTestFile(
+	app: App,
+	path: string
+): Promise<string | null> {
+	const file = app.vault.getAbstractFileByPath(path);
+	return file instanceof TFile ? await app.vault.read(file) : null;
+}
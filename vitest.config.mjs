@@ -0,0 +1,18 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+	resolve: {
+		alias: {
+			// The obsidian package only ships type declarations.
+			obsidian: fileURLToPath(new URL("./test/obsidian.ts", import.meta.url)),
+			// esbuild bundles the CommonJS build; the ES module one only has a
+			// default export, which `import * as Mustache` does not see.
+			mustache: "mustache/mustache.js",
+		},
+	},
+	test: {
+		include: ["src/**/*.test.ts"],
+		setupFiles: ["test/setup.mjs"],
+	},
+});